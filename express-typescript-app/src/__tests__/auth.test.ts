@@ -0,0 +1,173 @@
+import { generateKeyPairSync, randomBytes } from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import app from '../app';
+import { AuthConfig, JwtKey } from '@/config/auth';
+import { createAuthenticate } from '@/middleware/auth';
+import { errorHandler } from '@/middleware/errorHandler';
+import { TokenService } from '@/services/tokenService';
+import { AuthUser, CustomRequest } from '@/types';
+
+const user: AuthUser = { id: 'user-1', email: 'user@example.com', role: 'user' };
+
+const generateRsaKey = (kid: string): JwtKey => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+  return { kid, algorithm: 'RS256', privateKey, publicKey };
+};
+
+const makeConfig = (keys: JwtKey[], activeKeyId: string, overrides: Partial<AuthConfig> = {}): AuthConfig => ({
+  keys,
+  activeKeyId,
+  issuer: 'test-issuer',
+  audience: 'test-audience',
+  accessTokenTtl: 60,
+  refreshTokenTtl: 600,
+  ...overrides,
+});
+
+describe('TokenService', () => {
+  const rsaKey = generateRsaKey('rsa-1');
+  const hmacKey: JwtKey = { kid: 'hmac-1', algorithm: 'HS256', secret: randomBytes(32).toString('hex') };
+
+  it.each([
+    ['RS256', rsaKey],
+    ['HS256', hmacKey],
+  ])('should sign and verify %s access tokens', (_algorithm, key) => {
+    const tokens = new TokenService(makeConfig([key], key.kid));
+
+    const token = tokens.signAccessToken(user);
+
+    expect(jwt.decode(token, { complete: true })?.header).toMatchObject({ alg: key.algorithm, kid: key.kid });
+    expect(tokens.verifyAccessToken(token)).toEqual(user);
+  });
+
+  it('should keep verifying tokens from a rotated-out key', () => {
+    const oldKey = generateRsaKey('rsa-old');
+    const oldToken = new TokenService(makeConfig([oldKey], 'rsa-old')).signAccessToken(user);
+
+    const retiredKey: JwtKey = { kid: oldKey.kid, algorithm: 'RS256', publicKey: oldKey.publicKey ?? '' };
+    const rotated = new TokenService(makeConfig([rsaKey, retiredKey], 'rsa-1'));
+
+    expect(rotated.verifyAccessToken(oldToken)).toEqual(user);
+    expect(jwt.decode(rotated.signAccessToken(user), { complete: true })?.header.kid).toBe('rsa-1');
+  });
+
+  it('should reject tokens signed with an unknown key', () => {
+    const other = new TokenService(makeConfig([generateRsaKey('rsa-1')], 'rsa-1'));
+    const tokens = new TokenService(makeConfig([rsaKey], 'rsa-1'));
+
+    expect(() => tokens.verifyAccessToken(other.signAccessToken(user))).toThrow(jwt.JsonWebTokenError);
+  });
+
+  it('should reject an HS256 token forged with the RSA public key', () => {
+    const tokens = new TokenService(makeConfig([rsaKey], 'rsa-1'));
+    const forged = jwt.sign({ ...user, type: 'access' }, rsaKey.publicKey ?? '', {
+      algorithm: 'HS256',
+      keyid: 'rsa-1',
+      subject: user.id,
+      issuer: 'test-issuer',
+      audience: 'test-audience',
+    });
+
+    expect(() => tokens.verifyAccessToken(forged)).toThrow(jwt.JsonWebTokenError);
+  });
+
+  it('should not accept a refresh token as an access token', () => {
+    const tokens = new TokenService(makeConfig([hmacKey], 'hmac-1'));
+
+    expect(() => tokens.verifyAccessToken(tokens.signRefreshToken(user.id, 'jti-1'))).toThrow('expected access token');
+  });
+
+  it('should refuse an active key that cannot sign', () => {
+    const publicOnly: JwtKey = { kid: 'rsa-1', algorithm: 'RS256', publicKey: rsaKey.publicKey ?? '' };
+
+    expect(() => new TokenService(makeConfig([publicOnly], 'rsa-1'))).toThrow('cannot sign');
+  });
+});
+
+describe('authenticate middleware', () => {
+  const key = generateRsaKey('rsa-1');
+  const tokens = new TokenService(makeConfig([key], 'rsa-1'));
+
+  const testApp = express();
+  testApp.get('/protected', createAuthenticate(tokens), (req, res) => {
+    res.json({ user: (req as CustomRequest).user });
+  });
+  testApp.use(errorHandler);
+
+  it('should attach the token user to the request', async () => {
+    const response = await request(testApp)
+      .get('/protected')
+      .auth(tokens.signAccessToken(user), { type: 'bearer' })
+      .expect(200);
+
+    expect(response.body.user).toEqual(user);
+  });
+
+  it('should return 401 without a bearer token', async () => {
+    await request(testApp).get('/protected').expect(401);
+    await request(testApp).get('/protected').set('Authorization', 'Basic abc').expect(401);
+  });
+
+  it('should return 401 for an invalid or expired token', async () => {
+    const expired = new TokenService(makeConfig([key], 'rsa-1', { accessTokenTtl: -10 })).signAccessToken(user);
+
+    const response = await request(testApp).get('/protected').auth(expired, { type: 'bearer' }).expect(401);
+    expect(response.body.message).toBe('Token expired');
+
+    await request(testApp).get('/protected').auth('not-a-token', { type: 'bearer' }).expect(401);
+  });
+});
+
+describe('Auth API', () => {
+  const login = (password = 'password123') =>
+    request(app).post('/api/v1/auth/login').send({ email: 'john@example.com', password });
+
+  it('should log in and return the current user', async () => {
+    const response = await login().expect(200);
+    expect(response.body.data).toMatchObject({
+      accessToken: expect.any(String),
+      refreshToken: expect.any(String),
+      tokenType: 'Bearer',
+    });
+
+    const me = await request(app)
+      .get('/api/v1/auth/me')
+      .auth(response.body.data.accessToken, { type: 'bearer' })
+      .expect(200);
+    expect(me.body.data).toMatchObject({ email: 'john@example.com', role: 'user' });
+    expect(me.body.data.passwordHash).toBeUndefined();
+  });
+
+  it('should reject a wrong password', async () => {
+    const response = await login('wrong-password').expect(401);
+
+    expect(response.body.message).toBe('Invalid email or password');
+  });
+
+  it('should rotate refresh tokens and reject reuse', async () => {
+    const { refreshToken } = (await login().expect(200)).body.data;
+
+    const refreshed = await request(app).post('/api/v1/auth/refresh').send({ refreshToken }).expect(200);
+    expect(refreshed.body.data.refreshToken).not.toBe(refreshToken);
+
+    await request(app).post('/api/v1/auth/refresh').send({ refreshToken }).expect(401);
+    // Reuse revokes the whole family, including the token issued by the refresh
+    await request(app)
+      .post('/api/v1/auth/refresh')
+      .send({ refreshToken: refreshed.body.data.refreshToken })
+      .expect(401);
+  });
+
+  it('should revoke a refresh token on logout', async () => {
+    const { refreshToken } = (await login().expect(200)).body.data;
+
+    await request(app).post('/api/v1/auth/logout').send({ refreshToken }).expect(200);
+    await request(app).post('/api/v1/auth/refresh').send({ refreshToken }).expect(401);
+  });
+});
@@ -0,0 +1,33 @@
+import { formatCsvRow, parseCsv } from '@/utils/csv';
+
+describe('parseCsv', () => {
+  it('should parse quoted fields, escaped quotes and line breaks inside quotes', () => {
+    const records = parseCsv('\uFEFFa,b\r\n"x, y","say ""hi"""\n\n"multi\nline",z\n');
+
+    expect(records).toEqual([
+      { line: 1, fields: ['a', 'b'] },
+      { line: 2, fields: ['x, y', 'say "hi"'] },
+      { line: 4, fields: ['multi\nline', 'z'] },
+    ]);
+  });
+
+  it('should reject a quoted field that is never closed', () => {
+    expect(() => parseCsv('a,b\n"open,c\n')).toThrow(expect.objectContaining({ code: 'INVALID_CSV' }));
+  });
+});
+
+describe('formatCsvRow', () => {
+  it('should quote only the fields that need it and round-trip through parseCsv', () => {
+    const row = formatCsvRow(['plain', 'a,b', 'say "hi"', null, new Date('2024-01-01T00:00:00.000Z')]);
+
+    expect(row).toBe('plain,"a,b","say ""hi""",,2024-01-01T00:00:00.000Z\r\n');
+    expect(parseCsv(row)[0]?.fields).toEqual(['plain', 'a,b', 'say "hi"', '', '2024-01-01T00:00:00.000Z']);
+  });
+
+  it('should neutralise cells a spreadsheet would run as formulas', () => {
+    const row = formatCsvRow(['=HYPERLINK("http://x")', '+1', '-1', '@SUM(A1)', '\tcmd', '\rcmd', 'a=b']);
+
+    expect(row).toBe('"\'=HYPERLINK(""http://x"")","\'+1","\'-1","\'@SUM(A1)","\'\tcmd","\'\rcmd",a=b\r\n');
+    expect(parseCsv(row)[0]?.fields).toEqual(['\'=HYPERLINK("http://x")', '\'+1', '\'-1', '\'@SUM(A1)', '\'\tcmd', '\'\rcmd', 'a=b']);
+  });
+});
@@ -0,0 +1,114 @@
+import express from 'express';
+import request from 'supertest';
+import app from '../app';
+import { errorHandler } from '@/middleware/errorHandler';
+import { CircuitBreakerError, MongoRetryError } from '@/mongo/errors';
+import { NotFoundError, RateLimitedError, ValidationError } from '@/utils/errors';
+
+const PROBLEM_JSON = 'application/problem+json';
+
+const throwing = (error: Error): express.Express => {
+  const testApp = express();
+  testApp.get('/fail', () => {
+    throw error;
+  });
+  testApp.use(errorHandler);
+  return testApp;
+};
+
+// Retries that ended on `message`, thrown by a driver error with the given name and code
+const mongoRetryError = (message: string, fields: { name?: string; code?: number } = {}): MongoRetryError =>
+  new MongoRetryError(`gave up: ${message}`, Object.assign(new Error(message), fields), 3, 1000, []);
+
+describe('errorHandler', () => {
+  it('should render problem details when the client accepts problem+json', async () => {
+    const response = await request(throwing(new NotFoundError('User not found', 'USER_NOT_FOUND')))
+      .get('/fail')
+      .set('Accept', PROBLEM_JSON)
+      .expect(404)
+      .expect('Content-Type', /application\/problem\+json/);
+
+    expect(response.body).toEqual({
+      type: '/problems/user-not-found',
+      title: 'Not Found',
+      status: 404,
+      detail: 'User not found',
+      instance: '/fail',
+      code: 'USER_NOT_FOUND',
+    });
+  });
+
+  it('should keep the ErrorResponse envelope for other clients', async () => {
+    const response = await request(throwing(new NotFoundError('User not found')))
+      .get('/fail')
+      .expect(404)
+      .expect('Content-Type', /application\/json/);
+
+    expect(response.body).toMatchObject({
+      success: false,
+      message: 'User not found',
+      error: 'User not found',
+      code: 'NOT_FOUND',
+    });
+  });
+
+  it('should include validation errors in problem details', async () => {
+    const errors = [{ path: 'body.email', message: 'is required' }];
+
+    const response = await request(throwing(new ValidationError(errors)))
+      .get('/fail')
+      .set('Accept', `application/json;q=0.5, ${PROBLEM_JSON}`)
+      .expect(400);
+
+    expect(response.body).toMatchObject({ status: 400, code: 'VALIDATION_FAILED', errors });
+  });
+
+  it.each([
+    ['CircuitBreakerError', new CircuitBreakerError(5, Date.now()), 503, 'DATABASE_UNAVAILABLE'],
+    ['a timed out MongoRetryError', mongoRetryError('Operation timed out after 10ms'), 504, 'DATABASE_TIMEOUT'],
+    ['a MongoRetryError after network errors', mongoRetryError('connection reset', { name: 'MongoNetworkError' }), 504, 'DATABASE_TIMEOUT'],
+    ['a MongoRetryError after a failover', mongoRetryError('not primary', { name: 'MongoServerError', code: 10107 }), 503, 'DATABASE_UNAVAILABLE'],
+    ['a MongoRetryError after a validation error', mongoRetryError('Document failed validation', { name: 'MongoServerError', code: 121 }), 500, 'INTERNAL_ERROR'],
+    ['a MongoRetryError after an authentication error', mongoRetryError('Authentication failed', { name: 'MongoServerError', code: 18 }), 500, 'INTERNAL_ERROR'],
+  ])('should map %s to its problem', async (_name, error, status, code) => {
+    const response = await request(throwing(error)).get('/fail').set('Accept', PROBLEM_JSON).expect(status);
+
+    expect(response.body).toMatchObject({ status, code });
+  });
+
+  it('should hide the message of unexpected errors from problem details', async () => {
+    const response = await request(throwing(new Error('connection string with secrets')))
+      .get('/fail')
+      .set('Accept', PROBLEM_JSON)
+      .expect(500);
+
+    expect(response.body).toMatchObject({ title: 'Internal Server Error', detail: 'Internal Server Error', code: 'INTERNAL_ERROR' });
+  });
+
+  it('should send Retry-After for rate limited requests', async () => {
+    await request(throwing(new RateLimitedError('Slow down', 1.2))).get('/fail').expect(429).expect('Retry-After', '2');
+  });
+});
+
+describe('Error responses', () => {
+  it('should report malformed JSON bodies as a bad request', async () => {
+    const response = await request(app)
+      .post('/api/v1/auth/login')
+      .set('Content-Type', 'application/json')
+      .send('{"email":')
+      .expect(400);
+
+    expect(response.body).toMatchObject({ code: 'MALFORMED_JSON' });
+  });
+
+  it('should render unknown routes as problems with the request id', async () => {
+    const response = await request(app).get('/api/v1/nope').set('Accept', PROBLEM_JSON).expect(404);
+
+    expect(response.body).toMatchObject({
+      type: '/problems/route-not-found',
+      status: 404,
+      instance: '/api/v1/nope',
+      requestId: expect.any(String),
+    });
+  });
+});
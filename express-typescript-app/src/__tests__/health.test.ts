@@ -1,5 +1,6 @@
 import request from 'supertest';
 import app from '../app';
+import { HealthProbe, HealthService, healthService } from '@/services/healthService';
 
 describe('Health Check', () => {
   it('should return healthy status', async () => {
@@ -31,4 +32,71 @@ describe('Health Check', () => {
       version: '1.0.0',
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Liveness and readiness', () => {
+  it('should report liveness without checking dependencies', async () => {
+    const response = await request(app).get('/api/v1/health/live').expect(200);
+
+    expect(response.body.data.status).toBe('healthy');
+    expect(response.body.data.dependencies).toBeUndefined();
+  });
+
+  it('should report every dependency on readiness', async () => {
+    const response = await request(app).get('/api/v1/health/ready').expect(200);
+
+    expect(Object.keys(response.body.data.dependencies).sort()).toEqual(['circuitBreaker', 'database', 'eventLoop', 'memory']);
+    expect(response.body.data.dependencies.database).toMatchObject({ status: 'up', critical: true });
+    expect(response.body.data.dependencies.memory.details).toMatchObject({ heapUsedPercent: expect.any(Number) });
+  });
+
+  it('should return 503 while a critical probe is down', async () => {
+    healthService.register({
+      name: 'broken',
+      critical: true,
+      timeoutMs: 100,
+      check: async () => {
+        throw new Error('connection refused');
+      },
+    });
+
+    try {
+      const response = await request(app).get('/api/v1/health/ready').expect(503);
+
+      expect(response.body).toMatchObject({ success: false, data: { status: 'unhealthy' } });
+      expect(response.body.data.dependencies.broken).toMatchObject({ status: 'down', error: 'connection refused' });
+    } finally {
+      healthService.unregister('broken');
+    }
+  });
+});
+
+describe('HealthService', () => {
+  const probe = (name: string, critical: boolean, check: HealthProbe['check'], timeoutMs = 50): HealthProbe =>
+    ({ name, critical, timeoutMs, check });
+
+  it('should be degraded when only non-critical probes are down', async () => {
+    const health = new HealthService()
+      .register(probe('db', true, async () => undefined))
+      .register(probe('cache', false, async () => ({ status: 'down', details: { hits: 0 } })));
+
+    const report = await health.readiness();
+
+    expect(report.status).toBe('degraded');
+    expect(report.dependencies).toMatchObject({
+      db: { status: 'up', critical: true },
+      cache: { status: 'down', critical: false, details: { hits: 0 } },
+    });
+  });
+
+  it('should mark a probe that exceeds its timeout as down', async () => {
+    const health = new HealthService().register(
+      probe('slow', true, () => new Promise(resolve => setTimeout(resolve, 500)), 20)
+    );
+
+    const report = await health.readiness();
+
+    expect(report.status).toBe('unhealthy');
+    expect(report.dependencies?.['slow']).toMatchObject({ status: 'down', error: 'Timed out after 20ms' });
+  });
+});
@@ -0,0 +1,153 @@
+import express from 'express';
+import request from 'supertest';
+import app from '../app';
+import { errorHandler } from '@/middleware/errorHandler';
+import { idempotency } from '@/middleware/idempotency';
+import { MemoryIdempotencyStore } from '@/stores/memoryIdempotencyStore';
+
+let token: string;
+
+beforeAll(async () => {
+  const response = await request(app)
+    .post('/api/v1/auth/login')
+    .send({ email: 'jane@example.com', password: 'password123' })
+    .expect(200);
+  token = response.body.data.accessToken;
+});
+
+describe('Idempotency-Key on POST /users', () => {
+  const createUser = (key: string, body: object) =>
+    request(app)
+      .post('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .set('Idempotency-Key', key)
+      .send(body);
+
+  it('should replay the first response instead of creating the user again', async () => {
+    const body = { email: 'retry@example.com', firstName: 'Retry', lastName: 'User' };
+
+    const first = await createUser('create-retry-1', body).expect(201);
+    const replay = await createUser('create-retry-1', { lastName: 'User', firstName: 'Retry', email: 'retry@example.com' })
+      .expect(201);
+
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+    expect(replay.headers['idempotent-replayed']).toBe('true');
+    expect(replay.body).toEqual(first.body);
+
+    const list = await request(app)
+      .get('/api/v1/users')
+      .query({ email: 'retry@example.com' })
+      .auth(token, { type: 'bearer' })
+      .expect(200);
+    expect(list.body.data).toHaveLength(1);
+  });
+
+  it('should reject a key reused with a different payload', async () => {
+    await createUser('create-reuse-1', { email: 'reuse@example.com', firstName: 'Re', lastName: 'Use' }).expect(201);
+
+    const response = await createUser('create-reuse-1', { email: 'other@example.com', firstName: 'Re', lastName: 'Use' })
+      .expect(422);
+
+    expect(response.body.code).toBe('IDEMPOTENCY_KEY_REUSED');
+  });
+
+  it('should replay client errors too, as problem details when they were', async () => {
+    const body = { email: 'not-an-email', firstName: 'John', lastName: 'Again' };
+
+    await createUser('create-invalid-1', body).set('Accept', 'application/problem+json').expect(400);
+    const replay = await createUser('create-invalid-1', body).expect(400);
+
+    expect(replay.headers['idempotent-replayed']).toBe('true');
+    expect(replay.headers['content-type']).toMatch(/^application\/problem\+json/);
+    expect(replay.body.code).toBe('VALIDATION_FAILED');
+  });
+
+  it('should not store conflicts, so a retry runs again', async () => {
+    const body = { email: 'john@example.com', firstName: 'John', lastName: 'Again' };
+
+    await createUser('create-conflict-1', body).expect(409);
+    const retry = await createUser('create-conflict-1', body).expect(409);
+
+    expect(retry.headers['idempotent-replayed']).toBeUndefined();
+    expect(retry.body.code).toBe('EMAIL_TAKEN');
+  });
+
+  it('should reject malformed keys', async () => {
+    const response = await createUser('has spaces', { email: 'x@example.com', firstName: 'X', lastName: 'Y' }).expect(400);
+
+    expect(response.body.code).toBe('INVALID_IDEMPOTENCY_KEY');
+  });
+});
+
+describe('idempotency middleware', () => {
+  const createApp = (handler: express.RequestHandler, required = false) => {
+    const testApp = express();
+    testApp.use(express.json());
+    testApp.post('/jobs', idempotency({ required }), handler);
+    testApp.use(errorHandler);
+    return testApp;
+  };
+
+  it('should reject a duplicate while the first request is in flight', async () => {
+    let finish: () => void = () => undefined;
+    const testApp = createApp((_req, res) => {
+      finish = () => res.status(202).json({ queued: true });
+    });
+
+    const first = request(testApp).post('/jobs').set('Idempotency-Key', 'job-1').send({ n: 1 }).then(r => r);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const duplicate = await request(testApp).post('/jobs').set('Idempotency-Key', 'job-1').send({ n: 1 }).expect(409);
+    expect(duplicate.body.code).toBe('IDEMPOTENCY_KEY_IN_USE');
+
+    finish();
+    expect((await first).status).toBe(202);
+    await request(testApp).post('/jobs').set('Idempotency-Key', 'job-1').send({ n: 1 }).expect(202);
+  });
+
+  it('should not store server errors, so the request can be retried', async () => {
+    let calls = 0;
+    const testApp = createApp((_req, res) => {
+      calls++;
+      res.status(calls === 1 ? 503 : 201).json({ calls });
+    });
+
+    await request(testApp).post('/jobs').set('Idempotency-Key', 'job-2').send({}).expect(503);
+    await request(testApp).post('/jobs').set('Idempotency-Key', 'job-2').send({}).expect(201);
+    expect(calls).toBe(2);
+  });
+
+  it('should not store rate limited responses', async () => {
+    let calls = 0;
+    const testApp = createApp((_req, res) => {
+      calls++;
+      res.status(calls === 1 ? 429 : 201).json({ calls });
+    });
+
+    await request(testApp).post('/jobs').set('Idempotency-Key', 'job-3').send({}).expect(429);
+    await request(testApp).post('/jobs').set('Idempotency-Key', 'job-3').send({}).expect(201);
+  });
+
+  it('should require the header when configured to', async () => {
+    const testApp = createApp((_req, res) => {
+      res.status(201).json({});
+    }, true);
+
+    const response = await request(testApp).post('/jobs').send({}).expect(400);
+    expect(response.body.code).toBe('IDEMPOTENCY_KEY_REQUIRED');
+  });
+});
+
+describe('MemoryIdempotencyStore', () => {
+  it('should forget completed responses after their TTL', async () => {
+    let now = 0;
+    const store = new MemoryIdempotencyStore(() => now);
+
+    expect(await store.begin('k', 'fp', 1000)).toBeNull();
+    await store.complete('k', { statusCode: 201, body: { id: '1' } }, 1000);
+    expect(await store.begin('k', 'fp', 1000)).toMatchObject({ state: 'completed', response: { statusCode: 201 } });
+
+    now += 1000;
+    expect(await store.begin('k', 'fp', 1000)).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import express from 'express';
+import request from 'supertest';
+import { Collection } from 'mongodb';
+import app from '../app';
+import { errorHandler } from '@/middleware/errorHandler';
+import { requireMetricsToken } from '@/middleware/metrics';
+import { MetricsRegistry, metrics } from '@/utils/metrics';
+import { CircuitBreaker } from '@/mongo/circuitBreaker';
+import { MongoRetryHandler } from '@/mongo/retryHandler';
+
+describe('MetricsRegistry', () => {
+  it('should render counters and gauges in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('jobs_total', 'Jobs processed', ['queue']);
+    const depth = registry.gauge('queue_depth', 'Items waiting');
+
+    requests.inc({ queue: 'emails' });
+    requests.inc({ queue: 'emails' }, 2);
+    requests.inc({ queue: 'say "hi"\n' });
+    depth.set({}, 7);
+    depth.dec();
+
+    expect(registry.render()).toBe([
+      '# HELP jobs_total Jobs processed',
+      '# TYPE jobs_total counter',
+      'jobs_total{queue="emails"} 3',
+      'jobs_total{queue="say \\"hi\\"\\n"} 1',
+      '# HELP queue_depth Items waiting',
+      '# TYPE queue_depth gauge',
+      'queue_depth 6',
+      '',
+    ].join('\n'));
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram('latency_seconds', 'Latency', ['route'], [0.1, 1]);
+
+    latency.observe({ route: '/a' }, 0.05);
+    latency.observe({ route: '/a' }, 0.5);
+    latency.observe({ route: '/a' }, 3);
+
+    expect(registry.render()).toContain([
+      'latency_seconds_bucket{route="/a",le="0.1"} 1',
+      'latency_seconds_bucket{route="/a",le="1"} 2',
+      'latency_seconds_bucket{route="/a",le="+Inf"} 3',
+      'latency_seconds_sum{route="/a"} 3.55',
+      'latency_seconds_count{route="/a"} 3',
+    ].join('\n'));
+  });
+
+  it('should return the existing instrument when a name is registered twice', () => {
+    const registry = new MetricsRegistry();
+
+    expect(registry.counter('hits_total', 'Hits')).toBe(registry.counter('hits_total', 'Hits'));
+    expect(() => registry.gauge('hits_total', 'Hits')).toThrow('already registered as a counter');
+  });
+
+  it('should reject labels the metric does not declare', () => {
+    const counter = new MetricsRegistry().counter('hits_total', 'Hits', ['route']);
+
+    expect(() => counter.inc({ user: '1' })).toThrow('has no label "user"');
+  });
+});
+
+describe('GET /metrics', () => {
+  beforeEach(() => metrics.reset());
+
+  it('should expose request latency per route template and status', async () => {
+    await request(app).get('/api/v1/health/live').expect(200);
+    await request(app).get('/api/v1/does-not-exist').expect(404);
+
+    const response = await request(app).get('/metrics').expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/plain;.*version=0\.0\.4/);
+    expect(response.text).toContain(
+      'http_request_duration_seconds_count{method="GET",route="/api/v1/health/live",status_code="200"} 1'
+    );
+    expect(response.text).toContain(
+      'http_request_duration_seconds_count{method="GET",route="unmatched",status_code="404"} 1'
+    );
+  });
+
+  it('should label parameterised routes with their template', async () => {
+    await request(app).get('/api/v1/users/42').expect(401);
+
+    const response = await request(app).get('/metrics').expect(200);
+
+    expect(response.text).not.toContain('/api/v1/users/42');
+  });
+});
+
+describe('requireMetricsToken', () => {
+  const testApp = express();
+  testApp.get('/metrics', requireMetricsToken('scrape-secret'), (_req, res) => {
+    res.type('text/plain').send('ok');
+  });
+  testApp.use(errorHandler);
+
+  it('should only let scrapers with the token through', async () => {
+    const missing = await request(testApp).get('/metrics').expect(401);
+    expect(missing.headers['www-authenticate']).toBe('Bearer realm="metrics"');
+    await request(testApp).get('/metrics').auth('wrong', { type: 'bearer' }).expect(401);
+    await request(testApp).get('/metrics').auth('scrape-secret', { type: 'bearer' }).expect(200, 'ok');
+  });
+});
+
+describe('MongoDB metrics', () => {
+  beforeEach(() => metrics.reset());
+
+  it('should count circuit breaker transitions', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ name: 'test', threshold: 2, timeout: 1000 }, () => now);
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now += 1000;
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    const output = metrics.render();
+    expect(output).toContain('circuit_breaker_transitions_total{breaker="test",from="CLOSED",to="OPEN"} 1');
+    expect(output).toContain('circuit_breaker_transitions_total{breaker="test",from="OPEN",to="HALF_OPEN"} 1');
+    expect(output).toContain('circuit_breaker_transitions_total{breaker="test",from="HALF_OPEN",to="CLOSED"} 1');
+    expect(output).toContain('circuit_breaker_state{breaker="test"} 0');
+  });
+
+  it('should record retry attempts, delays and inserted documents', async () => {
+    const transient = Object.assign(new Error('connection reset'), { name: 'MongoNetworkError' });
+    const insertMany = jest.fn()
+      .mockRejectedValueOnce(transient)
+      .mockResolvedValueOnce({ acknowledged: true, insertedCount: 2, insertedIds: { 0: 'a', 1: 'b' } });
+    const collection = { collectionName: 'events', insertMany } as unknown as Collection;
+    const handler = new MongoRetryHandler({ maxRetries: 2, baseDelay: 1, maxDelay: 1, jitter: false });
+
+    // A short wtimeout keeps the handler's race timer from outliving the test
+    await handler.insertManyWithRetry(collection, [{ n: 1 }, { n: 2 }], { writeConcern: { wtimeout: 50 } });
+
+    const output = metrics.render();
+    expect(output).toContain('mongo_retry_attempts_total{operation="insertMany",outcome="retry"} 1');
+    expect(output).toContain('mongo_retry_attempts_total{operation="insertMany",outcome="success"} 1');
+    expect(output).toContain('mongo_retry_delay_seconds_count{operation="insertMany"} 1');
+    expect(output).toContain('mongo_inserted_documents_total{collection="events"} 2');
+  });
+});
@@ -0,0 +1,464 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Collection, ObjectId } from 'mongodb';
+import { AdaptiveThrottle } from '@/mongo/adaptiveThrottle';
+import { CircuitBreaker } from '@/mongo/circuitBreaker';
+import { CircuitBreakerRegistry } from '@/mongo/circuitBreakerRegistry';
+import { CircuitBreakerError, MongoRetryError } from '@/mongo/errors';
+import { FileDeadLetterSink } from '@/mongo/fileDeadLetterSink';
+import { MongoRetryHandler } from '@/mongo/retryHandler';
+import { CircuitBreakerConfig, DeadLetterEntry, ProgressInfo, StateChangeEvent } from '@/mongo/types';
+
+const networkError = (): Error => Object.assign(new Error('connection reset'), { name: 'MongoNetworkError' });
+
+const createHandler = () => new MongoRetryHandler({ maxRetries: 2, baseDelay: 1, maxDelay: 1, jitter: false });
+
+describe('MongoRetryHandler.execute', () => {
+  it('should retry an idempotent operation and report its attempts', async () => {
+    const fn = jest.fn().mockRejectedValueOnce(networkError()).mockResolvedValueOnce('done');
+
+    const { result, metrics } = await createHandler().execute('findOne', fn, { idempotent: true });
+
+    expect(result).toBe('done');
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(metrics.totalAttempts).toBe(2);
+    expect(metrics.attemptHistory).toEqual([expect.objectContaining({ attempt: 1, error: 'connection reset' })]);
+  });
+
+  it('should not retry a non-idempotent operation that may have reached the server', async () => {
+    const fn = jest.fn().mockRejectedValue(networkError());
+
+    const error = await createHandler().execute('deleteOne', fn).catch(err => err);
+
+    expect(error).toBeInstanceOf(MongoRetryError);
+    expect(error.message).toBe('MongoDB deleteOne failed after 1 attempts: connection reset');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry a non-idempotent operation that never reached the server', async () => {
+    const unreachable = Object.assign(new Error('no primary'), { name: 'MongoServerSelectionError' });
+    const fn = jest.fn().mockRejectedValueOnce(unreachable).mockResolvedValueOnce('done');
+
+    await expect(createHandler().execute('deleteOne', fn)).resolves.toMatchObject({ result: 'done' });
+  });
+
+  it('should give up an attempt after its timeout', async () => {
+    const fn = jest.fn(() => new Promise(() => undefined));
+
+    await expect(createHandler().execute('find', fn, { timeoutMs: 10 }))
+      .rejects.toThrow('MongoDB find failed after 1 attempts: Operation timed out after 10ms');
+  });
+});
+
+describe('RetryingCollection', () => {
+  const createCollection = (method: string, value: unknown) => {
+    const fn = jest.fn().mockRejectedValueOnce(networkError()).mockResolvedValue(value);
+    return { fn, collection: createHandler().wrap({ [method]: fn } as unknown as Collection) };
+  };
+
+  it('should retry updates only when the caller opts in, even ones that only set fields', async () => {
+    const set = createCollection('updateOne', { modifiedCount: 1 });
+    await expect(set.collection.updateOne({ name: 'a', version: 1 }, { $set: { version: 2 } }))
+      .rejects.toBeInstanceOf(MongoRetryError);
+
+    const counter = createCollection('updateOne', { modifiedCount: 1 });
+    await expect(counter.collection.updateOne({ name: 'a' }, { $inc: { n: 1 } })).rejects.toBeInstanceOf(MongoRetryError);
+
+    const optedIn = createCollection('updateOne', { modifiedCount: 1 });
+    await optedIn.collection.updateOne({ name: 'a' }, { $inc: { n: 1 } }, {}, { idempotent: true });
+    expect(optedIn.fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry replaceOne only when the caller opts in', async () => {
+    const replace = createCollection('replaceOne', { modifiedCount: 1 });
+    await expect(replace.collection.replaceOne({ name: 'a', version: 1 }, { name: 'a', version: 2 }))
+      .rejects.toBeInstanceOf(MongoRetryError);
+
+    const optedIn = createCollection('replaceOne', { modifiedCount: 1 });
+    await optedIn.collection.replaceOne({ name: 'a' }, { name: 'x' }, {}, { idempotent: true });
+    expect(optedIn.fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should treat aggregations that write as writes', async () => {
+    const toArray = jest.fn().mockRejectedValueOnce(networkError()).mockResolvedValue([]);
+    const collection = createHandler().wrap({ aggregate: () => ({ toArray }) } as unknown as Collection);
+
+    await expect(collection.aggregate([{ $match: {} }, { $out: 'copy' }])).rejects.toBeInstanceOf(MongoRetryError);
+    await expect(collection.aggregate([{ $match: {} }])).resolves.toEqual([]);
+  });
+});
+
+describe('MongoRetryHandler partial inserts', () => {
+  const bulkError = (writeErrors: Array<{ index: number; code: number; errmsg: string }>) =>
+    Object.assign(new Error('bulk write failed'), { name: 'MongoBulkWriteError', code: writeErrors[0]?.code, writeErrors });
+
+  const collectionOf = (insertMany: jest.Mock) => ({ collectionName: 'events', insertMany } as unknown as Collection);
+
+  const docs = (...ids: string[]) => ids.map(_id => ({ _id }));
+
+  it('should resend only the documents that failed for retryable reasons', async () => {
+    const insertMany = jest.fn()
+      .mockRejectedValueOnce(bulkError([
+        { index: 1, code: 11000, errmsg: 'E11000 duplicate key error index: email_1' },
+        { index: 2, code: 11600, errmsg: 'interrupted at shutdown' },
+      ]))
+      .mockResolvedValueOnce({ acknowledged: true, insertedCount: 1, insertedIds: { 0: 'c' } });
+
+    const { result, rejected } = await createHandler().insertManyWithRetry(collectionOf(insertMany), docs('a', 'b', 'c'));
+
+    expect(insertMany.mock.calls[1][0]).toEqual(docs('c'));
+    expect(result.insertedCount).toBe(2);
+    expect(result.insertedIds).toEqual({ 0: 'a', 2: 'c' });
+    expect(rejected).toEqual([
+      { index: 1, document: { _id: 'b' }, reason: 'duplicateKey', code: 11000, message: 'E11000 duplicate key error index: email_1' },
+    ]);
+  });
+
+  it('should count a duplicate _id after an attempt with an unknown outcome as inserted', async () => {
+    const insertMany = jest.fn()
+      .mockRejectedValueOnce(networkError())
+      .mockRejectedValueOnce(bulkError([{ index: 0, code: 11000, errmsg: 'E11000 duplicate key error index: _id_' }]));
+
+    const { result, rejected } = await createHandler().insertManyWithRetry(collectionOf(insertMany), docs('a'));
+
+    expect(result.insertedCount).toBe(1);
+    expect(rejected).toEqual([]);
+  });
+
+  it('should report rejected and never-inserted documents separately in batches', async () => {
+    const insertMany = jest.fn((batch: Array<{ _id: string }>) => {
+      const index = batch.findIndex(({ _id }) => _id === 'b');
+      const invalid = batch.findIndex(({ _id }) => _id === 'd');
+      if (index >= 0) {
+        return Promise.reject(bulkError([{ index, code: 11600, errmsg: 'interrupted at shutdown' }]));
+      }
+      if (invalid >= 0) {
+        return Promise.reject(bulkError([{ index: invalid, code: 121, errmsg: 'Document failed validation' }]));
+      }
+      return Promise.resolve({ acknowledged: true, insertedCount: batch.length, insertedIds: {} });
+    });
+
+    const result = await createHandler().insertManyBatched(collectionOf(insertMany), docs('a', 'b', 'c', 'd'), { batchSize: 2 });
+
+    expect(result.totalInserted).toBe(2);
+    expect(result.totalRejected).toBe(1);
+    expect(result.details.rejected).toEqual([expect.objectContaining({ index: 3, reason: 'validation' })]);
+    expect(result.details.failed).toEqual([{ error: expect.any(MongoRetryError), chunk: docs('b') }]);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  const createBreaker = (config: Partial<CircuitBreakerConfig> = {}) =>
+    new CircuitBreaker({ name: 'test', timeout: 1000, window: { type: 'count', size: 10 }, minimumCalls: 4, ...config }, () => now);
+
+  const record = (breaker: CircuitBreaker, outcomes: string) =>
+    [...outcomes].forEach(outcome => (outcome === 'x' ? breaker.recordFailure() : breaker.recordSuccess()));
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it('should open once the failure rate reaches its threshold over at least minimumCalls', () => {
+    const breaker = createBreaker({ failureRateThreshold: 50 });
+
+    record(breaker, 'xx');
+    expect(breaker.isClosed()).toBe(true);
+
+    record(breaker, 'ox');
+    expect(breaker.getState()).toMatchObject({ state: 'OPEN', calls: 4, failures: 3, failureRate: 75 });
+    expect(() => breaker.shouldPreventExecution()).toThrow(CircuitBreakerError);
+  });
+
+  it('should open when too many calls are slow', () => {
+    const breaker = createBreaker({ slowCallDurationMs: 100, slowCallRateThreshold: 50 });
+
+    [50, 200, 20, 300].forEach(durationMs => breaker.recordSuccess(durationMs));
+
+    expect(breaker.getState()).toMatchObject({ state: 'OPEN', failures: 0, slowCallRate: 50 });
+  });
+
+  it('should forget calls that left a time window', () => {
+    const breaker = createBreaker({ window: { type: 'time', sizeMs: 5000 } });
+
+    record(breaker, 'xxx');
+    now += 6000;
+    record(breaker, 'o');
+
+    expect(breaker.getState()).toMatchObject({ state: 'CLOSED', calls: 1, failures: 0 });
+  });
+
+  it('should let only halfOpenMaxCalls trial calls through and close when they succeed', () => {
+    const breaker = createBreaker({ halfOpenMaxCalls: 2 });
+    record(breaker, 'xxxx');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    now += 1000;
+    expect([breaker.tryAcquire(), breaker.tryAcquire(), breaker.tryAcquire()]).toEqual([true, true, false]);
+    expect(breaker.isHalfOpen()).toBe(true);
+
+    record(breaker, 'oo');
+    expect(breaker.isClosed()).toBe(true);
+  });
+
+  it('should reopen when the trial calls fail', () => {
+    const breaker = createBreaker({ halfOpenMaxCalls: 2 });
+    record(breaker, 'xxxx');
+    now += 1000;
+
+    breaker.tryAcquire();
+    breaker.tryAcquire();
+    record(breaker, 'ox');
+
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.getTimeUntilRetry()).toBe(1000);
+  });
+
+  it('should tell listeners about state changes', () => {
+    const breaker = createBreaker();
+    const events: StateChangeEvent[] = [];
+    const unsubscribe = breaker.onStateChange(event => events.push(event));
+
+    record(breaker, 'xxxx');
+    unsubscribe();
+    breaker.reset();
+
+    expect(events).toEqual([
+      expect.objectContaining({ breaker: 'test', from: 'CLOSED', to: 'OPEN', failureRate: 100, timestamp: new Date(0).toISOString() }),
+    ]);
+  });
+
+  it('should map a legacy threshold to consecutive failures', () => {
+    const breaker = new CircuitBreaker({ timeout: 1000, threshold: 3 }, () => now);
+
+    record(breaker, 'xxoxx');
+    expect(breaker.isClosed()).toBe(true);
+
+    record(breaker, 'x');
+    expect(breaker.isOpen()).toBe(true);
+  });
+});
+
+describe('CircuitBreakerRegistry', () => {
+  it('should trip breakers independently and relay their events', () => {
+    const registry = new CircuitBreakerRegistry({ timeout: 1000, threshold: 1 });
+    const events: StateChangeEvent[] = [];
+    registry.onStateChange(event => events.push(event));
+
+    registry.get('users').recordFailure();
+
+    expect(registry.get('users').isOpen()).toBe(true);
+    expect(registry.get('orders').isClosed()).toBe(true);
+    expect(events.map(({ breaker, to }) => `${breaker}:${to}`)).toEqual(['users:OPEN']);
+  });
+
+  it('should give each wrapped collection its own breaker', async () => {
+    const handler = new MongoRetryHandler({ maxRetries: 0, circuit: { name: 'mongo', timeout: 1000, threshold: 1 } });
+    const users = handler.wrap({ collectionName: 'users', findOne: jest.fn().mockRejectedValue(networkError()) } as unknown as Collection);
+    const orders = handler.wrap({ collectionName: 'orders', findOne: jest.fn().mockResolvedValue(null) } as unknown as Collection);
+
+    await expect(users.findOne({})).rejects.toBeInstanceOf(MongoRetryError);
+    await expect(users.findOne({})).rejects.toBeInstanceOf(CircuitBreakerError);
+    await expect(orders.findOne({})).resolves.toBeNull();
+
+    expect(handler.getCircuitBreakerState('users')?.state).toBe('OPEN');
+    expect(Object.keys(handler.getCircuitBreakerStates() ?? {})).toEqual(['mongo.users', 'mongo.orders']);
+  });
+
+  it('should judge a retried call by its last attempt, not the time spent retrying', async () => {
+    const handler = new MongoRetryHandler({
+      maxRetries: 1,
+      baseDelay: 100,
+      maxDelay: 100,
+      jitter: false,
+      circuit: {
+        name: 'mongo',
+        timeout: 1000,
+        window: { type: 'count', size: 10 },
+        minimumCalls: 1,
+        slowCallDurationMs: 50,
+        slowCallRateThreshold: 100,
+      },
+    });
+    const fn = jest.fn().mockRejectedValueOnce(networkError()).mockResolvedValueOnce('done');
+
+    await handler.execute('findOne', fn, { idempotent: true });
+
+    expect(handler.getCircuitBreakerState()).toMatchObject({ state: 'CLOSED', slowCallRate: 0 });
+  });
+});
+
+describe('AdaptiveThrottle', () => {
+  it('should cut concurrency and batch size once per generation and grow them back', () => {
+    const throttle = new AdaptiveThrottle(8, 100, { minBatchSize: 1, batchSizeStep: 10 });
+
+    const generation = throttle.getGeneration();
+    throttle.onThrottled(generation);
+    throttle.onThrottled(generation);
+    expect(throttle.getSnapshot()).toMatchObject({ concurrency: 4, batchSize: 50, throttled: 2 });
+
+    throttle.onSuccess();
+    throttle.onSuccess();
+    throttle.onSuccess();
+    throttle.onSuccess();
+    expect(throttle.getSnapshot()).toMatchObject({ concurrency: 4, batchSize: 90 });
+    throttle.onSuccess();
+    expect(throttle.getSnapshot()).toMatchObject({ concurrency: 5, batchSize: 100 });
+  });
+
+  it('should pause for the server\'s retry-after hint', () => {
+    let now = 0;
+    const throttle = new AdaptiveThrottle(2, 10, {}, () => now);
+
+    throttle.onThrottled(throttle.getGeneration(), 500);
+    now += 200;
+
+    expect(throttle.getPauseMs()).toBe(300);
+  });
+
+  it('should allow minRetries plus retryRatio retries per batch', () => {
+    const throttle = new AdaptiveThrottle(2, 10, { minRetries: 1, retryRatio: 0.5 });
+
+    throttle.recordBatch();
+    throttle.recordBatch();
+
+    expect([throttle.tryRetry(), throttle.tryRetry(), throttle.tryRetry()]).toEqual([true, true, false]);
+  });
+});
+
+describe('MongoRetryHandler throttled inserts', () => {
+  const tooManyRequests = () => Object.assign(
+    new Error('Request rate is large. More Request Units may be needed. RetryAfterMs=30, Details=...'),
+    { name: 'MongoServerError', code: 16500 }
+  );
+
+  const collectionOf = (insertMany: jest.Mock) => ({ collectionName: 'events', insertMany } as unknown as Collection);
+
+  const docs = (count: number) => Array.from({ length: count }, (_, i) => ({ _id: `d${i}` }));
+
+  it('should wait as asked, shrink batches and report the effective rate', async () => {
+    const insertMany = jest.fn((batch: unknown[]) =>
+      Promise.resolve({ acknowledged: true, insertedCount: batch.length, insertedIds: {} }));
+    insertMany.mockRejectedValueOnce(tooManyRequests());
+    const progress: ProgressInfo[] = [];
+
+    const start = Date.now();
+    const result = await createHandler().insertManyBatched(collectionOf(insertMany), docs(8), {
+      batchSize: 4,
+      concurrency: 1,
+      throttle: { minBatchSize: 1 },
+      progressCallback: info => { progress.push(info); },
+    });
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(25);
+    expect(result.totalInserted).toBe(8);
+    expect(insertMany.mock.calls.map(([batch]) => batch.length)).toEqual([4, 4, 3, 1]);
+    expect(result.totalBatches).toBe(3);
+    expect(progress[0]).toMatchObject({ processed: 4, batchSize: 3, concurrency: 1, throttled: 1 });
+    expect(progress[0]?.documentsPerSecond).toBeGreaterThan(0);
+  });
+
+  it('should stop retrying once the retry budget is spent', async () => {
+    const insertMany = jest.fn(() => Promise.reject(tooManyRequests()));
+    const handler = new MongoRetryHandler({ maxRetries: 5, baseDelay: 1, maxDelay: 1, jitter: false });
+
+    const result = await handler.insertManyBatched(collectionOf(insertMany), docs(2), {
+      throttle: { minRetries: 1, retryRatio: 0 },
+    });
+
+    expect(insertMany).toHaveBeenCalledTimes(2);
+    expect(result.failedBatches).toBe(1);
+  });
+});
+
+describe('Dead letters', () => {
+  const createSink = async () => new FileDeadLetterSink(path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'dead-letters-')), 'dlq.ndjson'));
+
+  const entry = (id: string, overrides: Partial<DeadLetterEntry> = {}): DeadLetterEntry => ({
+    id,
+    collection: 'events',
+    operation: 'insertMany',
+    documents: [{ _id: id }],
+    errorType: 'transient',
+    error: { name: 'MongoNetworkError', message: 'connection reset' },
+    attemptHistory: [],
+    createdAt: '2024-06-01T12:00:00.000Z',
+    ...overrides,
+  });
+
+  it('should store entries as NDJSON and find them by error type, time and resolution', async () => {
+    const sink = await createSink();
+    const _id = new ObjectId();
+    await sink.write(entry('a', { documents: [{ _id, at: new Date('2024-01-01T00:00:00Z') }] }));
+    await sink.write(entry('b', { errorType: 'throttled', createdAt: '2024-06-02T12:00:00.000Z' }));
+    await sink.write(entry('c', { errorType: 'nonRetryable' }));
+
+    const [stored] = await sink.find({ errorTypes: ['transient'] });
+    expect(stored?.documents).toEqual([{ _id, at: new Date('2024-01-01T00:00:00Z') }]);
+
+    const ids = async (query = {}) => (await sink.find(query)).map(({ id }) => id);
+    expect(await ids({ from: new Date('2024-06-02T00:00:00Z') })).toEqual(['b']);
+    expect(await ids({ to: new Date('2024-06-02T00:00:00Z') })).toEqual(['a', 'c']);
+
+    await sink.markResolved(['a'], new Date('2024-06-03T00:00:00Z'));
+    expect(await ids()).toEqual(['b', 'c']);
+    expect((await sink.find({ includeResolved: true }))[0]).toMatchObject({ id: 'a', resolvedAt: '2024-06-03T00:00:00.000Z' });
+  });
+
+  it('should keep the file readable by its owner only, even one created before', async () => {
+    const filePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'dead-letters-')), 'dlq.ndjson');
+    await fs.writeFile(filePath, '', { mode: 0o644 });
+    await fs.chmod(filePath, 0o644);
+    const sink = new FileDeadLetterSink(filePath);
+
+    await sink.write(entry('a'));
+    expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600);
+
+    await sink.markResolved(['a'], new Date('2024-06-03T00:00:00Z'));
+    expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600);
+  });
+
+  it('should skip unreadable lines but keep them when resolving entries', async () => {
+    const filePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'dead-letters-')), 'dlq.ndjson');
+    const sink = new FileDeadLetterSink(filePath);
+    await sink.write(entry('a'));
+    await fs.appendFile(filePath, '{"id":"b","coll\n');
+    await sink.write(entry('c'));
+
+    expect((await sink.find()).map(({ id }) => id)).toEqual(['a', 'c']);
+
+    await sink.markResolved(['a'], new Date('2024-06-03T00:00:00Z'));
+    expect((await sink.find()).map(({ id }) => id)).toEqual(['c']);
+    expect((await fs.readFile(filePath, 'utf8')).split('\n')[1]).toBe('{"id":"b","coll');
+  });
+
+  it('should dead-letter batches that run out of retries and replay them', async () => {
+    const sink = await createSink();
+    const handler = new MongoRetryHandler({ maxRetries: 1, baseDelay: 1, maxDelay: 1, jitter: false, deadLetter: sink });
+    const insertMany = jest.fn((batch: unknown[]) =>
+      Promise.resolve({ acknowledged: true, insertedCount: batch.length, insertedIds: {} }));
+    insertMany.mockRejectedValueOnce(networkError()).mockRejectedValueOnce(networkError());
+    const collection = { collectionName: 'events', insertMany } as unknown as Collection;
+
+    const result = await handler.insertManyBatched(collection, [{ _id: 'a' }, { _id: 'b' }], { batchSize: 1, concurrency: 1 });
+
+    const [failed] = result.details.failed;
+    const [stored] = await sink.find();
+    expect(stored).toMatchObject({
+      id: failed?.deadLetterId,
+      collection: 'events',
+      documents: [{ _id: 'a' }],
+      errorType: 'transient',
+      error: { name: 'MongoNetworkError', message: 'connection reset' },
+      attemptHistory: [expect.objectContaining({ attempt: 1 }), expect.objectContaining({ attempt: 2 })],
+    });
+
+    await expect(handler.replayDeadLetters(collection, { errorTypes: ['throttled'] }))
+      .resolves.toEqual({ resolved: [], failed: [], insertedCount: 0 });
+    await expect(handler.replayDeadLetters(collection, { errorTypes: ['transient'] }))
+      .resolves.toEqual({ resolved: [stored?.id], failed: [], insertedCount: 1 });
+    expect(insertMany).toHaveBeenLastCalledWith([{ _id: 'a' }], expect.anything());
+    await expect(sink.find()).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import express, { Router } from 'express';
+import request from 'supertest';
+import app from '../app';
+import { getApiDocument } from '@/routes';
+import { errorHandler, notFoundHandler } from '@/middleware/errorHandler';
+import { responseValidation } from '@/middleware/responseValidation';
+import { validate } from '@/middleware/validation';
+import { successResponse } from '@/openapi/components';
+import { buildOpenApiDocument } from '@/openapi/document';
+import { ref } from '@/openapi/jsonSchema';
+import { apiDoc } from '@/openapi/operation';
+import { validateJson } from '@/openapi/validator';
+import { schema } from '@/utils/schema';
+
+const info = { title: 'Test', version: '0.0.0', serverUrl: '/' };
+
+describe('OpenAPI document', () => {
+  const document = getApiDocument();
+
+  it('should describe every route with path templates, tags and security', () => {
+    expect(document.openapi).toBe('3.1.0');
+    expect(Object.keys(document.paths['/users/{id}'] ?? {}).sort()).toEqual(['delete', 'get', 'patch', 'put']);
+    expect(document.paths['/users/{id}/restore']?.post?.tags).toEqual(['Users']);
+    expect(document.paths['/users']?.get?.security).toEqual([{ bearerAuth: [] }]);
+    expect(document.paths['/auth/me']?.get?.security).toEqual([{ bearerAuth: [] }]);
+    expect(document.paths['/auth/login']?.post?.security).toBeUndefined();
+    expect(document.paths['/health/ready']?.get?.responses['503']).toBeDefined();
+  });
+
+  it('should derive parameters and bodies from the validation schemas', () => {
+    const listUsers = document.paths['/users']?.get;
+    expect(listUsers?.parameters).toEqual(expect.arrayContaining([
+      { name: 'role', in: 'query', required: false, schema: { type: 'string', enum: ['admin', 'user'] } },
+      { name: 'createdFrom', in: 'query', required: false, schema: { type: 'string', format: 'date-time' } },
+    ]));
+    expect(document.paths['/users/{id}']?.put?.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string', minLength: 1 } },
+    ]);
+
+    const createBody = document.paths['/users']?.post?.requestBody?.content['application/json']?.schema;
+    expect(createBody).toMatchObject({ type: 'object', required: ['email', 'firstName', 'lastName'] });
+    expect(document.paths['/users/{id}']?.patch?.requestBody?.content).toHaveProperty(['application/json-patch+json']);
+  });
+
+  it('should share the envelopes as components and document errors on every operation', () => {
+    expect(document.components.schemas).toHaveProperty('ApiResponse');
+    expect(document.components.schemas).toHaveProperty('ErrorResponse');
+    expect(document.paths['/auth/login']?.post?.responses['default']?.content?.['application/json']?.schema)
+      .toEqual(ref('ErrorResponse'));
+  });
+
+  it('should refuse routes without a description', () => {
+    const routes = Router();
+    routes.get('/undocumented', (_req, res) => res.json({}));
+
+    expect(() => buildOpenApiDocument(routes, [], info)).toThrow('GET /undocumented has no apiDoc() description');
+  });
+
+  it('should be served as JSON and as a docs page', async () => {
+    const json = await request(app).get('/api/v1/openapi.json').expect(200);
+    expect(json.body).toEqual(JSON.parse(JSON.stringify(document)));
+
+    const page = await request(app).get('/api/v1/docs').expect('Content-Type', /html/).expect(200);
+    expect(page.text).toContain('/api/v1/users/{id}');
+    expect(page.text).toContain('ErrorResponse');
+  });
+});
+
+describe('responseValidation middleware', () => {
+  const createApp = (body: unknown, mode: 'warn' | 'fail' = 'fail') => {
+    const routes = Router();
+    routes.get(
+      '/items/:id',
+      apiDoc({ operationId: 'getItem', summary: 'Get an item', responses: { 200: successResponse('The item', ref('FieldError')) } }),
+      validate({ params: schema.object({ id: schema.string() }) }),
+      (_req, res) => res.json(body)
+    );
+    const document = buildOpenApiDocument(routes, [], info);
+
+    const testApp = express();
+    testApp.use(responseValidation(() => document, { mode }), routes);
+    testApp.use(notFoundHandler);
+    testApp.use(errorHandler);
+    return testApp;
+  };
+
+  const envelope = (data: unknown) => ({ success: true, message: 'ok', data, timestamp: new Date().toISOString() });
+
+  it('should pass responses that match the document', async () => {
+    await request(createApp(envelope({ path: 'a', message: 'b' }))).get('/items/1').expect(200);
+  });
+
+  it('should replace a response that drifted from the document with a 500', async () => {
+    const response = await request(createApp(envelope({ path: 'a', extra: true }))).get('/items/1').expect(500);
+
+    expect(response.body.code).toBe('CONTRACT_VIOLATION');
+    expect(response.body.errors).toEqual([
+      { path: 'body.data.message', message: 'is required' },
+      { path: 'body.data.extra', message: 'is not allowed' },
+    ]);
+  });
+
+  it('should only log in warn mode', async () => {
+    const response = await request(createApp(envelope(null), 'warn')).get('/items/1').expect(200);
+    expect(response.body.data).toBeNull();
+  });
+
+  it('should check errors against the error response', async () => {
+    const response = await request(createApp({})).get('/missing').expect(404);
+    expect(response.body.code).toBe('ROUTE_NOT_FOUND');
+  });
+});
+
+describe('validateJson', () => {
+  const resolve = () => undefined;
+
+  it('should report every violation with its path', () => {
+    const errors = validateJson({
+      type: 'object',
+      properties: {
+        tags: { type: 'array', items: { type: 'string', minLength: 2 } },
+        count: { type: 'integer', minimum: 0 },
+        kind: { anyOf: [{ const: 'a' }, { const: 'b' }] },
+      },
+      required: ['count'],
+    }, { tags: ['ok', 'x', 3], count: -1, kind: 'c' }, resolve);
+
+    expect(errors.map(({ path }) => path)).toEqual(['tags[1]', 'tags[2]', 'count', 'kind']);
+  });
+});
@@ -0,0 +1,129 @@
+import express from 'express';
+import request from 'supertest';
+import app from '../app';
+import { CustomRequest } from '@/types';
+import { errorHandler } from '@/middleware/errorHandler';
+import { RateLimitOptions, rateLimit } from '@/middleware/rateLimit';
+import { MemoryRateLimitStore } from '@/stores/memoryRateLimitStore';
+
+describe('MemoryRateLimitStore', () => {
+  let now: number;
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    store = new MemoryRateLimitStore(() => now);
+  });
+
+  it('should allow a sliding window of requests and free slots as they age out', async () => {
+    const rule = { algorithm: 'sliding-window' as const, limit: 2, windowMs: 1000 };
+
+    expect(await store.consume('k', rule)).toMatchObject({ allowed: true, remaining: 1 });
+    now += 400;
+    expect(await store.consume('k', rule)).toMatchObject({ allowed: true, remaining: 0, resetMs: 1000 });
+    expect(await store.consume('k', rule)).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 600 });
+
+    now += 600;
+    expect(await store.consume('k', rule)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('should refill a token bucket evenly over the window', async () => {
+    const rule = { algorithm: 'token-bucket' as const, limit: 10, windowMs: 1000 };
+
+    for (let i = 0; i < 10; i++) {
+      expect((await store.consume('k', rule)).allowed).toBe(true);
+    }
+    expect(await store.consume('k', rule)).toMatchObject({ allowed: false, retryAfterMs: 100 });
+
+    now += 250;
+    expect(await store.consume('k', rule)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it('should keep separate counters per key and sweep idle ones', async () => {
+    const rule = { algorithm: 'sliding-window' as const, limit: 1, windowMs: 1000 };
+
+    await store.consume('a', rule);
+    expect((await store.consume('b', rule)).allowed).toBe(true);
+    expect(store.size).toBe(2);
+
+    now += 60_000;
+    await store.consume('c', rule);
+    expect(store.size).toBe(1);
+  });
+});
+
+describe('rateLimit middleware', () => {
+  const createApp = (options: Partial<RateLimitOptions>, user?: string) => {
+    const testApp = express();
+    testApp.use((req, _res, next) => {
+      if (user) {
+        (req as CustomRequest).user = { id: user, email: `${user}@example.com`, role: 'user' };
+      }
+      next();
+    });
+    testApp.get('/', rateLimit({ name: 'test', limit: 2, windowMs: 60000, ...options }), (_req, res) => {
+      res.json({ ok: true });
+    });
+    testApp.use(errorHandler);
+    return testApp;
+  };
+
+  it('should send RateLimit headers and reject with 429 and Retry-After once exhausted', async () => {
+    const testApp = createApp({});
+
+    const first = await request(testApp).get('/').expect(200);
+    expect(first.headers).toMatchObject({
+      'ratelimit-limit': '2',
+      'ratelimit-remaining': '1',
+      'ratelimit-policy': '2;w=60',
+    });
+
+    await request(testApp).get('/').expect(200);
+    const limited = await request(testApp).get('/').expect(429);
+
+    expect(limited.headers['ratelimit-remaining']).toBe('0');
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+    expect(limited.body).toMatchObject({ success: false, code: 'RATE_LIMITED' });
+  });
+
+  it('should key by API key so different keys get separate quotas', async () => {
+    const testApp = createApp({ limit: 1, keyBy: 'apiKey' });
+
+    await request(testApp).get('/').set('X-API-Key', 'key-one').expect(200);
+    await request(testApp).get('/').set('X-API-Key', 'key-one').expect(429);
+    await request(testApp).get('/').set('X-API-Key', 'key-two').expect(200);
+  });
+
+  it('should key by the authenticated user', async () => {
+    const store = new MemoryRateLimitStore();
+    const options = { limit: 1, keyBy: 'user' as const, store };
+
+    await request(createApp(options, 'alice')).get('/').expect(200);
+    await request(createApp(options, 'alice')).get('/').expect(429);
+    await request(createApp(options, 'bob')).get('/').expect(200);
+  });
+
+  it('should let skipped requests through without counting them', async () => {
+    const testApp = createApp({ limit: 1, skip: req => req.get('x-internal') === 'yes' });
+
+    await request(testApp).get('/').set('x-internal', 'yes').expect(200);
+    await request(testApp).get('/').expect(200);
+  });
+});
+
+describe('Login rate limit', () => {
+  it('should throttle login attempts per IP', async () => {
+    for (let i = 0; i < 10; i++) {
+      await request(app).post('/api/v1/auth/login').send({}).expect(400);
+    }
+
+    const response = await request(app)
+      .post('/api/v1/auth/login')
+      .set('Accept', 'application/problem+json')
+      .send({})
+      .expect(429);
+
+    expect(response.headers['retry-after']).toBeDefined();
+    expect(response.body).toMatchObject({ status: 429, code: 'RATE_LIMITED' });
+  });
+});
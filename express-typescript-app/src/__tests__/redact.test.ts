@@ -0,0 +1,139 @@
+import pino from 'pino';
+import request from 'supertest';
+import app from '../app';
+import { createLogger, httpSerializers } from '@/config/logger';
+import { RedactionConfig } from '@/config/redaction';
+import { Redactor } from '@/utils/redact';
+import * as requestContext from '@/utils/requestContext';
+
+const baseConfig: RedactionConfig = {
+  paths: ['headers.authorization', 'password', 'card.*'],
+  piiPaths: ['email'],
+  piiMode: 'partial',
+  piiHashKey: '',
+  censor: '[REDACTED]',
+  maxBodyLength: 200,
+};
+
+describe('Redactor', () => {
+  const redactor = new Redactor(baseConfig);
+
+  it('should mask values by path at any depth without touching the input', () => {
+    const input = {
+      headers: { Authorization: 'Bearer abc', accept: 'application/json' },
+      users: [{ password: 'p1' }, { password: 'p2', name: 'Ann' }],
+      card: { number: '4111111111111111', expiry: '12/30' },
+    };
+
+    expect(redactor.value(input)).toEqual({
+      headers: { Authorization: '[REDACTED]', accept: 'application/json' },
+      users: [{ password: '[REDACTED]' }, { password: '[REDACTED]', name: 'Ann' }],
+      card: { number: '[REDACTED]', expiry: '[REDACTED]' },
+    });
+    expect(input.headers.Authorization).toBe('Bearer abc');
+  });
+
+  it('should partially mask PII', () => {
+    expect(redactor.value({ email: 'john@example.com', contact: { email: 'x' } })).toEqual({
+      email: 'j***@example.com',
+      contact: { email: 'x***' },
+    });
+  });
+
+  it('should hash PII consistently so it can be correlated', () => {
+    const hashing = new Redactor({ ...baseConfig, piiMode: 'hash', piiHashKey: 'k' });
+
+    const first = hashing.value({ email: 'John@Example.com' }) as { email: string };
+    const second = hashing.value({ email: 'john@example.com' }) as { email: string };
+
+    expect(first.email).toMatch(/^sha256:[0-9a-f]{16}$/);
+    expect(second.email).toBe(first.email);
+    expect(hashing.value({ email: first.email })).toEqual({ email: first.email });
+  });
+
+  it('should redact query parameters in urls', () => {
+    expect(redactor.url('/users?email=john%40example.com&password=x&page=2')).toBe(
+      '/users?email=j***%40example.com&password=%5BREDACTED%5D&page=2'
+    );
+  });
+
+  it('should cap logged bodies after redacting them', () => {
+    const body = redactor.body({ password: 'secret', notes: 'x'.repeat(500) }) as string;
+
+    expect(body).toHaveLength(200 + '... [truncated 341 chars]'.length);
+    expect(body).toContain('"password":"[REDACTED]"');
+    expect(body).toMatch(/\[truncated \d+ chars\]$/);
+  });
+});
+
+describe('HTTP log serializers', () => {
+  it('should redact request and response headers and urls', () => {
+    const req = httpSerializers.req({
+      id: '1',
+      method: 'GET',
+      url: '/api/v1/users?email=jane@example.com',
+      query: {},
+      params: {},
+      headers: { authorization: 'Bearer abc.def', cookie: 'session=123', host: 'localhost' },
+      remoteAddress: '127.0.0.1',
+      remotePort: 1234,
+      raw: {} as pino.SerializedRequest['raw'],
+    });
+    const res = httpSerializers.res({
+      statusCode: 200,
+      headers: { 'set-cookie': 'session=456' },
+      raw: {} as pino.SerializedResponse['raw'],
+    });
+
+    expect(JSON.stringify([req, res])).not.toMatch(/abc\.def|session=|jane@example\.com/);
+    expect(req['headers']).toMatchObject({ authorization: '[REDACTED]', host: 'localhost' });
+  });
+});
+
+describe('Application logs', () => {
+  let output: string;
+  let getLogger: jest.SpyInstance;
+
+  beforeEach(() => {
+    output = '';
+    const destination = { write: (line: string): void => { output += line; } };
+    getLogger = jest.spyOn(requestContext, 'getLogger').mockReturnValue(createLogger(destination, { level: 'info' }));
+  });
+
+  afterEach(() => {
+    getLogger.mockRestore();
+  });
+
+  it('should not leak credentials, cookies or emails', async () => {
+    await request(app)
+      .post('/api/v1/auth/login')
+      .set('Authorization', 'Bearer leaked.jwt.token')
+      .set('Cookie', 'session=s3cr3t-cookie')
+      .send({ email: 'john@example.com', password: 'wrong-s3cret-password' })
+      .expect(401);
+
+    const login = await request(app)
+      .post('/api/v1/auth/login')
+      .send({ email: 'jane@example.com', password: 'password123' })
+      .expect(200);
+    await request(app)
+      .get('/api/v1/users')
+      .query({ email: 'john@example.com', page: 0 })
+      .auth(login.body.data.accessToken, { type: 'bearer' })
+      .expect(400);
+
+    expect(output).toContain('Error occurred');
+    expect(output).toContain('j***@example.com');
+    for (const secret of [
+      'leaked.jwt.token',
+      's3cr3t-cookie',
+      'wrong-s3cret-password',
+      'password123',
+      'john@example.com',
+      'jane@example.com',
+      login.body.data.accessToken,
+    ]) {
+      expect(output).not.toContain(secret);
+    }
+  });
+});
@@ -0,0 +1,84 @@
+import express from 'express';
+import request from 'supertest';
+import app from '../app';
+import { errorHandler } from '@/middleware/errorHandler';
+import { parseTraceparent, preserveContext, requestId } from '@/middleware/requestId';
+import { getLogger, getRequestContext } from '@/utils/requestContext';
+
+const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+describe('requestId middleware', () => {
+  const testApp = express();
+  testApp.use(requestId);
+  testApp.use(preserveContext(express.json()));
+  testApp.post('/context', async (_req, res) => {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const context = getRequestContext();
+    res.json({
+      requestId: context?.requestId,
+      traceId: context?.traceId,
+      loggerBindings: getLogger().bindings(),
+    });
+  });
+  testApp.use(errorHandler);
+
+  it('should keep a valid client request id and bind it to the logger', async () => {
+    const response = await request(testApp)
+      .post('/context')
+      .set('X-Request-Id', 'client-id-1')
+      .send({ any: 'body' })
+      .expect(200)
+      .expect('X-Request-Id', 'client-id-1');
+
+    expect(response.body).toMatchObject({
+      requestId: 'client-id-1',
+      loggerBindings: expect.objectContaining({ requestId: 'client-id-1' }),
+    });
+  });
+
+  it('should generate an id when the header is missing or unsafe', async () => {
+    const generated = await request(testApp).post('/context').send({}).expect(200);
+    expect(generated.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    expect(generated.body.requestId).toBe(generated.headers['x-request-id']);
+
+    const unsafe = await request(testApp).post('/context').set('X-Request-Id', 'bad id\twith spaces').send({}).expect(200);
+    expect(unsafe.body.requestId).not.toBe('bad id\twith spaces');
+  });
+
+  it('should carry the trace id from traceparent', async () => {
+    const response = await request(testApp).post('/context').set('traceparent', TRACEPARENT).send({}).expect(200);
+
+    expect(response.body).toMatchObject({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      loggerBindings: expect.objectContaining({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736' }),
+    });
+  });
+});
+
+describe('parseTraceparent', () => {
+  it('should parse a valid header', () => {
+    expect(parseTraceparent(TRACEPARENT)).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      parentSpanId: '00f067aa0ba902b7',
+    });
+  });
+
+  it.each([
+    undefined,
+    'garbage',
+    'ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+    '00-00000000000000000000000000000000-00f067aa0ba902b7-01',
+    '00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01',
+  ])('should ignore %p', header => {
+    expect(parseTraceparent(header)).toBeUndefined();
+  });
+});
+
+describe('Request ids in API responses', () => {
+  it('should echo the request id in error bodies', async () => {
+    const response = await request(app).get('/api/v1/users').set('X-Request-Id', 'trace-me').expect(401);
+
+    expect(response.headers['x-request-id']).toBe('trace-me');
+    expect(response.body).toMatchObject({ code: 'UNAUTHORIZED', requestId: 'trace-me' });
+  });
+});
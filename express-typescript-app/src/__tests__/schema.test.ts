@@ -0,0 +1,71 @@
+import { parse, schema } from '@/utils/schema';
+
+describe('schema parse', () => {
+  const address = schema.object({
+    city: schema.string({ minLength: 1 }),
+    zip: schema.optional(schema.string({ pattern: /^\d{5}$/ })),
+  });
+  const person = schema.object({
+    name: schema.string({ trim: true, minLength: 2, maxLength: 10 }),
+    role: schema.enum(['admin', 'user'] as const),
+    age: schema.optional(schema.integer({ minimum: 0 })),
+    address: schema.optional(address),
+    tags: schema.optional(schema.array(schema.string(), { maxItems: 2 })),
+  });
+
+  it('should return the parsed value with unknown fields stripped', () => {
+    const result = parse(person, { name: '  Ann ', role: 'user', address: { city: 'Oslo', extra: 1 }, isAdmin: true });
+
+    expect(result).toEqual({ ok: true, value: { name: 'Ann', role: 'user', address: { city: 'Oslo' } } });
+  });
+
+  it('should report every violation with its path', () => {
+    const result = parse(person, { name: 'A', role: 'root', age: 1.5, address: { zip: '12' }, tags: ['a', 3] }, {}, 'body');
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        { path: 'body.name', message: 'must be at least 2 characters' },
+        { path: 'body.role', message: 'must be one of: admin, user' },
+        { path: 'body.age', message: 'must be an integer' },
+        { path: 'body.address.city', message: 'is required' },
+        { path: 'body.address.zip', message: 'must match /^\\d{5}$/' },
+        { path: 'body.tags[1]', message: 'must be a string, got number' },
+      ],
+    });
+  });
+
+  it('should reject unknown fields when asked to', () => {
+    const strict = schema.object({ id: schema.string() }, { unknown: 'reject' });
+
+    expect(parse(strict, { id: 'a', other: 1 })).toEqual({
+      ok: false,
+      errors: [{ path: 'other', message: 'is not allowed' }],
+    });
+  });
+
+  it('should coerce query strings only when asked to', () => {
+    const query = schema.object({
+      limit: schema.integer({ maximum: 100 }),
+      active: schema.boolean(),
+      since: schema.date(),
+      ids: schema.array(schema.string()),
+    });
+    const input = { limit: '10', active: 'false', since: '2024-01-01T00:00:00.000Z', ids: 'a' };
+
+    expect(parse(query, input, { coerce: true })).toEqual({
+      ok: true,
+      value: { limit: 10, active: false, since: new Date('2024-01-01T00:00:00.000Z'), ids: ['a'] },
+    });
+    expect(parse(query, input).ok).toBe(false);
+  });
+
+  it('should reject repeated query parameters for single values', () => {
+    const query = schema.object({ sort: schema.string() });
+
+    expect(parse(query, { sort: ['a', 'b'] }, { coerce: true }, 'query')).toEqual({
+      ok: false,
+      errors: [{ path: 'query.sort', message: 'must be a single value' }],
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { User } from '@/types';
+import { FileUserRepository, MemoryUserRepository, UserRepository } from '@/repositories';
+import { UserService } from '@/services/userService';
+import { AuditEntry } from '@/stores/auditStore';
+import { FileAuditStore } from '@/stores/fileAuditStore';
+import { MemoryAuditStore } from '@/stores/memoryAuditStore';
+
+const makeUser = (id: string, email: string): User => ({
+  id,
+  email,
+  firstName: 'Test',
+  lastName: 'User',
+  role: 'user',
+  version: 1,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+});
+
+describe.each<[string, () => Promise<UserRepository>]>([
+  ['MemoryUserRepository', async () => new MemoryUserRepository()],
+  [
+    'FileUserRepository',
+    async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'users-'));
+      return new FileUserRepository(path.join(dir, 'users.json'));
+    },
+  ],
+])('%s', (_name, createRepository) => {
+  let repository: UserRepository;
+
+  beforeEach(async () => {
+    repository = await createRepository();
+  });
+
+  it('should insert and find users by id and email', async () => {
+    await repository.insert(makeUser('a', 'a@example.com'));
+
+    expect(await repository.findById('a')).toMatchObject({ email: 'a@example.com' });
+    expect(await repository.findByEmail('a@example.com')).toMatchObject({ id: 'a' });
+    expect(await repository.findById('missing')).toBeNull();
+    expect(await repository.count()).toBe(1);
+  });
+
+  it('should replace and delete users', async () => {
+    await repository.insert(makeUser('a', 'a@example.com'));
+
+    const replaced = await repository.replace({ ...makeUser('a', 'a@example.com'), lastName: 'Changed', version: 2 }, 1);
+    expect(replaced).toMatchObject({ lastName: 'Changed', version: 2 });
+    expect(await repository.replace(makeUser('missing', 'x@example.com'), 1)).toBeNull();
+
+    expect(await repository.delete('a')).toMatchObject({ id: 'a' });
+    expect(await repository.delete('a')).toBeNull();
+    expect(await repository.findAll()).toEqual([]);
+  });
+
+  it('should only replace or delete a user still at the expected version', async () => {
+    await repository.insert(makeUser('a', 'a@example.com'));
+    await repository.replace({ ...makeUser('a', 'a@example.com'), lastName: 'First', version: 2 }, 1);
+
+    expect(await repository.replace({ ...makeUser('a', 'a@example.com'), lastName: 'Stale', version: 2 }, 1)).toBeNull();
+    expect(await repository.delete('a', 1)).toBeNull();
+    expect(await repository.findById('a')).toMatchObject({ lastName: 'First', version: 2 });
+
+    expect(await repository.delete('a', 2)).toMatchObject({ id: 'a' });
+  });
+
+  it('should skip soft-deleted users unless asked to include them', async () => {
+    await repository.insert({ ...makeUser('a', 'a@example.com'), deletedAt: new Date('2024-02-01T00:00:00.000Z') });
+    await repository.insert(makeUser('b', 'b@example.com'));
+
+    expect(await repository.findById('a')).toBeNull();
+    expect(await repository.findByEmail('a@example.com')).toBeNull();
+    expect(await repository.findById('a', { includeDeleted: true })).toMatchObject({ deletedAt: new Date('2024-02-01T00:00:00.000Z') });
+    expect(await repository.findByEmail('a@example.com', { includeDeleted: true })).toMatchObject({ id: 'a' });
+    expect((await repository.findAll()).map(user => user.id)).toEqual(['b']);
+    expect(await repository.count()).toBe(1);
+  });
+
+  it('should not expose stored records to mutation', async () => {
+    const user = await repository.insert(makeUser('a', 'a@example.com'));
+    user.firstName = 'Mutated';
+
+    expect(await repository.findById('a')).toMatchObject({ firstName: 'Test' });
+  });
+});
+
+describe('FileUserRepository persistence', () => {
+  it('should reload users, including dates, from the file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'users-'));
+    const filePath = path.join(dir, 'nested', 'users.json');
+
+    const writer = new FileUserRepository(filePath);
+    await Promise.all([
+      writer.insert(makeUser('a', 'a@example.com')),
+      writer.insert(makeUser('b', 'b@example.com')),
+    ]);
+
+    const reader = new FileUserRepository(filePath);
+    const users = await reader.findAll();
+
+    expect(users.map(user => user.id).sort()).toEqual(['a', 'b']);
+    expect(users[0]?.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should fail its ping while the file cannot be parsed', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'users-'));
+    const filePath = path.join(dir, 'users.json');
+    await fs.writeFile(filePath, '{not json');
+
+    await expect(new FileUserRepository(filePath).ping()).rejects.toThrow();
+    await expect(new FileUserRepository(path.join(dir, 'missing.json')).ping()).resolves.toBeUndefined();
+  });
+});
+
+describe('UserService concurrent writes', () => {
+  it('should let only one of two racing updates win', async () => {
+    const service = new UserService(new MemoryUserRepository([makeUser('a', 'a@example.com')]));
+
+    const results = await Promise.allSettled([
+      service.update('a', { lastName: 'One' }),
+      service.update('a', { lastName: 'Two' }),
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({
+      reason: { statusCode: 409, code: 'USER_MODIFIED_CONCURRENTLY' },
+    });
+    expect(await service.findById('a')).toMatchObject({ version: 2 });
+  });
+});
+
+describe('UserService soft delete', () => {
+  it('should keep a deleted user\'s email reserved when configured to', async () => {
+    const repository = new MemoryUserRepository([makeUser('a', 'a@example.com')]);
+    const service = new UserService(repository, new MemoryAuditStore(), { reserveDeletedEmails: true });
+
+    await service.delete('a');
+
+    await expect(service.create({ email: 'a@example.com', firstName: 'B', lastName: 'B', role: 'user' }))
+      .rejects.toMatchObject({ statusCode: 409, code: 'EMAIL_TAKEN' });
+    expect(await service.restore('a')).toMatchObject({ id: 'a', version: 3 });
+  });
+
+  it('should record changes made outside a request without an actor', async () => {
+    const audit = new MemoryAuditStore();
+    const service = new UserService(new MemoryUserRepository([makeUser('a', 'a@example.com')]), audit);
+
+    await service.update('a', { role: 'admin' });
+
+    expect(await audit.findByResource('user', 'a')).toEqual([
+      expect.objectContaining({
+        action: 'update',
+        actor: null,
+        requestId: null,
+        changes: [{ field: 'role', from: 'user', to: 'admin' }],
+      }),
+    ]);
+  });
+});
+
+describe('FileAuditStore', () => {
+  const makeEntry = (id: string, resourceId: string): AuditEntry => ({
+    id,
+    resourceType: 'user',
+    resourceId,
+    action: 'update',
+    actor: { id: '2', email: 'jane@example.com' },
+    requestId: 'req-1',
+    timestamp: new Date('2024-01-02T00:00:00.000Z'),
+    changes: [{ field: 'role', from: 'user', to: 'admin' }],
+  });
+
+  it('should keep entries across instances, oldest first, with their timestamps as dates', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-'));
+    const filePath = path.join(dir, 'audit.ndjson');
+    const store = new FileAuditStore(filePath);
+
+    await Promise.all([store.append(makeEntry('e1', 'a')), store.append(makeEntry('e2', 'b'))]);
+    await store.append(makeEntry('e3', 'a'));
+
+    const entries = await new FileAuditStore(filePath).findByResource('user', 'a');
+    expect(entries.map(entry => entry.id)).toEqual(['e1', 'e3']);
+    expect(entries[0]).toEqual(makeEntry('e1', 'a'));
+  });
+});
+
+describe('createUserRepository', () => {
+  const withNodeEnv = async (nodeEnv: string): Promise<number> => {
+    const previous = process.env['NODE_ENV'];
+    process.env['NODE_ENV'] = nodeEnv;
+    try {
+      // config is read when the modules load, so load fresh copies under this NODE_ENV
+      let repositories: typeof import('@/repositories') | undefined;
+      jest.isolateModules(() => {
+        repositories = jest.requireActual<typeof import('@/repositories')>('@/repositories');
+      });
+      if (!repositories) {
+        throw new Error('repositories not loaded');
+      }
+      return await repositories.createUserRepository().count();
+    } finally {
+      process.env['NODE_ENV'] = previous;
+    }
+  };
+
+  it('should seed the example users outside production only', async () => {
+    expect(await withNodeEnv('development')).toBe(2);
+    expect(await withNodeEnv('production')).toBe(0);
+  });
+});
@@ -0,0 +1,700 @@
+import request from 'supertest';
+import app from '../app';
+
+let token: string;
+
+beforeAll(async () => {
+  const response = await request(app)
+    .post('/api/v1/auth/login')
+    .send({ email: 'jane@example.com', password: 'password123' })
+    .expect(200);
+  token = response.body.data.accessToken;
+});
+
+describe('Users API', () => {
+  it('should list the seeded users', async () => {
+    const response = await request(app)
+      .get('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .expect(200);
+
+    expect(response.body.success).toBe(true);
+    expect(response.body.data).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ email: 'john@example.com' }),
+        expect.objectContaining({ email: 'jane@example.com' }),
+      ])
+    );
+  });
+
+  it('should create, update and delete a user through the service', async () => {
+    const created = await request(app)
+      .post('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .send({ email: 'crud@example.com', firstName: 'Crud', lastName: 'User' })
+      .expect(201);
+
+    const { id } = created.body.data;
+    expect(created.body.data).toMatchObject({ email: 'crud@example.com', role: 'user' });
+
+    const updated = await request(app)
+      .patch(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .send({ lastName: 'Updated' })
+      .expect(200);
+    expect(updated.body.data).toMatchObject({ id, firstName: 'Crud', lastName: 'Updated' });
+
+    await request(app).delete(`/api/v1/users/${id}`).auth(token, { type: 'bearer' }).expect(200);
+    await request(app).get(`/api/v1/users/${id}`).auth(token, { type: 'bearer' }).expect(404);
+  });
+
+  it('should not reuse ids after a delete', async () => {
+    const first = await request(app)
+      .post('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .send({ email: 'first@example.com', firstName: 'First', lastName: 'User' })
+      .expect(201);
+    await request(app).delete(`/api/v1/users/${first.body.data.id}`).auth(token, { type: 'bearer' }).expect(200);
+
+    const second = await request(app)
+      .post('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .send({ email: 'second@example.com', firstName: 'Second', lastName: 'User' })
+      .expect(201);
+    const third = await request(app)
+      .post('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .send({ email: 'third@example.com', firstName: 'Third', lastName: 'User' })
+      .expect(201);
+
+    expect(new Set([first.body.data.id, second.body.data.id, third.body.data.id]).size).toBe(3);
+    await request(app).get(`/api/v1/users/${second.body.data.id}`).auth(token, { type: 'bearer' }).expect(200);
+  });
+
+  it('should reject a duplicate email with 409', async () => {
+    const response = await request(app)
+      .post('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .send({ email: 'john@example.com', firstName: 'John', lastName: 'Again' })
+      .expect(409);
+
+    expect(response.body).toMatchObject({ success: false, message: 'User with this email already exists' });
+  });
+
+  it('should report every invalid field at once', async () => {
+    const response = await request(app)
+      .post('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .send({ email: 'not-an-email', firstName: '', role: 'root' })
+      .expect(400);
+
+    expect(response.body).toMatchObject({ success: false });
+    expect(response.body.errors).toEqual([
+      { path: 'body.email', message: 'must be a valid email address' },
+      { path: 'body.firstName', message: 'must not be empty' },
+      { path: 'body.lastName', message: 'is required' },
+      { path: 'body.role', message: 'must be one of: admin, user' },
+    ]);
+  });
+
+  it('should validate updates and ignore unknown fields on create', async () => {
+    const created = await request(app)
+      .post('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .send({ email: 'strip@example.com', firstName: 'Strip', lastName: 'Me', passwordHash: 'x', createdAt: 'never' })
+      .expect(201);
+    expect(created.body.data.createdAt).not.toBe('never');
+
+    const response = await request(app)
+      .patch(`/api/v1/users/${created.body.data.id}`)
+      .auth(token, { type: 'bearer' })
+      .send({ role: 'superuser' })
+      .expect(400);
+    expect(response.body.errors).toEqual([{ path: 'user.role', message: 'must be one of: admin, user' }]);
+
+    await request(app).delete(`/api/v1/users/${created.body.data.id}`).auth(token, { type: 'bearer' }).expect(200);
+  });
+
+  it('should require an access token', async () => {
+    const response = await request(app).get('/api/v1/users').expect(401);
+
+    expect(response.body).toMatchObject({ success: false, message: 'Authentication required' });
+  });
+
+  it('should return 404 for an unknown user', async () => {
+    await request(app).get('/api/v1/users/does-not-exist').auth(token, { type: 'bearer' }).expect(404);
+  });
+});
+
+describe('Users API authorization', () => {
+  // john@example.com (id 1) is a regular user, jane@example.com (id 2) an admin
+  let userToken: string;
+
+  beforeAll(async () => {
+    const response = await request(app)
+      .post('/api/v1/auth/login')
+      .send({ email: 'john@example.com', password: 'password123' })
+      .expect(200);
+    userToken = response.body.data.accessToken;
+  });
+
+  it('should restrict listing, creating and deleting users to admins', async () => {
+    const list = await request(app).get('/api/v1/users').auth(userToken, { type: 'bearer' }).expect(403);
+    expect(list.body).toMatchObject({ success: false, message: 'Requires role: admin' });
+
+    await request(app)
+      .post('/api/v1/users')
+      .auth(userToken, { type: 'bearer' })
+      .send({ email: 'sneaky@example.com', firstName: 'Sneaky', lastName: 'User' })
+      .expect(403);
+    await request(app).delete('/api/v1/users/2').auth(userToken, { type: 'bearer' }).expect(403);
+  });
+
+  it('should let a user read and update only themselves', async () => {
+    await request(app).get('/api/v1/users/1').auth(userToken, { type: 'bearer' }).expect(200);
+    await request(app).get('/api/v1/users/2').auth(userToken, { type: 'bearer' }).expect(403);
+
+    const updated = await request(app)
+      .patch('/api/v1/users/1')
+      .auth(userToken, { type: 'bearer' })
+      .send({ firstName: 'Johnny' })
+      .expect(200);
+    expect(updated.body.data.firstName).toBe('Johnny');
+
+    const other = await request(app)
+      .patch('/api/v1/users/2')
+      .auth(userToken, { type: 'bearer' })
+      .send({ firstName: 'Hacked' })
+      .expect(403);
+    expect(other.body).toMatchObject({ success: false, message: 'You may only access your own account' });
+  });
+
+  it('should not let a user change their own role', async () => {
+    const response = await request(app)
+      .patch('/api/v1/users/1')
+      .auth(userToken, { type: 'bearer' })
+      .send({ role: 'admin' })
+      .expect(403);
+
+    expect(response.body).toMatchObject({ success: false, message: "Role 'user' may not change: role" });
+  });
+
+  it('should let an admin change other users\' roles but not their own', async () => {
+    const created = await request(app)
+      .post('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .send({ email: 'promote@example.com', firstName: 'Pro', lastName: 'Mote' })
+      .expect(201);
+
+    const promoted = await request(app)
+      .patch(`/api/v1/users/${created.body.data.id}`)
+      .auth(token, { type: 'bearer' })
+      .send({ role: 'admin' })
+      .expect(200);
+    expect(promoted.body.data.role).toBe('admin');
+
+    const self = await request(app)
+      .patch('/api/v1/users/2')
+      .auth(token, { type: 'bearer' })
+      .send({ role: 'user' })
+      .expect(403);
+    expect(self.body.message).toBe('You may not change your own role');
+
+    await request(app).delete(`/api/v1/users/${created.body.data.id}`).auth(token, { type: 'bearer' }).expect(200);
+  });
+
+  it('should reject fields no role may change', async () => {
+    const response = await request(app)
+      .patch('/api/v1/users/1')
+      .auth(token, { type: 'bearer' })
+      .send({ email: 'new-john@example.com' })
+      .expect(403);
+
+    expect(response.body.message).toBe("Role 'admin' may not change: email");
+  });
+});
+
+describe('Users API pagination', () => {
+  beforeAll(async () => {
+    for (const [index, lastName] of ['Delta', 'Alpha', 'Charlie', 'Bravo', 'Echo'].entries()) {
+      await request(app)
+        .post('/api/v1/users')
+        .auth(token, { type: 'bearer' })
+        .send({ email: `paged${index}@paging.test`, firstName: 'Paged', lastName, role: index % 2 ? 'admin' : 'user' })
+        .expect(201);
+    }
+  });
+
+  it('should page with page/limit and report pagination metadata', async () => {
+    const response = await request(app)
+      .get('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .query({ email: 'paging.test', sort: 'lastName', page: 2, limit: 2 })
+      .expect(200);
+
+    expect(response.body.data.map((u: { lastName: string }) => u.lastName)).toEqual(['Charlie', 'Delta']);
+    expect(response.body.pagination).toMatchObject({
+      totalCount: 5,
+      totalPages: 3,
+      currentPage: 2,
+      limit: 2,
+      hasNext: true,
+      hasPrev: true,
+      nextCursor: expect.any(String),
+    });
+  });
+
+  it('should walk every matching user with cursors', async () => {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const response: request.Response = await request(app)
+        .get('/api/v1/users')
+        .auth(token, { type: 'bearer' })
+        .query({ email: 'PAGING.TEST', sort: '-lastName', limit: 2, ...(cursor && { cursor }) })
+        .expect(200);
+      seen.push(...response.body.data.map((u: { lastName: string }) => u.lastName));
+      cursor = response.body.pagination.nextCursor;
+    } while (cursor);
+
+    expect(seen).toEqual(['Echo', 'Delta', 'Charlie', 'Bravo', 'Alpha']);
+  });
+
+  it('should filter by role and creation date', async () => {
+    const admins = await request(app)
+      .get('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .query({ email: 'paging.test', role: 'admin' })
+      .expect(200);
+    expect(admins.body.data.map((u: { lastName: string }) => u.lastName).sort()).toEqual(['Alpha', 'Bravo']);
+
+    const future = await request(app)
+      .get('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .query({ email: 'paging.test', createdFrom: new Date(Date.now() + 60000).toISOString() })
+      .expect(200);
+    expect(future.body.data).toEqual([]);
+    expect(future.body.pagination).toMatchObject({ totalCount: 0, hasNext: false, nextCursor: null });
+  });
+
+  it.each([
+    [{ limit: 1000 }, 'must not exceed'],
+    [{ page: 0 }, 'query.page must be at least 1'],
+    [{ sort: 'password' }, 'Cannot sort by'],
+    [{ role: 'root' }, 'must be one of'],
+    [{ createdFrom: 'yesterday' }, 'ISO 8601'],
+    [{ cursor: 'not-a-cursor' }, 'Invalid cursor'],
+    [{ cursor: 'abc', page: 1 }, 'not both'],
+  ])('should reject invalid query %p', async (query, message) => {
+    const response = await request(app).get('/api/v1/users').auth(token, { type: 'bearer' }).query(query).expect(400);
+
+    expect(response.body.message).toContain(message);
+  });
+
+  it('should reject a cursor reused with a different sort', async () => {
+    const first = await request(app)
+      .get('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .query({ email: 'paging.test', sort: 'lastName', limit: 1 })
+      .expect(200);
+
+    await request(app)
+      .get('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .query({ sort: 'email', cursor: first.body.pagination.nextCursor })
+      .expect(400);
+  });
+});
+
+describe('Users API optimistic concurrency', () => {
+  let id: string;
+
+  beforeEach(async () => {
+    const created = await request(app)
+      .post('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .send({ email: `etag-${Date.now()}-${Math.random()}@example.com`, firstName: 'Etag', lastName: 'User' })
+      .expect(201);
+    id = created.body.data.id;
+    expect(created.body.data.version).toBe(1);
+    expect(created.headers['etag']).toBe('"1"');
+  });
+
+  it('should send an ETag and answer a matching If-None-Match with 304', async () => {
+    const first = await request(app).get(`/api/v1/users/${id}`).auth(token, { type: 'bearer' }).expect(200);
+    expect(first.headers['etag']).toBe('"1"');
+
+    await request(app)
+      .get(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .set('If-None-Match', '"1"')
+      .expect(304);
+    await request(app)
+      .get(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .set('If-None-Match', '"0"')
+      .expect(200);
+  });
+
+  it('should update with a matching If-Match and bump the version', async () => {
+    const updated = await request(app)
+      .patch(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .set('If-Match', '"1"')
+      .send({ lastName: 'Updated' })
+      .expect(200);
+
+    expect(updated.body.data.version).toBe(2);
+    expect(updated.headers['etag']).toBe('"2"');
+  });
+
+  it('should reject a stale If-Match with 412 and keep the other writer\'s change', async () => {
+    await request(app)
+      .patch(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .set('If-Match', '"1"')
+      .send({ lastName: 'First' })
+      .expect(200);
+
+    const stale = await request(app)
+      .patch(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .set('If-Match', '"1"')
+      .send({ lastName: 'Second' })
+      .expect(412);
+    expect(stale.body.code).toBe('USER_VERSION_MISMATCH');
+
+    await request(app)
+      .delete(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .set('If-Match', '"1"')
+      .expect(412);
+
+    const current = await request(app).get(`/api/v1/users/${id}`).auth(token, { type: 'bearer' }).expect(200);
+    expect(current.body.data).toMatchObject({ lastName: 'First', version: 2 });
+  });
+
+  it('should never match a weak ETag, but match *', async () => {
+    await request(app)
+      .patch(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .set('If-Match', 'W/"1"')
+      .send({ lastName: 'Weak' })
+      .expect(412);
+
+    await request(app)
+      .delete(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .set('If-Match', '*')
+      .expect(200);
+  });
+});
+
+describe('Users API PUT and PATCH', () => {
+  let id: string;
+  let email: string;
+
+  beforeEach(async () => {
+    email = `patch-${Date.now()}-${Math.random()}@example.com`;
+    const created = await request(app)
+      .post('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .send({ email, firstName: 'Patch', lastName: 'Target' })
+      .expect(201);
+    id = created.body.data.id;
+  });
+
+  it('should replace the whole user on PUT and require every writable field', async () => {
+    const missing = await request(app)
+      .put(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .send({ lastName: 'Only' })
+      .expect(400);
+    expect(missing.body.errors).toEqual(expect.arrayContaining([
+      { path: 'body.email', message: 'is required' },
+      { path: 'body.firstName', message: 'is required' },
+    ]));
+
+    const replaced = await request(app)
+      .put(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .send({ email, firstName: 'Put', lastName: 'Replaced', role: 'user' })
+      .expect(200);
+    expect(replaced.body.data).toMatchObject({ id, firstName: 'Put', lastName: 'Replaced', version: 2 });
+  });
+
+  it('should accept a representation echoed back from GET', async () => {
+    const current = await request(app).get(`/api/v1/users/${id}`).auth(token, { type: 'bearer' }).expect(200);
+
+    const replaced = await request(app)
+      .put(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .send({ ...current.body.data, firstName: 'Echoed' })
+      .expect(200);
+    expect(replaced.body.data).toMatchObject({ firstName: 'Echoed', createdAt: current.body.data.createdAt });
+  });
+
+  it('should reject changes to id and createdAt with 422', async () => {
+    const response = await request(app)
+      .patch(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .set('Content-Type', 'application/merge-patch+json')
+      .send(JSON.stringify({ createdAt: '2000-01-01T00:00:00.000Z' }))
+      .expect(422);
+
+    expect(response.body.code).toBe('IMMUTABLE_FIELD');
+  });
+
+  it('should apply a merge patch', async () => {
+    const response = await request(app)
+      .patch(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .set('Content-Type', 'application/merge-patch+json')
+      .send(JSON.stringify({ firstName: 'Merged' }))
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({ firstName: 'Merged', lastName: 'Target', version: 2 });
+  });
+
+  it('should validate the patched user, not the patch', async () => {
+    const response = await request(app)
+      .patch(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .set('Content-Type', 'application/merge-patch+json')
+      .send(JSON.stringify({ lastName: null }))
+      .expect(400);
+
+    expect(response.body.errors).toEqual([{ path: 'user.lastName', message: 'is required' }]);
+  });
+
+  it('should apply a JSON Patch guarded by a test operation', async () => {
+    const patch = (operations: object[]) =>
+      request(app)
+        .patch(`/api/v1/users/${id}`)
+        .auth(token, { type: 'bearer' })
+        .set('Content-Type', 'application/json-patch+json')
+        .send(JSON.stringify(operations));
+
+    const patched = await patch([
+      { op: 'test', path: '/lastName', value: 'Target' },
+      { op: 'replace', path: '/lastName', value: 'Patched' },
+      { op: 'copy', from: '/lastName', path: '/firstName' },
+    ]).expect(200);
+    expect(patched.body.data).toMatchObject({ firstName: 'Patched', lastName: 'Patched' });
+
+    const failed = await patch([
+      { op: 'test', path: '/lastName', value: 'Target' },
+      { op: 'replace', path: '/lastName', value: 'Lost' },
+    ]).expect(409);
+    expect(failed.body.code).toBe('PATCH_TEST_FAILED');
+
+    const missing = await patch([{ op: 'remove', path: '/nickname' }]).expect(409);
+    expect(missing.body.code).toBe('PATCH_PATH_NOT_FOUND');
+
+    const invalid = await patch([{ op: 'rename', path: '/lastName' }]).expect(400);
+    expect(invalid.body.code).toBe('INVALID_PATCH');
+  });
+
+  it('should answer an unsupported patch format with 415 and Accept-Patch', async () => {
+    const response = await request(app)
+      .patch(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .set('Content-Type', 'text/plain')
+      .send('lastName=Plain')
+      .expect(415);
+
+    expect(response.body.code).toBe('UNSUPPORTED_MEDIA_TYPE');
+    expect(response.headers['accept-patch']).toContain('application/json-patch+json');
+  });
+});
+
+describe('Users API soft delete and audit trail', () => {
+  let id: string;
+  let email: string;
+
+  beforeEach(async () => {
+    email = `audit-${Date.now()}-${Math.random()}@example.com`;
+    const created = await request(app)
+      .post('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .set('X-Request-Id', 'audit-create')
+      .send({ email, firstName: 'Audit', lastName: 'Trail' })
+      .expect(201);
+    id = created.body.data.id;
+  });
+
+  it('should record who changed what in the user\'s history', async () => {
+    await request(app)
+      .patch(`/api/v1/users/${id}`)
+      .auth(token, { type: 'bearer' })
+      .set('X-Request-Id', 'audit-update')
+      .send({ lastName: 'Changed' })
+      .expect(200);
+    await request(app).delete(`/api/v1/users/${id}`).auth(token, { type: 'bearer' }).expect(200);
+
+    const response = await request(app).get(`/api/v1/users/${id}/history`).auth(token, { type: 'bearer' }).expect(200);
+
+    expect(response.body.data.map((entry: { action: string }) => entry.action)).toEqual(['create', 'update', 'delete']);
+    const [created, updated, deleted] = response.body.data;
+    expect(created).toMatchObject({
+      resourceId: id,
+      actor: { id: '2', email: 'jane@example.com' },
+      requestId: 'audit-create',
+      changes: expect.arrayContaining([{ field: 'email', from: null, to: email }]),
+    });
+    expect(updated).toMatchObject({
+      requestId: 'audit-update',
+      changes: [{ field: 'lastName', from: 'Trail', to: 'Changed' }],
+    });
+    expect(deleted.changes).toEqual([{ field: 'deletedAt', from: null, to: expect.any(String) }]);
+  });
+
+  it('should hide soft-deleted users until an admin restores them', async () => {
+    const deleted = await request(app).delete(`/api/v1/users/${id}`).auth(token, { type: 'bearer' }).expect(200);
+    expect(deleted.body.data.deletedAt).toEqual(expect.any(String));
+
+    await request(app).get(`/api/v1/users/${id}`).auth(token, { type: 'bearer' }).expect(404);
+    await request(app).delete(`/api/v1/users/${id}`).auth(token, { type: 'bearer' }).expect(404);
+    const list = await request(app).get('/api/v1/users').query({ email }).auth(token, { type: 'bearer' }).expect(200);
+    expect(list.body.data).toEqual([]);
+
+    const restored = await request(app).post(`/api/v1/users/${id}/restore`).auth(token, { type: 'bearer' }).expect(200);
+    expect(restored.body.data.deletedAt).toBeUndefined();
+    expect(restored.headers['etag']).toBe('"3"');
+
+    await request(app).get(`/api/v1/users/${id}`).auth(token, { type: 'bearer' }).expect(200);
+    const again = await request(app).post(`/api/v1/users/${id}/restore`).auth(token, { type: 'bearer' }).expect(409);
+    expect(again.body.code).toBe('USER_NOT_DELETED');
+  });
+
+  it('should free a deleted user\'s email, and refuse to restore it once it is taken', async () => {
+    await request(app).delete(`/api/v1/users/${id}`).auth(token, { type: 'bearer' }).expect(200);
+
+    await request(app)
+      .post('/api/v1/users')
+      .auth(token, { type: 'bearer' })
+      .send({ email, firstName: 'New', lastName: 'Owner' })
+      .expect(201);
+
+    const response = await request(app).post(`/api/v1/users/${id}/restore`).auth(token, { type: 'bearer' }).expect(409);
+    expect(response.body.code).toBe('EMAIL_TAKEN');
+  });
+
+  it('should restrict history and restore to admins', async () => {
+    const login = await request(app)
+      .post('/api/v1/auth/login')
+      .send({ email: 'john@example.com', password: 'password123' })
+      .expect(200);
+    const userToken = login.body.data.accessToken;
+
+    await request(app).get('/api/v1/users/1/history').auth(userToken, { type: 'bearer' }).expect(403);
+    await request(app).post('/api/v1/users/1/restore').auth(userToken, { type: 'bearer' }).expect(403);
+  });
+});
+
+describe('Users API import and export', () => {
+  const importUsers = (contentType: string, body: string) =>
+    request(app)
+      .post('/api/v1/users/import')
+      .auth(token, { type: 'bearer' })
+      .set('Content-Type', contentType)
+      .send(body);
+
+  it('should import CSV rows and report the ones that failed', async () => {
+    const csv = [
+      'email,firstName,lastName,role',
+      'csv-one@example.com,"Smith, Jr.",One,admin',
+      'csv-two@example.com,Two,Two,',
+      'not-an-email,Bad,Row,user',
+      'csv-one@example.com,Again,One,user',
+      'john@example.com,John,Taken,user',
+      'csv-short@example.com,Short',
+    ].join('\r\n');
+
+    const response = await importUsers('text/csv', csv).expect(200);
+
+    expect(response.body.data).toMatchObject({ total: 6, created: 2, failed: 4 });
+    expect(response.body.data.errors).toEqual([
+      expect.objectContaining({ line: 4, code: 'VALIDATION_FAILED', errors: [{ path: 'email', message: 'must be a valid email address' }] }),
+      expect.objectContaining({ line: 5, code: 'DUPLICATE_EMAIL', message: 'Email already appears on line 2' }),
+      expect.objectContaining({ line: 6, code: 'EMAIL_TAKEN' }),
+      expect.objectContaining({ line: 7, code: 'INVALID_ROW' }),
+    ]);
+
+    const list = await request(app).get('/api/v1/users').query({ email: 'csv-' }).auth(token, { type: 'bearer' }).expect(200);
+    expect(list.body.data).toEqual(expect.arrayContaining([
+      expect.objectContaining({ email: 'csv-one@example.com', firstName: 'Smith, Jr.', role: 'admin' }),
+      expect.objectContaining({ email: 'csv-two@example.com', role: 'user' }),
+    ]));
+  });
+
+  it('should import NDJSON, reporting lines that are not valid JSON', async () => {
+    const ndjson = [
+      JSON.stringify({ email: 'ndjson-one@example.com', firstName: 'Nd', lastName: 'Json' }),
+      '',
+      '{"email": ',
+    ].join('\n');
+
+    const response = await importUsers('application/x-ndjson', ndjson).expect(200);
+
+    expect(response.body.data).toMatchObject({
+      total: 2,
+      created: 1,
+      errors: [{ line: 3, code: 'INVALID_ROW', message: 'Line 3 is not valid JSON' }],
+    });
+  });
+
+  it('should reject other content types', async () => {
+    const response = await importUsers('application/json', '[]').expect(415);
+
+    expect(response.body.code).toBe('UNSUPPORTED_MEDIA_TYPE');
+  });
+
+  it('should export the filtered users as CSV that can be imported again', async () => {
+    await importUsers('text/csv', 'email,firstName,lastName\nexport-a@example.com,Export,"Quote ""A"""\n').expect(200);
+
+    const response = await request(app)
+      .get('/api/v1/users/export')
+      .query({ email: 'export-', sort: 'email' })
+      .auth(token, { type: 'bearer' })
+      .expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/csv/);
+    expect(response.headers['content-disposition']).toBe('attachment; filename="users.csv"');
+    const [header, row, ...rest] = response.text.split('\r\n');
+    expect(header).toBe('id,email,firstName,lastName,role,version,createdAt,updatedAt');
+    expect(row).toMatch(/^[\w-]+,export-a@example\.com,Export,"Quote ""A""",user,1,/);
+    expect(rest).toEqual(['']);
+  });
+
+  it('should export NDJSON with the list filters applied', async () => {
+    const response = await request(app)
+      .get('/api/v1/users/export')
+      .query({ format: 'ndjson', role: 'admin' })
+      .auth(token, { type: 'bearer' })
+      .buffer(true)
+      .parse((res, callback) => {
+        let text = '';
+        res.on('data', (chunk: Buffer) => (text += chunk.toString()));
+        res.on('end', () => callback(null, text));
+      })
+      .expect(200);
+
+    const users = (response.body as string).trim().split('\n').map(line => JSON.parse(line));
+    expect(users.length).toBeGreaterThan(0);
+    expect(users.every(user => user.role === 'admin')).toBe(true);
+    expect(users).toEqual(expect.arrayContaining([expect.objectContaining({ email: 'jane@example.com' })]));
+  });
+
+  // Runs last: it spends the rest of the admin's import quota
+  it('should rate limit imports with their own quota', async () => {
+    let response = await importUsers('text/csv', 'email,firstName,lastName\n');
+    for (let attempt = 0; attempt < 5 && response.status === 200; attempt++) {
+      response = await importUsers('text/csv', 'email,firstName,lastName\n');
+    }
+
+    expect(response.status).toBe(429);
+    expect(response.headers['ratelimit-limit']).toBe('5');
+  });
+});
@@ -5,10 +5,22 @@ import compression from 'compression';
 import { config } from '@/config/app';
 import { httpLogger } from '@/config/logger';
 import { errorHandler, notFoundHandler } from '@/middleware/errorHandler';
-import routes from '@/routes';
+import { httpMetrics, requireMetricsToken } from '@/middleware/metrics';
+import { preserveContext, requestId } from '@/middleware/requestId';
+import { responseValidation } from '@/middleware/responseValidation';
+import routes, { getApiDocument } from '@/routes';
+import { CSV_CONTENT_TYPE } from '@/utils/csv';
+import { NDJSON_CONTENT_TYPE } from '@/utils/ndjson';
+import metricsRoutes from '@/routes/metricsRoutes';
 
 const app = express();
 
+// Request id and request-scoped logger, first so every later middleware runs inside it
+app.use(requestId);
+
+// Request latency histogram, recorded once the response has finished
+app.use(httpMetrics);
+
 // Security middleware
 app.use(helmet());
 
@@ -22,14 +34,25 @@ app.use(cors({
 app.use(compression());
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+// application/*+json covers merge-patch+json and json-patch+json
+app.use(preserveContext(express.json({ limit: '10mb', type: ['application/json', 'application/*+json'] })));
+app.use(preserveContext(express.urlencoded({ extended: true, limit: '10mb' })));
+// CSV and NDJSON bodies of bulk imports arrive as text
+app.use(preserveContext(express.text({ limit: '10mb', type: [CSV_CONTENT_TYPE, NDJSON_CONTENT_TYPE] })));
 
 // HTTP request logging
 app.use(httpLogger);
 
-// Routes
-app.use('/api/v1', routes);
+// Prometheus scrape endpoint, outside the versioned API. With METRICS_TOKEN set scrapers must
+// send it; without one the endpoint is only open outside production
+if (config.metricsToken) {
+  app.use('/metrics', requireMetricsToken(config.metricsToken), metricsRoutes);
+} else if (!config.isProduction) {
+  app.use('/metrics', metricsRoutes);
+}
+
+// Routes, with their JSON responses checked against the OpenAPI document when enabled
+app.use('/api/v1', responseValidation(getApiDocument, { basePath: '/api/v1' }), routes);
 
 // Handle 404 errors
 app.use(notFoundHandler);
@@ -3,6 +3,9 @@ import dotenv from 'dotenv';
 // Load environment variables
 dotenv.config();
 
+export type UserStore = 'memory' | 'file' | 'mongo';
+export type ResponseValidationMode = 'off' | 'warn' | 'fail';
+
 interface AppConfig {
   port: number;
   nodeEnv: string;
@@ -11,6 +14,29 @@ interface AppConfig {
   isDevelopment: boolean;
   isProduction: boolean;
   isTest: boolean;
+  userStore: UserStore;
+  userStoreFile: string;
+  auditStoreFile: string;
+  mongoUri: string;
+  mongoDbName: string;
+  mongoUsersCollection: string;
+  mongoAuditCollection: string;
+  mongoDeadLetterFile: string;
+  problemTypeBaseUrl: string;
+  healthProbeTimeoutMs: number;
+  healthMaxEventLoopLagMs: number;
+  healthMaxHeapUsedPercent: number;
+  rateLimitWindowMs: number;
+  rateLimitMax: number;
+  rateLimitLoginMax: number;
+  rateLimitCreateUserMax: number;
+  rateLimitImportMax: number;
+  idempotencyTtlMs: number;
+  userDeletedEmailsReserved: boolean;
+  userImportMaxRows: number;
+  openApiResponseValidation: ResponseValidationMode;
+  // Bearer token for GET /metrics; without one the endpoint is not served in production
+  metricsToken: string | null;
 }
 
 const getEnvVar = (key: string, defaultValue?: string): string => {
@@ -32,12 +58,55 @@ const getEnvVarAsNumber = (key: string, defaultValue: number): number => {
   return parsed;
 };
 
+const getEnvVarAsEnum = <T extends string>(key: string, allowed: readonly T[], defaultValue: T): T => {
+  const value = process.env[key];
+  if (!value) return defaultValue;
+
+  if (!allowed.includes(value as T)) {
+    throw new Error(`Environment variable ${key} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+};
+
 export const config: AppConfig = {
   port: getEnvVarAsNumber('PORT', 3000),
   nodeEnv: getEnvVar('NODE_ENV', 'development'),
   corsOrigin: getEnvVar('CORS_ORIGIN', 'http://localhost:3000'),
   logLevel: getEnvVar('LOG_LEVEL', 'info'),
-  isDevelopment: process.env.NODE_ENV === 'development',
-  isProduction: process.env.NODE_ENV === 'production',
-  isTest: process.env.NODE_ENV === 'test',
+  isDevelopment: process.env['NODE_ENV'] === 'development',
+  isProduction: process.env['NODE_ENV'] === 'production',
+  isTest: process.env['NODE_ENV'] === 'test',
+  userStore: getEnvVarAsEnum<UserStore>('USER_STORE', ['memory', 'file', 'mongo'], 'memory'),
+  userStoreFile: getEnvVar('USER_STORE_FILE', 'data/users.json'),
+  auditStoreFile: getEnvVar('AUDIT_STORE_FILE', 'data/audit.ndjson'),
+  mongoUri: getEnvVar('MONGO_URI', 'mongodb://localhost:27017'),
+  mongoDbName: getEnvVar('MONGO_DB_NAME', 'app'),
+  mongoUsersCollection: getEnvVar('MONGO_USERS_COLLECTION', 'users'),
+  mongoAuditCollection: getEnvVar('MONGO_AUDIT_COLLECTION', 'audit'),
+  // Batches of bulk inserts that ran out of retries, kept for replay
+  mongoDeadLetterFile: getEnvVar('MONGO_DEAD_LETTER_FILE', 'data/mongo-dead-letters.ndjson'),
+  // Problem `type` URIs are <base>/<code>, e.g. /problems/not-found
+  problemTypeBaseUrl: getEnvVar('PROBLEM_TYPE_BASE_URL', '/problems'),
+  healthProbeTimeoutMs: getEnvVarAsNumber('HEALTH_PROBE_TIMEOUT_MS', 2000),
+  healthMaxEventLoopLagMs: getEnvVarAsNumber('HEALTH_MAX_EVENT_LOOP_LAG_MS', 200),
+  healthMaxHeapUsedPercent: getEnvVarAsNumber('HEALTH_MAX_HEAP_USED_PERCENT', 90),
+  // Requests per client per window: all API routes, logins per IP, user creations per admin
+  rateLimitWindowMs: getEnvVarAsNumber('RATE_LIMIT_WINDOW_MS', 60000),
+  rateLimitMax: getEnvVarAsNumber('RATE_LIMIT_MAX', 300),
+  rateLimitLoginMax: getEnvVarAsNumber('RATE_LIMIT_LOGIN_MAX', 10),
+  rateLimitCreateUserMax: getEnvVarAsNumber('RATE_LIMIT_CREATE_USER_MAX', 30),
+  rateLimitImportMax: getEnvVarAsNumber('RATE_LIMIT_IMPORT_MAX', 5),
+  // Responses to requests with an Idempotency-Key are replayed for this long
+  idempotencyTtlMs: getEnvVarAsNumber('IDEMPOTENCY_TTL_MS', 24 * 60 * 60 * 1000),
+  // Whether soft-deleted users keep their email reserved, so no one else can sign up with it
+  userDeletedEmailsReserved: getEnvVarAsEnum('USER_DELETED_EMAILS_RESERVED', ['true', 'false'], 'false') === 'true',
+  // Rows accepted by one POST /users/import
+  userImportMaxRows: getEnvVarAsNumber('USER_IMPORT_MAX_ROWS', 10000),
+  // Checks JSON responses against the OpenAPI document; on by default under test, so tests catch drift
+  openApiResponseValidation: getEnvVarAsEnum<ResponseValidationMode>(
+    'OPENAPI_RESPONSE_VALIDATION',
+    ['off', 'warn', 'fail'],
+    process.env['NODE_ENV'] === 'test' ? 'fail' : 'off'
+  ),
+  metricsToken: process.env['METRICS_TOKEN'] || null,
 };
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { randomBytes } from 'crypto';
+import { config } from './app';
+
+export type JwtAlgorithm = 'HS256' | 'RS256';
+
+// A signing/verification key. HS256 keys carry a shared `secret`; RS256 keys carry a
+// `publicKey` and, for the key currently used to sign, a `privateKey`. Retired keys
+// stay in the list (public part only for RS256) so tokens they signed remain valid.
+export interface JwtKey {
+  kid: string;
+  algorithm: JwtAlgorithm;
+  secret?: string;
+  privateKey?: string;
+  publicKey?: string;
+}
+
+export interface AuthConfig {
+  keys: JwtKey[];
+  activeKeyId: string;
+  issuer: string;
+  audience: string;
+  accessTokenTtl: number;
+  refreshTokenTtl: number;
+}
+
+const getNumber = (key: string, defaultValue: number): number => {
+  const value = process.env[key];
+  if (!value) return defaultValue;
+
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed <= 0) {
+    throw new Error(`Environment variable ${key} must be a positive number`);
+  }
+  return parsed;
+};
+
+const parseKeys = (raw: string): JwtKey[] => {
+  let keys: unknown;
+  try {
+    keys = JSON.parse(raw);
+  } catch {
+    throw new Error('Environment variable JWT_KEYS must be a JSON array of keys');
+  }
+  if (!Array.isArray(keys) || keys.length === 0) {
+    throw new Error('Environment variable JWT_KEYS must be a non-empty JSON array');
+  }
+
+  return keys.map((key: JwtKey) => {
+    if (!key.kid || (key.algorithm !== 'HS256' && key.algorithm !== 'RS256')) {
+      throw new Error('Every JWT key needs a "kid" and an "algorithm" of HS256 or RS256');
+    }
+    if (key.algorithm === 'HS256' ? !key.secret : !key.publicKey) {
+      throw new Error(`JWT key ${key.kid} is missing its ${key.algorithm === 'HS256' ? 'secret' : 'publicKey'}`);
+    }
+    return key;
+  });
+};
+
+const loadKeys = (): JwtKey[] => {
+  const raw = process.env['JWT_KEYS'];
+  if (raw) {
+    return parseKeys(raw);
+  }
+  if (config.isProduction) {
+    throw new Error('Environment variable JWT_KEYS is required in production');
+  }
+  // Development fallback: tokens are only valid until the process restarts
+  return [{ kid: 'dev', algorithm: 'HS256', secret: randomBytes(32).toString('hex') }];
+};
+
+const keys = loadKeys();
+
+export const authConfig: AuthConfig = {
+  keys,
+  activeKeyId: process.env['JWT_ACTIVE_KID'] || keys[0]?.kid || '',
+  issuer: process.env['JWT_ISSUER'] || 'express-typescript-app',
+  audience: process.env['JWT_AUDIENCE'] || 'express-typescript-app',
+  accessTokenTtl: getNumber('JWT_ACCESS_TOKEN_TTL', 15 * 60),
+  refreshTokenTtl: getNumber('JWT_REFRESH_TOKEN_TTL', 7 * 24 * 60 * 60),
+};
@@ -1,42 +1,74 @@
+import { randomUUID } from 'crypto';
 import pino from 'pino';
 import { pinoHttp } from 'pino-http';
+import { redactor } from '@/utils/redact';
 
-const isDevelopment = process.env.NODE_ENV === 'development';
-const logLevel = process.env.LOG_LEVEL || 'info';
+const isDevelopment = process.env['NODE_ENV'] === 'development';
+const logLevel = process.env['LOG_LEVEL'] || 'info';
 
 // Base logger configuration
 const pinoConfig = {
   level: logLevel,
-  transport: isDevelopment
-    ? {
-        target: 'pino-pretty',
-        options: {
-          colorize: true,
-          ignore: 'pid,hostname',
-          translateTime: 'HH:MM:ss Z',
-          singleLine: true,
-        },
-      }
-    : undefined,
+  ...(isDevelopment && {
+    transport: {
+      target: 'pino-pretty',
+      options: {
+        colorize: true,
+        ignore: 'pid,hostname',
+        translateTime: 'HH:MM:ss Z',
+        singleLine: true,
+      },
+    },
+  }),
   formatters: {
     level: (label: string): { level: string } => {
       return { level: label };
     },
+    // Every log object goes through the redaction policy (serializers below redact their own output)
+    log: (object: Record<string, unknown>): Record<string, unknown> =>
+      redactor.value(object) as Record<string, unknown>,
   },
   timestamp: pino.stdTimeFunctions.isoTime,
   base: {
     pid: process.pid,
-    hostname: process.env.HOSTNAME || 'unknown',
+    hostname: process.env['HOSTNAME'] || 'unknown',
   },
 };
 
+// Loggers share the configuration above; tests pass their own destination to inspect output
+export const createLogger = (
+  destination?: pino.DestinationStream,
+  overrides: pino.LoggerOptions = {}
+): pino.Logger => {
+  const options = { ...pinoConfig, ...overrides };
+  return destination ? pino(options, destination) : pino(options);
+};
+
 // Create the main logger instance
-export const logger = pino(pinoConfig);
+export const logger = createLogger();
+
+// Request/response serializers for the HTTP logger, with the redaction policy applied
+export const httpSerializers = {
+  req: (req: pino.SerializedRequest): Record<string, unknown> => ({
+    id: req.id,
+    method: req.method,
+    url: redactor.url(req.url),
+    headers: redactor.headers(req.headers),
+    remoteAddress: req.remoteAddress,
+    remotePort: req.remotePort,
+  }),
+  res: (res: pino.SerializedResponse): Record<string, unknown> => ({
+    statusCode: res.statusCode,
+    headers: redactor.headers(res.headers),
+  }),
+};
 
 // Create HTTP logger middleware
 export const httpLogger = pinoHttp({
   logger,
-  customLogLevel: (req, res, err) => {
+  // Reuse the id assigned by the requestId middleware
+  genReqId: (req) => req.id ?? randomUUID(),
+  customLogLevel: (_req, res, err) => {
     if (res.statusCode >= 400 && res.statusCode < 500) {
       return 'warn';
     }
@@ -46,24 +78,12 @@ export const httpLogger = pinoHttp({
     return 'info';
   },
   customSuccessMessage: (req, res) => {
-    return `${req.method} ${req.url} - ${res.statusCode}`;
+    return `${req.method} ${redactor.url(req.url ?? '')} - ${res.statusCode}`;
   },
   customErrorMessage: (req, res, err) => {
-    return `${req.method} ${req.url} - ${res.statusCode} - ${err.message}`;
-  },
-  serializers: {
-    req: (req) => ({
-      method: req.method,
-      url: req.url,
-      headers: req.headers,
-      remoteAddress: req.remoteAddress,
-      remotePort: req.remotePort,
-    }),
-    res: (res) => ({
-      statusCode: res.statusCode,
-      headers: res.headers,
-    }),
+    return `${req.method} ${redactor.url(req.url ?? '')} - ${res.statusCode} - ${err.message}`;
   },
+  serializers: httpSerializers,
 });
 
 // Utility function to create child loggers
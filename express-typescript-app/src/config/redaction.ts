@@ -0,0 +1,66 @@
+// What the loggers must never write in plain text. Patterns are dotted paths matched against
+// the end of a value's path, case-insensitively, with `*` matching any one segment:
+// `password` matches a password field at any depth, `headers.cookie` only cookie headers.
+export type PiiMode = 'hash' | 'partial';
+
+export interface RedactionConfig {
+  // Replaced with `censor`
+  paths: string[];
+  // Hashed or partially masked, so log lines about the same person can still be correlated
+  piiPaths: string[];
+  piiMode: PiiMode;
+  // Optional HMAC key for hashed PII; without it values are plain SHA-256
+  piiHashKey: string;
+  censor: string;
+  // Logged request/response bodies are cut to this many characters
+  maxBodyLength: number;
+}
+
+const DEFAULT_PATHS = [
+  'headers.authorization',
+  'headers.proxy-authorization',
+  'headers.cookie',
+  'headers.set-cookie',
+  'headers.x-api-key',
+  'password',
+  'passwordHash',
+  'currentPassword',
+  'newPassword',
+  'accessToken',
+  'refreshToken',
+  'token',
+  'secret',
+  'privateKey',
+  'apiKey',
+];
+
+const DEFAULT_PII_PATHS = ['email'];
+
+// Comma-separated lists extend the defaults
+const getList = (key: string): string[] =>
+  (process.env[key] ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+const getPiiMode = (): PiiMode => {
+  const value = process.env['LOG_PII_MODE'] || 'partial';
+  if (value !== 'hash' && value !== 'partial') {
+    throw new Error('Environment variable LOG_PII_MODE must be one of: hash, partial');
+  }
+  return value;
+};
+
+const getMaxBodyLength = (): number => {
+  const value = parseInt(process.env['LOG_MAX_BODY_LENGTH'] || '2048', 10);
+  if (isNaN(value) || value < 0) {
+    throw new Error('Environment variable LOG_MAX_BODY_LENGTH must be a non-negative number');
+  }
+  return value;
+};
+
+export const redactionConfig: RedactionConfig = {
+  paths: [...DEFAULT_PATHS, ...getList('LOG_REDACT_PATHS')],
+  piiPaths: [...DEFAULT_PII_PATHS, ...getList('LOG_PII_PATHS')],
+  piiMode: getPiiMode(),
+  piiHashKey: process.env['LOG_PII_HASH_KEY'] || '',
+  censor: '[REDACTED]',
+  maxBodyLength: getMaxBodyLength(),
+};
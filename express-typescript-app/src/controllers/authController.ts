@@ -0,0 +1,36 @@
+import { Response } from 'express';
+import { CustomRequest } from '@/types';
+import { sendSuccess } from '@/utils/response';
+import { getLogger } from '@/utils/requestContext';
+import { ValidatedRequest } from '@/middleware/validation';
+import { loginRequest, refreshRequest, logoutRequest } from '@/schemas/authSchemas';
+import { authService } from '@/services/authService';
+import { userService } from '@/services/userService';
+
+export const login = async (req: ValidatedRequest<typeof loginRequest>, res: Response): Promise<void> => {
+  const { email, password } = req.body;
+
+  getLogger().info({ email, ip: req.ip }, 'Login requested');
+
+  const tokens = await authService.login(email, password);
+
+  sendSuccess(res, tokens, 'Login successful');
+};
+
+export const refresh = async (req: ValidatedRequest<typeof refreshRequest>, res: Response): Promise<void> => {
+  const tokens = await authService.refresh(req.body.refreshToken);
+
+  sendSuccess(res, tokens, 'Token refreshed successfully');
+};
+
+export const logout = async (req: ValidatedRequest<typeof logoutRequest>, res: Response): Promise<void> => {
+  await authService.logout(req.body.refreshToken);
+
+  sendSuccess(res, null, 'Logged out successfully');
+};
+
+export const me = async (req: CustomRequest, res: Response): Promise<void> => {
+  const user = await userService.findById(req.user?.id ?? '');
+
+  sendSuccess(res, user, 'Current user retrieved successfully');
+};
@@ -0,0 +1,21 @@
+import { Request, Response } from 'express';
+import { OpenApiDocument } from '@/openapi/document';
+import { renderDocsPage } from '@/openapi/docsPage';
+
+type Handler = (req: Request, res: Response) => Promise<void>;
+
+export interface DocsController {
+  openApiJson: Handler;
+  docsPage: Handler;
+}
+
+// The document is built from the routers that mount these handlers, so it is passed in
+export const createDocsController = (getDocument: () => OpenApiDocument): DocsController => ({
+  openApiJson: async (_req: Request, res: Response): Promise<void> => {
+    res.json(getDocument());
+  },
+
+  docsPage: async (_req: Request, res: Response): Promise<void> => {
+    res.type('html').send(renderDocsPage(getDocument()));
+  },
+});
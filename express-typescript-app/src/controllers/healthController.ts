@@ -1,37 +1,31 @@
 import { Request, Response } from 'express';
-import { config } from '@/config/app';
-import { HealthCheckResponse } from '@/types';
+import { healthService } from '@/services/healthService';
 import { sendSuccess } from '@/utils/response';
-import { logger } from '@/config/logger';
+import { getLogger } from '@/utils/requestContext';
 
 export const healthCheck = async (req: Request, res: Response): Promise<void> => {
-  try {
-    const healthData: HealthCheckResponse = {
-      status: 'healthy',
-      timestamp: new Date().toISOString(),
-      uptime: process.uptime(),
-      version: process.env.npm_package_version || '1.0.0',
-      environment: config.nodeEnv,
-    };
+  getLogger().info({ ip: req.ip }, 'Health check requested');
 
-    logger.info('Health check requested', { ip: req.ip });
-    sendSuccess(res, healthData, 'Service is healthy');
-  } catch (error) {
-    logger.error('Health check failed', { error });
-    
-    const unhealthyData: HealthCheckResponse = {
-      status: 'unhealthy',
-      timestamp: new Date().toISOString(),
-      uptime: process.uptime(),
-      version: process.env.npm_package_version || '1.0.0',
-      environment: config.nodeEnv,
-    };
+  sendSuccess(res, healthService.liveness(), 'Service is healthy');
+};
+
+export const liveness = async (_req: Request, res: Response): Promise<void> => {
+  sendSuccess(res, healthService.liveness(), 'Service is alive');
+};
 
+// 503 takes the instance out of rotation while a critical dependency is down
+export const readiness = async (_req: Request, res: Response): Promise<void> => {
+  const healthData = await healthService.readiness();
+
+  if (healthData.status === 'unhealthy') {
     res.status(503).json({
       success: false,
-      message: 'Service is unhealthy',
-      data: unhealthyData,
+      message: 'Service is not ready',
+      data: healthData,
       timestamp: new Date().toISOString(),
     });
+    return;
   }
-};
\ No newline at end of file
+
+  sendSuccess(res, healthData, healthData.status === 'degraded' ? 'Service is degraded' : 'Service is ready');
+};
@@ -0,0 +1,6 @@
+import { Request, Response } from 'express';
+import { metrics, PROMETHEUS_CONTENT_TYPE } from '@/utils/metrics';
+
+export const scrapeMetrics = async (_req: Request, res: Response): Promise<void> => {
+  res.type(PROMETHEUS_CONTENT_TYPE).send(metrics.render());
+};
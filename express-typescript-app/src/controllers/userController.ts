@@ -1,149 +1,384 @@
-import { Request, Response } from 'express';
-import { User } from '@/types';
-import { sendSuccess, sendError } from '@/utils/response';
-import { logger } from '@/config/logger';
-import { AppError } from '@/middleware/errorHandler';
-
-// Mock user data (replace with actual database operations)
-const mockUsers: User[] = [
-  {
-    id: '1',
-    email: 'john@example.com',
-    firstName: 'John',
-    lastName: 'Doe',
-    role: 'user',
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  },
-  {
-    id: '2',
-    email: 'jane@example.com',
-    firstName: 'Jane',
-    lastName: 'Smith',
-    role: 'admin',
-    createdAt: new Date(),
-    updatedAt: new Date(),
+import { Response } from 'express';
+import { config } from '@/config/app';
+import { sendSuccess, sendPaginatedResponse, streamResponse } from '@/utils/response';
+import { getLogger } from '@/utils/requestContext';
+import {
+  BadRequestError,
+  PayloadTooLargeError,
+  UnauthorizedError,
+  UnsupportedMediaTypeError,
+  ValidationError,
+} from '@/utils/errors';
+import { ValidatedRequest } from '@/middleware/validation';
+import { authorizeChanges, cannotChangeOwnRole, ChangePolicy, restrictChanges } from '@/middleware/authorize';
+import { CustomRequest, User, UserFilter } from '@/types';
+import { parsePageParams, parseSort } from '@/utils/pagination';
+import { parseIfMatch, toETag } from '@/utils/etag';
+import { parse } from '@/utils/schema';
+import { CSV_CONTENT_TYPE, formatCsvRow, parseCsv } from '@/utils/csv';
+import { formatNdjsonLine, NDJSON_CONTENT_TYPE, NdjsonRecord, parseNdjson } from '@/utils/ndjson';
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  JSON_PATCH_CONTENT_TYPE,
+  MERGE_PATCH_CONTENT_TYPE,
+  parseJsonPatch,
+} from '@/utils/jsonPatch';
+import {
+  listUsersRequest,
+  getUserRequest,
+  createUserRequest,
+  replaceUserRequest,
+  patchUserRequest,
+  deleteUserRequest,
+  restoreUserRequest,
+  userHistoryRequest,
+  exportUsersRequest,
+  importUserRow,
+  userRepresentation,
+} from '@/schemas/userSchemas';
+import {
+  userService,
+  USER_SORT_FIELDS,
+  DEFAULT_USER_SORT,
+  ImportRow,
+  ImportRowError,
+  ReplaceOptions,
+  UserReplacement,
+  WriteOptions,
+} from '@/services/userService';
+
+type ListUsersQuery = ValidatedRequest<typeof listUsersRequest>['query'];
+type UserFilterQuery = Pick<ListUsersQuery, 'role' | 'email' | 'createdFrom' | 'createdTo'>;
+
+// Express answers a GET whose If-None-Match matches this ETag with 304 Not Modified
+const setETag = (res: Response, user: User): void => {
+  res.set('ETag', toETag(user.version));
+};
+
+// If-Match on PUT/PATCH/DELETE (a stale version fails with 412 Precondition Failed), and the
+// caller, who is recorded as the author of the change
+const writeOptions = (req: Pick<CustomRequest, 'get' | 'user'>): WriteOptions => {
+  const ifMatch = parseIfMatch(req.get('if-match'));
+  return {
+    ...(ifMatch !== undefined && { ifMatch }),
+    ...(req.user && { actor: req.user }),
+  };
+};
+
+// Fields each role may change with PUT and PATCH. They are checked against what the request
+// actually changes, which for a patch is only known once it has been applied.
+const UPDATABLE_FIELDS = {
+  admin: ['firstName', 'lastName', 'role'],
+  user: ['firstName', 'lastName'],
+} as const;
+
+const CHANGE_POLICIES: ChangePolicy<User>[] = [restrictChanges(UPDATABLE_FIELDS), cannotChangeOwnRole()];
+
+const replaceOptions = (req: Pick<CustomRequest, 'get' | 'user'>): ReplaceOptions => ({
+  ...writeOptions(req),
+  authorize: (current, changed): void => {
+    if (!req.user) {
+      throw new UnauthorizedError();
+    }
+    authorizeChanges(req.user, current, changed, CHANGE_POLICIES);
   },
-];
+});
+
+// Plain application/json is treated as a merge patch
+const PATCH_CONTENT_TYPES = [JSON_PATCH_CONTENT_TYPE, MERGE_PATCH_CONTENT_TYPE, 'application/json'];
+
+// Patches the user's JSON representation, then validates the result like a PUT body
+const applyPatch = (current: User, patch: (document: unknown) => unknown): UserReplacement => {
+  const document: unknown = JSON.parse(JSON.stringify(current));
+  const result = parse(userRepresentation, patch(document), {}, 'user');
+  if (!result.ok) {
+    throw new ValidationError(result.errors);
+  }
+  return result.value;
+};
+
+// ?role=admin&email=example&createdFrom=2024-01-01&createdTo=2024-12-31
+const parseUserFilter = ({ role, email, createdFrom, createdTo }: UserFilterQuery): UserFilter => {
+  if (createdFrom && createdTo && createdFrom > createdTo) {
+    throw new BadRequestError('"createdFrom" must not be after "createdTo"', 'INVALID_DATE_RANGE');
+  }
+
+  return {
+    ...(role !== undefined && { role }),
+    ...(email !== undefined && { email }),
+    ...(createdFrom !== undefined && { createdFrom }),
+    ...(createdTo !== undefined && { createdTo }),
+  };
+};
+
+const IMPORT_CONTENT_TYPES = [CSV_CONTENT_TYPE, NDJSON_CONTENT_TYPE];
+
+// Columns of a CSV export, in order
+const EXPORT_COLUMNS = ['id', 'email', 'firstName', 'lastName', 'role', 'version', 'createdAt', 'updatedAt'] as const;
+
+// Both formats are read into NDJSON's shape: a value per line, or why the line is unusable
+type ImportRecord = NdjsonRecord;
+
+// CSV rows become objects keyed by the header row; empty cells count as missing
+const readCsvRecords = (text: string): ImportRecord[] => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    throw new BadRequestError('Invalid CSV: the first line must name the columns', 'INVALID_CSV');
+  }
+
+  const columns = header.fields.map(column => column.trim());
+  return records.map(({ line, fields }) => fields.length === columns.length
+    ? {
+      line,
+      value: Object.fromEntries(
+        columns.map((column, index): [string, string] => [column, fields[index] ?? '']).filter(([, value]) => value !== '')
+      ),
+    }
+    : { line, error: `has ${fields.length} fields, but the header has ${columns.length}` });
+};
+
+// Parses the import body into rows to create and rows rejected before reaching the service
+const readImportRows = (req: CustomRequest): { total: number; rows: ImportRow[]; errors: ImportRowError[] } => {
+  const contentType = req.is(IMPORT_CONTENT_TYPES);
+  if (!contentType) {
+    throw new UnsupportedMediaTypeError(`Import requires one of: ${IMPORT_CONTENT_TYPES.join(', ')}`);
+  }
 
-export const getAllUsers = async (req: Request, res: Response): Promise<void> => {
+  const text = typeof req.body === 'string' ? req.body : '';
+  const records: ImportRecord[] = contentType === CSV_CONTENT_TYPE ? readCsvRecords(text) : parseNdjson(text);
+  if (records.length > config.userImportMaxRows) {
+    throw new PayloadTooLargeError(`An import may contain at most ${config.userImportMaxRows} rows`, 'TOO_MANY_ROWS');
+  }
+
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  for (const record of records) {
+    const { line } = record;
+    if ('error' in record) {
+      errors.push({ line, code: 'INVALID_ROW', message: `Line ${line} ${record.error}` });
+      continue;
+    }
+
+    const result = parse(importUserRow, record.value);
+    if (!result.ok) {
+      errors.push({ line, code: 'VALIDATION_FAILED', message: 'Row failed validation', errors: result.errors });
+      continue;
+    }
+    const { role, ...user } = result.value;
+    rows.push({ line, user: { ...user, role: role ?? 'user' } });
+  }
+
+  return { total: records.length, rows, errors };
+};
+
+async function* toCsv(users: AsyncIterable<User>): AsyncGenerator<string> {
+  yield formatCsvRow(EXPORT_COLUMNS);
+  for await (const user of users) {
+    yield formatCsvRow(EXPORT_COLUMNS.map(column => user[column]));
+  }
+}
+
+async function* toNdjson(users: AsyncIterable<User>): AsyncGenerator<string> {
+  for await (const user of users) {
+    yield formatNdjsonLine(user);
+  }
+}
+
+export const getAllUsers = async (req: ValidatedRequest<typeof listUsersRequest>, res: Response): Promise<void> => {
   try {
-    logger.info('Fetching all users', { ip: req.ip });
-    
-    // Simulate database operation
-    const users = mockUsers;
-    
-    sendSuccess(res, users, 'Users retrieved successfully');
+    getLogger().info({ ip: req.ip, query: req.query }, 'Fetching users');
+
+    const { page, cursor, ...pageParams } = parsePageParams(req.query, USER_SORT_FIELDS, DEFAULT_USER_SORT);
+    const result = await userService.list({
+      ...pageParams,
+      filter: parseUserFilter(req.query),
+      ...(cursor !== undefined && { cursor }),
+    });
+
+    sendPaginatedResponse(
+      res,
+      result.items,
+      result.totalCount,
+      page,
+      pageParams.limit,
+      'Users retrieved successfully',
+      result.nextCursor
+    );
   } catch (error) {
-    logger.error('Error fetching users', { error });
-    throw new AppError('Failed to fetch users', 500);
+    getLogger().error({ error }, 'Error fetching users');
+    throw error;
   }
 };
 
-export const getUserById = async (req: Request, res: Response): Promise<void> => {
+export const getUserById = async (req: ValidatedRequest<typeof getUserRequest>, res: Response): Promise<void> => {
+  const { id } = req.params;
+
   try {
-    const { id } = req.params;
-    
-    logger.info('Fetching user by ID', { userId: id, ip: req.ip });
-    
-    // Simulate database operation
-    const user = mockUsers.find(u => u.id === id);
-    
-    if (!user) {
-      throw new AppError('User not found', 404);
-    }
-    
+    getLogger().info({ userId: id, ip: req.ip }, 'Fetching user by ID');
+
+    const user = await userService.findById(id);
+
+    setETag(res, user);
     sendSuccess(res, user, 'User retrieved successfully');
   } catch (error) {
-    logger.error('Error fetching user', { error, userId: req.params.id });
+    getLogger().error({ error, userId: id }, 'Error fetching user');
     throw error;
   }
 };
 
-export const createUser = async (req: Request, res: Response): Promise<void> => {
+export const createUser = async (req: ValidatedRequest<typeof createUserRequest>, res: Response): Promise<void> => {
+  const { email, firstName, lastName, role, password } = req.body;
+
   try {
-    const { email, firstName, lastName, role } = req.body;
-    
-    logger.info('Creating new user', { email, ip: req.ip });
-    
-    // Check if user already exists
-    const existingUser = mockUsers.find(u => u.email === email);
-    if (existingUser) {
-      throw new AppError('User with this email already exists', 409);
-    }
-    
-    // Create new user
-    const newUser: User = {
-      id: (mockUsers.length + 1).toString(),
+    getLogger().info({ email, ip: req.ip }, 'Creating new user');
+
+    const newUser = await userService.create({
       email,
       firstName,
       lastName,
-      role: role || 'user',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-    
-    mockUsers.push(newUser);
-    
-    logger.info('User created successfully', { userId: newUser.id });
+      role: role ?? 'user',
+      ...(password !== undefined && { password }),
+    }, writeOptions(req));
+
+    setETag(res, newUser);
     sendSuccess(res, newUser, 'User created successfully', 201);
   } catch (error) {
-    logger.error('Error creating user', { error, email: req.body.email });
+    getLogger().error({ error, email }, 'Error creating user');
     throw error;
   }
 };
 
-export const updateUser = async (req: Request, res: Response): Promise<void> => {
+export const replaceUser = async (req: ValidatedRequest<typeof replaceUserRequest>, res: Response): Promise<void> => {
+  const { id } = req.params;
+
   try {
-    const { id } = req.params;
-    const { firstName, lastName, role } = req.body;
-    
-    logger.info('Updating user', { userId: id, ip: req.ip });
-    
-    // Find user
-    const userIndex = mockUsers.findIndex(u => u.id === id);
-    if (userIndex === -1) {
-      throw new AppError('User not found', 404);
-    }
-    
-    // Update user
-    const updatedUser = {
-      ...mockUsers[userIndex],
-      firstName: firstName || mockUsers[userIndex].firstName,
-      lastName: lastName || mockUsers[userIndex].lastName,
-      role: role || mockUsers[userIndex].role,
-      updatedAt: new Date(),
-    };
-    
-    mockUsers[userIndex] = updatedUser;
-    
-    logger.info('User updated successfully', { userId: id });
+    getLogger().info({ userId: id, ip: req.ip }, 'Replacing user');
+
+    const updatedUser = await userService.replace(id, () => req.body, replaceOptions(req));
+
+    setETag(res, updatedUser);
     sendSuccess(res, updatedUser, 'User updated successfully');
   } catch (error) {
-    logger.error('Error updating user', { error, userId: req.params.id });
+    getLogger().error({ error, userId: id }, 'Error replacing user');
     throw error;
   }
 };
 
-export const deleteUser = async (req: Request, res: Response): Promise<void> => {
+export const patchUser = async (req: ValidatedRequest<typeof patchUserRequest>, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  const contentType = req.is(PATCH_CONTENT_TYPES);
+  if (!contentType) {
+    res.set('Accept-Patch', PATCH_CONTENT_TYPES.join(', '));
+    throw new UnsupportedMediaTypeError(`PATCH requires one of: ${PATCH_CONTENT_TYPES.join(', ')}`);
+  }
+
+  // Malformed JSON Patch documents are rejected before the user is loaded
+  const operations = contentType === JSON_PATCH_CONTENT_TYPE ? parseJsonPatch(req.body) : null;
+
   try {
-    const { id } = req.params;
-    
-    logger.info('Deleting user', { userId: id, ip: req.ip });
-    
-    // Find user
-    const userIndex = mockUsers.findIndex(u => u.id === id);
-    if (userIndex === -1) {
-      throw new AppError('User not found', 404);
-    }
-    
-    // Remove user
-    const deletedUser = mockUsers.splice(userIndex, 1)[0];
-    
-    logger.info('User deleted successfully', { userId: id });
+    getLogger().info({ userId: id, ip: req.ip, contentType }, 'Patching user');
+
+    const updatedUser = await userService.replace(
+      id,
+      current => applyPatch(current, document =>
+        operations ? applyJsonPatch(document, operations) : applyMergePatch(document, req.body)
+      ),
+      replaceOptions(req)
+    );
+
+    setETag(res, updatedUser);
+    sendSuccess(res, updatedUser, 'User updated successfully');
+  } catch (error) {
+    getLogger().error({ error, userId: id }, 'Error patching user');
+    throw error;
+  }
+};
+
+export const deleteUser = async (req: ValidatedRequest<typeof deleteUserRequest>, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    getLogger().info({ userId: id, ip: req.ip }, 'Deleting user');
+
+    const deletedUser = await userService.delete(id, writeOptions(req));
+
     sendSuccess(res, deletedUser, 'User deleted successfully');
   } catch (error) {
-    logger.error('Error deleting user', { error, userId: req.params.id });
+    getLogger().error({ error, userId: id }, 'Error deleting user');
+    throw error;
+  }
+};
+
+export const restoreUser = async (req: ValidatedRequest<typeof restoreUserRequest>, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    getLogger().info({ userId: id, ip: req.ip }, 'Restoring user');
+
+    const restoredUser = await userService.restore(id, writeOptions(req));
+
+    setETag(res, restoredUser);
+    sendSuccess(res, restoredUser, 'User restored successfully');
+  } catch (error) {
+    getLogger().error({ error, userId: id }, 'Error restoring user');
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export const getUserHistory = async (req: ValidatedRequest<typeof userHistoryRequest>, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    getLogger().info({ userId: id, ip: req.ip }, 'Fetching user history');
+
+    const history = await userService.history(id);
+
+    sendSuccess(res, history, 'User history retrieved successfully');
+  } catch (error) {
+    getLogger().error({ error, userId: id }, 'Error fetching user history');
+    throw error;
+  }
+};
+
+export const importUsers = async (req: CustomRequest, res: Response): Promise<void> => {
+  const { total, rows, errors } = readImportRows(req);
+
+  try {
+    getLogger().info({ ip: req.ip, total, valid: rows.length }, 'Importing users');
+
+    const result = await userService.importUsers(rows, writeOptions(req));
+    const rowErrors = [...errors, ...result.errors].sort((a, b) => a.line - b.line);
+
+    sendSuccess(res, {
+      total,
+      created: result.created.length,
+      failed: rowErrors.length,
+      errors: rowErrors,
+    }, `Imported ${result.created.length} of ${total} users`);
+  } catch (error) {
+    getLogger().error({ error }, 'Error importing users');
+    throw error;
+  }
+};
+
+export const exportUsers = async (req: ValidatedRequest<typeof exportUsersRequest>, res: Response): Promise<void> => {
+  const { format = 'csv', sort, ...filterQuery } = req.query;
+  const users = userService.stream(parseUserFilter(filterQuery), parseSort(sort, USER_SORT_FIELDS, DEFAULT_USER_SORT));
+
+  try {
+    getLogger().info({ ip: req.ip, query: req.query }, 'Exporting users');
+
+    res.status(200).type(format === 'csv' ? CSV_CONTENT_TYPE : NDJSON_CONTENT_TYPE).attachment(`users.${format}`);
+    await streamResponse(res, format === 'csv' ? toCsv(users) : toNdjson(users));
+  } catch (error) {
+    getLogger().error({ error }, 'Error exporting users');
+    // Once rows have been sent the status can't change; cut the response short instead
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return;
+    }
+    throw error;
+  }
+};
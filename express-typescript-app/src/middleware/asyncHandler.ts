@@ -1,9 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
-import { AsyncRouteHandler } from '@/types';
+import { AsyncRouteHandler, CustomRequest } from '@/types';
 
-// Wrapper for async route handlers to catch errors
-export const asyncHandler = (fn: AsyncRouteHandler) => {
+// Wrapper for async route handlers to catch errors. Handlers may declare the request
+// shape produced by validate(); the route is responsible for running that validation first.
+export const asyncHandler = <R = CustomRequest>(fn: AsyncRouteHandler<R>) => {
   return (req: Request, res: Response, next: NextFunction): void => {
-    Promise.resolve(fn(req, res)).catch(next);
+    Promise.resolve(fn(req as unknown as R, res)).catch(next);
   };
 };
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { CustomRequest } from '@/types';
+import { TokenService, tokenService } from '@/services/tokenService';
+import { UnauthorizedError } from '@/utils/errors';
+
+// Verifies the Bearer access token and attaches its user to req.user.
+// Invalid and expired tokens surface as JsonWebTokenError/TokenExpiredError (401).
+export const createAuthenticate = (tokens: TokenService) => {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    const header = req.get('authorization');
+    const [scheme, token] = header?.split(' ') ?? [];
+
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      throw new UnauthorizedError();
+    }
+
+    (req as CustomRequest).user = tokens.verifyAccessToken(token);
+    next();
+  };
+};
+
+export const authenticate = createAuthenticate(tokenService);
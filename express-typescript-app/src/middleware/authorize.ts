@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthUser, CustomRequest } from '@/types';
+import { ForbiddenError, UnauthorizedError } from '@/utils/errors';
+
+// A policy returns true to allow the request, or the reason it is denied
+export type PolicyResult = true | string;
+export type Policy = (user: AuthUser, req: CustomRequest) => PolicyResult;
+
+type Role = AuthUser['role'];
+
+// Runs after authenticate; every policy must allow the request, otherwise 403
+export const authorize = (...policies: Policy[]) => {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    const { user } = req as CustomRequest;
+    if (!user) {
+      throw new UnauthorizedError();
+    }
+
+    for (const policy of policies) {
+      const result = policy(user, req as CustomRequest);
+      if (result !== true) {
+        throw new ForbiddenError(result);
+      }
+    }
+
+    next();
+  };
+};
+
+export const requireRole = (...roles: Role[]): Policy => user =>
+  roles.includes(user.role) || `Requires role: ${roles.join(' or ')}`;
+
+// The authenticated user is the one addressed by the route parameter
+export const isSelf = (param = 'id'): Policy => (user, req) =>
+  req.params[param] === user.id || 'You may only access your own account';
+
+export const anyOf = (...policies: Policy[]): Policy => (user, req) => {
+  let reason: PolicyResult = 'Forbidden';
+  for (const policy of policies) {
+    reason = policy(user, req);
+    if (reason === true) {
+      return true;
+    }
+  }
+  return reason;
+};
+
+// Checked once the fields a write changes are known, e.g. after a patch has been applied
+export type ChangePolicy<T> = (user: AuthUser, target: T, changed: readonly string[]) => PolicyResult;
+
+// Throws 403 unless every change policy allows the change
+export const authorizeChanges = <T>(
+  user: AuthUser,
+  target: T,
+  changed: readonly string[],
+  policies: readonly ChangePolicy<T>[]
+): void => {
+  for (const policy of policies) {
+    const result = policy(user, target, changed);
+    if (result !== true) {
+      throw new ForbiddenError(result);
+    }
+  }
+};
+
+// Only the listed fields may change, per role; roles without an entry may change nothing
+export const restrictChanges = (allowed: Partial<Record<Role, readonly string[]>>): ChangePolicy<unknown> =>
+  (user, _target, changed) => {
+    const permitted = allowed[user.role] ?? [];
+    const denied = changed.filter(field => !permitted.includes(field));
+
+    return denied.length === 0 || `Role '${user.role}' may not change: ${denied.join(', ')}`;
+  };
+
+// Nobody may change their own role, whatever their permissions on other accounts
+export const cannotChangeOwnRole = (): ChangePolicy<{ id: string }> => (user, target, changed) =>
+  !(changed.includes('role') && target.id === user.id) || 'You may not change your own role';
@@ -1,97 +1,96 @@
 import { Request, Response, NextFunction } from 'express';
-import { logger } from '@/config/logger';
 import { config } from '@/config/app';
-import { ErrorResponse } from '@/types';
+import { ErrorResponse, ProblemDetails } from '@/types';
+import { getLogger, getRequestContext } from '@/utils/requestContext';
+import { redactor } from '@/utils/redact';
+import { AppError, NotFoundError, RateLimitedError, ValidationError, toAppError } from '@/utils/errors';
 
-export class AppError extends Error {
-  public statusCode: number;
-  public isOperational: boolean;
+const PROBLEM_JSON = 'application/problem+json';
 
-  constructor(message: string, statusCode: number = 500) {
-    super(message);
-    this.statusCode = statusCode;
-    this.isOperational = true;
+// Set by the requestId middleware; also available outside its async context (e.g. body parser errors)
+const getRequestId = (req: Request): string | undefined =>
+  getRequestContext()?.requestId ?? (req.id === undefined ? undefined : String(req.id));
 
-    Error.captureStackTrace(this, this.constructor);
-  }
-}
+// NOT_FOUND -> <base>/not-found
+const problemType = (code: string): string =>
+  `${config.problemTypeBaseUrl}/${code.toLowerCase().replace(/_/g, '-')}`;
+
+const toProblem = (error: AppError, req: Request, stack: string | undefined): ProblemDetails => {
+  const requestId = getRequestId(req);
+  return {
+    type: problemType(error.code),
+    title: error.title,
+    status: error.statusCode,
+    detail: error.message,
+    instance: req.originalUrl,
+    code: error.code,
+    ...(requestId !== undefined && { requestId }),
+    ...(error instanceof ValidationError && { errors: error.errors }),
+    ...(stack !== undefined && { stack }),
+  };
+};
+
+// The original envelope; `error` keeps carrying the raw error message as it always has
+const toErrorResponse = (error: AppError, original: Error, req: Request, stack: string | undefined): ErrorResponse => {
+  const requestId = getRequestId(req);
+  return {
+    success: false,
+    message: error.message,
+    error: original.message,
+    code: error.code,
+    ...(requestId !== undefined && { requestId }),
+    ...(error instanceof ValidationError && { errors: error.errors }),
+    timestamp: new Date().toISOString(),
+    ...(stack !== undefined && { stack }),
+  };
+};
 
+// Renders application/problem+json for clients that ask for it, the ErrorResponse envelope otherwise
 export const errorHandler = (
-  err: Error | AppError,
+  err: Error,
   req: Request,
   res: Response,
   _next: NextFunction
 ): void => {
-  let error = { ...err } as AppError;
-  error.message = err.message;
+  const error = toAppError(err);
 
   // Log error
-  logger.error({
-    err: error,
+  getLogger()[error.statusCode >= 500 ? 'error' : 'warn']({
+    err,
+    code: error.code,
     req: {
       method: req.method,
-      url: req.url,
-      headers: req.headers,
-      body: req.body,
+      url: redactor.url(req.url),
+      headers: redactor.headers(req.headers),
+      body: redactor.body(req.body),
     },
   }, 'Error occurred');
 
-  // Default error values
-  let statusCode = 500;
-  let message = 'Internal Server Error';
+  // Include stack trace in development
+  const stack = config.isDevelopment ? err.stack : undefined;
 
-  // Handle specific error types
-  if (error instanceof AppError) {
-    statusCode = error.statusCode;
-    message = error.message;
-  } else if (error.name === 'ValidationError') {
-    statusCode = 400;
-    message = 'Validation Error';
-  } else if (error.name === 'CastError') {
-    statusCode = 400;
-    message = 'Resource not found';
-  } else if (error.name === 'JsonWebTokenError') {
-    statusCode = 401;
-    message = 'Invalid token';
-  } else if (error.name === 'TokenExpiredError') {
-    statusCode = 401;
-    message = 'Token expired';
+  if (error instanceof RateLimitedError && error.retryAfterSeconds !== undefined) {
+    res.set('Retry-After', String(Math.ceil(error.retryAfterSeconds)));
   }
 
-  const errorResponse: ErrorResponse = {
-    success: false,
-    message,
-    error: error.message,
-    timestamp: new Date().toISOString(),
-  };
-
-  // Include stack trace in development
-  if (config.isDevelopment) {
-    errorResponse.stack = error.stack;
+  res.status(error.statusCode);
+  if (req.accepts(['application/json', PROBLEM_JSON]) === PROBLEM_JSON) {
+    res.type(PROBLEM_JSON).json(toProblem(error, req, stack));
+  } else {
+    res.json(toErrorResponse(error, err, req, stack));
   }
-
-  res.status(statusCode).json(errorResponse);
 };
 
 export const notFoundHandler = (
   req: Request,
-  res: Response,
-  _next: NextFunction
+  _res: Response,
+  next: NextFunction
 ): void => {
-  const error = new AppError(`Route ${req.originalUrl} not found`, 404);
-  
-  logger.warn({
+  getLogger().warn({
     method: req.method,
     url: req.originalUrl,
     ip: req.ip,
   }, 'Route not found');
 
-  const errorResponse: ErrorResponse = {
-    success: false,
-    message: 'Route not found',
-    error: error.message,
-    timestamp: new Date().toISOString(),
-  };
-
-  res.status(404).json(errorResponse);
-};
\ No newline at end of file
+  next(new NotFoundError(`Route ${req.originalUrl} not found`, 'ROUTE_NOT_FOUND'));
+};
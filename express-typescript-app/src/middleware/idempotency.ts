@@ -0,0 +1,128 @@
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { config } from '@/config/app';
+import { CustomRequest } from '@/types';
+import { IdempotencyStore, StoredResponse } from '@/stores/idempotencyStore';
+import { MemoryIdempotencyStore } from '@/stores/memoryIdempotencyStore';
+import { BadRequestError, ConflictError, UnprocessableEntityError } from '@/utils/errors';
+import { getLogger } from '@/utils/requestContext';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const VALID_KEY = /^[\x21-\x7e]{1,255}$/;
+
+// Client errors that say "not now" rather than "never": 409 (e.g. a conflicting write in
+// progress) and 429 (rate limited). Replaying them would fail every retry until the key expires.
+const TRANSIENT_STATUSES = [409, 429];
+
+const isReplayable = (statusCode: number): boolean => statusCode < 500 && !TRANSIENT_STATUSES.includes(statusCode);
+
+export interface IdempotencyOptions {
+  // How long a completed response is replayed
+  ttlMs?: number;
+  store?: IdempotencyStore;
+  // Reject requests without the header instead of running them unprotected
+  required?: boolean;
+}
+
+// Key order doesn't change a JSON payload, so it mustn't change the fingerprint either
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const fingerprint = (req: Request): string =>
+  createHash('sha256').update(`${req.method} ${req.originalUrl}\n${canonicalJson(req.body ?? null)}`).digest('hex');
+
+// Keys are scoped to the caller and route, so one client can't replay another's response
+const scopedKey = (req: CustomRequest, key: string): string =>
+  `${req.user?.id ?? 'anonymous'}:${req.method}:${req.baseUrl}${req.path}:${key}`;
+
+// Makes a write endpoint safe to retry. The first JSON response (status and body) sent for an
+// Idempotency-Key is stored and replayed for repeats of the key with the same payload; a repeat
+// while the first request is still running gets 409, a repeat with another payload 422.
+// 5xx, 409 and 429 responses are not stored, so the client can retry them. Rate limiters belong
+// before this middleware, so a throttled request doesn't claim the key at all.
+export const idempotency = (options: IdempotencyOptions = {}): RequestHandler => {
+  const {
+    ttlMs = config.idempotencyTtlMs,
+    store = new MemoryIdempotencyStore(),
+    required = false,
+  } = options;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const header = req.get(IDEMPOTENCY_KEY_HEADER);
+    if (header === undefined) {
+      next(required ? new BadRequestError(`${IDEMPOTENCY_KEY_HEADER} header is required`, 'IDEMPOTENCY_KEY_REQUIRED') : undefined);
+      return;
+    }
+    if (!VALID_KEY.test(header)) {
+      next(new BadRequestError(`${IDEMPOTENCY_KEY_HEADER} must be 1-255 printable characters`, 'INVALID_IDEMPOTENCY_KEY'));
+      return;
+    }
+
+    const key = scopedKey(req as CustomRequest, header);
+    const requestFingerprint = fingerprint(req);
+
+    store.begin(key, requestFingerprint, ttlMs).then(existing => {
+      if (existing && existing.fingerprint !== requestFingerprint) {
+        next(new UnprocessableEntityError(
+          `${IDEMPOTENCY_KEY_HEADER} was already used with a different request payload`,
+          'IDEMPOTENCY_KEY_REUSED'
+        ));
+        return;
+      }
+      if (existing?.state === 'in-flight') {
+        next(new ConflictError(
+          `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`,
+          'IDEMPOTENCY_KEY_IN_USE'
+        ));
+        return;
+      }
+      if (existing?.state === 'completed') {
+        getLogger().info({ statusCode: existing.response.statusCode }, 'Replaying idempotent response');
+        res.set(IDEMPOTENT_REPLAYED_HEADER, 'true');
+        if (existing.response.contentType) {
+          res.type(existing.response.contentType);
+        }
+        res.status(existing.response.statusCode).json(existing.response.body);
+        return;
+      }
+
+      let settled = false;
+      const settle = (response?: StoredResponse): void => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        const stored = response ? store.complete(key, response, ttlMs) : store.release(key);
+        stored.catch(err => getLogger().warn({ err }, 'Failed to update idempotency key'));
+      };
+
+      // Record the response as it is sent, so a retry arriving right after it sees the result
+      const json = res.json.bind(res);
+      res.json = (body: unknown): Response => {
+        // Stored as a JSON snapshot, the way a shared store would keep it
+        const snapshot: unknown = JSON.parse(JSON.stringify(body ?? null));
+        const contentType = res.get('Content-Type');
+        settle(isReplayable(res.statusCode)
+          ? { statusCode: res.statusCode, body: snapshot, ...(contentType !== undefined && { contentType }) }
+          : undefined);
+        return json(body);
+      };
+      // Non-JSON responses and aborted requests are not replayable
+      res.on('close', () => settle());
+
+      next();
+    }, next);
+  };
+};
@@ -0,0 +1,58 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { UnauthorizedError } from '@/utils/errors';
+import { metrics } from '@/utils/metrics';
+
+export const httpRequestDuration = metrics.histogram(
+  'http_request_duration_seconds',
+  'HTTP request latency in seconds',
+  ['method', 'route', 'status_code']
+);
+
+// The route template (/api/v1/users/:id) rather than the concrete path, so ids don't
+// explode the label cardinality. req.route only holds the path relative to its router,
+// so the mount prefix is recovered by dropping as many trailing segments from the URL.
+export const routeLabel = (req: Request): string => {
+  const route: unknown = (req.route as { path?: unknown } | undefined)?.path;
+  if (route === undefined) {
+    return 'unmatched';
+  }
+  if (typeof route !== 'string') {
+    return 'unknown';
+  }
+
+  const segments = (req.originalUrl.split('?')[0] ?? '').split('/').filter(Boolean);
+  const routeSegments = route.split('/').filter(Boolean);
+  const prefix = segments.slice(0, segments.length - routeSegments.length).join('/');
+
+  return `/${[prefix, ...routeSegments].filter(Boolean).join('/')}`;
+};
+
+// Observes every response's latency once it has been sent
+export const httpMetrics = (req: Request, res: Response, next: NextFunction): void => {
+  const end = httpRequestDuration.startTimer({ method: req.method });
+
+  res.on('finish', () => {
+    end({ route: routeLabel(req), status_code: res.statusCode });
+  });
+
+  next();
+};
+
+const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+
+// Guards the scrape endpoint, which exposes route names, request counts and breaker state:
+// scrapers must send the token as `Authorization: Bearer <token>`
+export const requireMetricsToken = (token: string): RequestHandler => {
+  const expected = digest(token);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const [scheme, credentials] = (req.get('Authorization') ?? '').split(' ');
+    if (scheme !== 'Bearer' || !credentials || !timingSafeEqual(digest(credentials), expected)) {
+      res.set('WWW-Authenticate', 'Bearer realm="metrics"');
+      next(new UnauthorizedError('A valid metrics token is required'));
+      return;
+    }
+    next();
+  };
+};
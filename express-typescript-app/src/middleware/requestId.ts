@@ -0,0 +1,56 @@
+import { AsyncResource } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { createChildLogger } from '@/config/logger';
+import { RequestContext, runWithRequestContext } from '@/utils/requestContext';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Client-supplied ids are kept only if they are short and printable
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// version-traceid-parentid-flags, e.g. 00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+interface TraceParent {
+  traceId: string;
+  parentSpanId: string;
+}
+
+export const parseTraceparent = (header: string | undefined): TraceParent | undefined => {
+  const match = header ? TRACEPARENT_PATTERN.exec(header.trim().toLowerCase()) : null;
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId = '', parentSpanId = ''] = match;
+  if (version === 'ff' || /^0+$/.test(traceId) || /^0+$/.test(parentSpanId)) {
+    return undefined;
+  }
+  return { traceId, parentSpanId };
+};
+
+// Accepts X-Request-Id from the client or generates one, echoes it back and runs the rest of
+// the request inside an AsyncLocalStorage context so getLogger() returns a child logger bound
+// to the request (and trace) id.
+export const requestId = (req: Request, res: Response, next: NextFunction): void => {
+  const supplied = req.get(REQUEST_ID_HEADER);
+  const id = supplied && REQUEST_ID_PATTERN.test(supplied) ? supplied : randomUUID();
+  const trace = parseTraceparent(req.get('traceparent'));
+
+  const context: RequestContext = {
+    requestId: id,
+    ...trace,
+    logger: createChildLogger({ requestId: id, ...(trace && { traceId: trace.traceId }) }),
+  };
+
+  req.id = id;
+  res.set(REQUEST_ID_HEADER, id);
+
+  runWithRequestContext(context, next);
+};
+
+// Middleware that finishes from stream or socket callbacks (body parsers) would otherwise
+// drop the request context; bind `next` to the context it was called in.
+export const preserveContext = (middleware: RequestHandler): RequestHandler =>
+  (req, res, next) => middleware(req, res, AsyncResource.bind(next));
@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { config, ResponseValidationMode } from '@/config/app';
+import { routeLabel } from '@/middleware/metrics';
+import { defaultErrorResponse, findOperation, OpenApiDocument, resolveRef, ResponseObject } from '@/openapi/document';
+import { JsonSchema } from '@/openapi/jsonSchema';
+import { validateJson } from '@/openapi/validator';
+import { FieldError } from '@/types';
+import { getLogger } from '@/utils/requestContext';
+
+export interface ResponseValidationOptions {
+  mode?: ResponseValidationMode;
+  // Where the documented routes are mounted, stripped from the route to find its operation
+  basePath?: string;
+}
+
+const MAX_REPORTED = 5;
+
+// The schema the document gives for this status and media type; errors fall back to `default`
+const schemaFor = (response: ResponseObject | undefined, contentType: string): JsonSchema | undefined =>
+  response?.content?.[contentType.split(';')[0]?.trim() ?? '']?.schema;
+
+// Checks every JSON response against the OpenAPI document, so the document can't drift from
+// what the API sends. 'warn' logs violations; 'fail' also replaces the response with a 500
+// CONTRACT_VIOLATION error, which is what the test suite runs with.
+export const responseValidation = (getDocument: () => OpenApiDocument, options: ResponseValidationOptions = {}): RequestHandler => {
+  const { mode = config.openApiResponseValidation, basePath = '' } = options;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (mode === 'off') {
+      next();
+      return;
+    }
+
+    const json = res.json.bind(res);
+    res.json = (body: unknown): Response => {
+      const document = getDocument();
+      const route = routeLabel(req);
+      const operation = route.startsWith(basePath)
+        ? findOperation(document, req.method, route.slice(basePath.length) || '/')
+        : undefined;
+
+      const status = res.statusCode;
+      const documented = operation?.responses[String(status)]
+        ?? (status >= 400 ? operation?.responses['default'] ?? defaultErrorResponse : undefined);
+      const contentType = res.get('Content-Type') ?? 'application/json';
+      const schema = schemaFor(documented, contentType);
+
+      const violations: FieldError[] = schema
+        ? validateJson(schema, JSON.parse(JSON.stringify(body ?? null)), resolveRef(document), 'body')
+        : [{ path: 'status', message: `${status} ${contentType} is not documented for ${req.method} ${route}` }];
+
+      if (violations.length === 0) {
+        return json(body);
+      }
+
+      getLogger().warn({ route, status, violations }, 'Response does not match the OpenAPI document');
+      if (mode === 'warn') {
+        return json(body);
+      }
+
+      const listed = violations.slice(0, MAX_REPORTED).map(({ path, message }) => `${path} ${message}`).join('; ');
+      const message = `Response to ${req.method} ${route} does not match the OpenAPI document: ${listed}`;
+      res.status(500);
+      return json({
+        success: false,
+        message,
+        error: message,
+        code: 'CONTRACT_VIOLATION',
+        errors: violations,
+        timestamp: new Date().toISOString(),
+      });
+    };
+
+    next();
+  };
+};
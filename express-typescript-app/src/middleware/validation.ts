@@ -1,53 +1,77 @@
-import { Request, Response, NextFunction } from 'express';
-import { AppError } from './errorHandler';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { CustomRequest, FieldError } from '@/types';
+import { Infer, ObjectSchema, parse } from '@/utils/schema';
+import { PayloadTooLargeError, ValidationError } from '@/utils/errors';
 
-// Simple validation middleware example
-export const validateRequiredFields = (fields: string[]) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const missingFields: string[] = [];
+export interface RequestSchema {
+  body?: ObjectSchema;
+  params?: ObjectSchema;
+  query?: ObjectSchema;
+}
 
-    for (const field of fields) {
-      if (!req.body[field]) {
-        missingFields.push(field);
+type Validated<S, Fallback> = S extends ObjectSchema ? Infer<S> : Fallback;
+
+// The request as seen by a handler behind validate(schema)
+export type ValidatedRequest<S extends RequestSchema> = Omit<CustomRequest, 'body' | 'params' | 'query'> & {
+  body: Validated<S['body'], unknown>;
+  params: Validated<S['params'], Record<string, string>>;
+  query: Validated<S['query'], Record<string, unknown>>;
+};
+
+const PARTS = ['params', 'query', 'body'] as const;
+
+const REQUEST_SCHEMA = Symbol('requestSchema');
+
+// A validate() middleware, carrying the schemas it checks
+export type ValidationMiddleware = RequestHandler & { [REQUEST_SCHEMA]: RequestSchema };
+
+// The schemas a validate() middleware checks, so the route can be documented from them
+export const requestSchemaOf = (handler: unknown): RequestSchema | undefined =>
+  typeof handler === 'function' ? (handler as { [REQUEST_SCHEMA]?: RequestSchema })[REQUEST_SCHEMA] : undefined;
+
+// Validates params, query and body against their schemas and replaces them with the parsed
+// values: unknown fields stripped, query/params coerced. All violations are reported together.
+export const validate = (schemas: RequestSchema): ValidationMiddleware => {
+  const middleware = (req: Request, _res: Response, next: NextFunction): void => {
+    const errors: FieldError[] = [];
+    const parsed: Partial<Record<typeof PARTS[number], unknown>> = {};
+
+    for (const part of PARTS) {
+      const partSchema = schemas[part];
+      if (!partSchema) {
+        continue;
+      }
+
+      // A missing JSON body is validated as an empty object so required fields are reported
+      const input: unknown = part === 'body' ? req.body ?? {} : req[part];
+      const result = parse(partSchema, input, { coerce: part !== 'body' }, part);
+      if (result.ok) {
+        parsed[part] = result.value;
+      } else {
+        errors.push(...result.errors);
       }
     }
 
-    if (missingFields.length > 0) {
-      throw new AppError(
-        `Missing required fields: ${missingFields.join(', ')}`,
-        400
-      );
+    if (errors.length > 0) {
+      throw new ValidationError(errors);
     }
 
+    Object.assign(req, parsed);
     next();
   };
-};
-
-// Email validation middleware
-export const validateEmail = (req: Request, res: Response, next: NextFunction): void => {
-  const { email } = req.body;
-  
-  if (!email) {
-    throw new AppError('Email is required', 400);
-  }
 
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  if (!emailRegex.test(email)) {
-    throw new AppError('Invalid email format', 400);
-  }
-
-  next();
+  return Object.assign(middleware, { [REQUEST_SCHEMA]: schemas });
 };
 
 // Request body size validation
 export const validateBodySize = (maxSize: number) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
+  return (req: Request, _res: Response, next: NextFunction): void => {
     const contentLength = req.get('content-length');
-    
+
     if (contentLength && parseInt(contentLength) > maxSize) {
-      throw new AppError('Request body too large', 413);
+      throw new PayloadTooLargeError();
     }
 
     next();
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,150 @@
+// adaptiveThrottle.ts
+import { ThrottleOptions, ThrottleSnapshot } from './types';
+
+type ResolvedOptions = Required<ThrottleOptions>;
+
+const resolveOptions = (maxConcurrency: number, maxBatchSize: number, options: ThrottleOptions): ResolvedOptions => ({
+  minConcurrency: Math.min(options.minConcurrency ?? 1, maxConcurrency),
+  minBatchSize: Math.min(options.minBatchSize ?? 10, maxBatchSize),
+  decreaseFactor: options.decreaseFactor ?? 0.5,
+  batchSizeStep: options.batchSizeStep ?? Math.ceil(maxBatchSize / 10),
+  minRetries: options.minRetries ?? 10,
+  retryRatio: options.retryRatio ?? 0.2
+});
+
+const validateOptions = (options: ResolvedOptions): string[] => {
+  const errors: string[] = [];
+  if (!(options.minConcurrency >= 1)) {
+    errors.push('minConcurrency must be at least 1');
+  }
+  if (!(options.minBatchSize >= 1)) {
+    errors.push('minBatchSize must be at least 1');
+  }
+  if (!(options.decreaseFactor > 0 && options.decreaseFactor < 1)) {
+    errors.push('decreaseFactor must be between 0 and 1');
+  }
+  if (!(options.batchSizeStep > 0)) {
+    errors.push('batchSizeStep must be a positive number');
+  }
+  if (!(options.minRetries >= 0 && options.retryRatio >= 0)) {
+    errors.push('minRetries and retryRatio must not be negative');
+  }
+  return errors;
+};
+
+/**
+ * AIMD controller shared by the batches of one insertManyBatched run.
+ *
+ * A throttled response multiplies concurrency and batch size by `decreaseFactor`, once per
+ * generation: batches sent before the last cut report the same overload and don't cut again.
+ * Each successful insert grows concurrency by 1/concurrency (about one per round of batches)
+ * and the batch size by `batchSizeStep`, up to the configured maximums.
+ *
+ * The server's retry-after hint pauses every batch, not just the throttled one, and retries
+ * draw on a budget that only grows with new batches, so retries can't snowball.
+ */
+export class AdaptiveThrottle {
+  private readonly options: ResolvedOptions;
+  private concurrency: number;
+  private batchSize: number;
+  private generation = 0;
+  private pausedUntil = 0;
+  private retryTokens: number;
+  private throttled = 0;
+
+  constructor(
+    private readonly maxConcurrency: number,
+    private readonly maxBatchSize: number,
+    options: ThrottleOptions = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.options = resolveOptions(maxConcurrency, maxBatchSize, options);
+    const errors = validateOptions(this.options);
+    if (errors.length > 0) {
+      throw new Error(`Invalid throttle options: ${errors.join(', ')}`);
+    }
+
+    this.concurrency = maxConcurrency;
+    this.batchSize = maxBatchSize;
+    this.retryTokens = this.options.minRetries;
+  }
+
+  /**
+   * Batches that may be in flight
+   */
+  getConcurrency(): number {
+    return Math.floor(this.concurrency);
+  }
+
+  /**
+   * Documents to put in the next batch
+   */
+  getBatchSize(): number {
+    return Math.floor(this.batchSize);
+  }
+
+  /**
+   * Identifies the current settings; pass it back to onThrottled() for a request sent now
+   */
+  getGeneration(): number {
+    return this.generation;
+  }
+
+  /**
+   * How long to wait before sending anything, following the last retry-after hint
+   */
+  getPauseMs(): number {
+    return Math.max(0, this.pausedUntil - this.now());
+  }
+
+  /**
+   * Count a new batch, adding to the retry budget
+   */
+  recordBatch(): void {
+    this.retryTokens += this.options.retryRatio;
+  }
+
+  /**
+   * Take a retry from the budget; false when it's spent
+   */
+  tryRetry(): boolean {
+    if (this.retryTokens < 1) {
+      return false;
+    }
+    this.retryTokens--;
+    return true;
+  }
+
+  /**
+   * A request sent in `generation` was throttled
+   */
+  onThrottled(generation: number, retryAfterMs?: number): void {
+    this.throttled++;
+    if (retryAfterMs !== undefined) {
+      this.pausedUntil = Math.max(this.pausedUntil, this.now() + retryAfterMs);
+    }
+
+    if (generation === this.generation) {
+      this.generation++;
+      this.concurrency = Math.max(this.options.minConcurrency, this.concurrency * this.options.decreaseFactor);
+      this.batchSize = Math.max(this.options.minBatchSize, this.batchSize * this.options.decreaseFactor);
+    }
+  }
+
+  /**
+   * A request went through without being throttled
+   */
+  onSuccess(): void {
+    this.concurrency = Math.min(this.maxConcurrency, this.concurrency + 1 / this.concurrency);
+    this.batchSize = Math.min(this.maxBatchSize, this.batchSize + this.options.batchSizeStep);
+  }
+
+  getSnapshot(): ThrottleSnapshot {
+    return {
+      concurrency: this.getConcurrency(),
+      batchSize: this.getBatchSize(),
+      throttled: this.throttled,
+      retryBudget: Math.floor(this.retryTokens)
+    };
+  }
+}
@@ -0,0 +1,325 @@
+// circuitBreaker.ts
+import { getLogger } from '@/utils/requestContext';
+import { metrics } from '@/utils/metrics';
+import { CircuitBreakerConfig, CircuitBreakerState, CircuitState, StateChangeListener } from './types';
+import { CircuitBreakerError } from './errors';
+import { CountWindow, createSlidingWindow, SlidingWindow, WindowSnapshot } from './slidingWindow';
+
+const transitions = metrics.counter(
+  'circuit_breaker_transitions_total',
+  'Circuit breaker state transitions',
+  ['breaker', 'from', 'to']
+);
+
+const stateGauge = metrics.gauge(
+  'circuit_breaker_state',
+  'Current circuit breaker state (0 = closed, 1 = half-open, 2 = open)',
+  ['breaker']
+);
+
+const STATE_VALUES: Record<CircuitState, number> = {
+  CLOSED: 0,
+  HALF_OPEN: 1,
+  OPEN: 2,
+};
+
+type ResolvedConfig = Required<Omit<CircuitBreakerConfig, 'threshold'>>;
+
+/**
+ * Fill in defaults; a legacy `threshold` becomes a count window that opens when all of
+ * its last `threshold` calls failed
+ */
+const resolveConfig = (config: CircuitBreakerConfig): ResolvedConfig => {
+  const legacy = config.threshold !== undefined && config.window === undefined;
+  const window = config.window ?? { type: 'count', size: legacy ? config.threshold ?? 100 : 100 };
+
+  return {
+    timeout: config.timeout,
+    name: config.name ?? 'default',
+    window,
+    minimumCalls: config.minimumCalls ?? (legacy ? config.threshold ?? 10 : 10),
+    failureRateThreshold: config.failureRateThreshold ?? (legacy ? 100 : 50),
+    slowCallDurationMs: config.slowCallDurationMs ?? 60000,
+    slowCallRateThreshold: config.slowCallRateThreshold ?? 100,
+    halfOpenMaxCalls: config.halfOpenMaxCalls ?? 1
+  };
+};
+
+const validateConfig = (config: ResolvedConfig): string[] => {
+  const errors: string[] = [];
+  const positive = (value: number, name: string): void => {
+    if (!(value > 0)) {
+      errors.push(`${name} must be a positive number`);
+    }
+  };
+  const percentage = (value: number, name: string): void => {
+    if (!(value > 0 && value <= 100)) {
+      errors.push(`${name} must be a percentage above 0`);
+    }
+  };
+
+  positive(config.timeout, 'timeout');
+  positive(config.window.type === 'count' ? config.window.size : config.window.sizeMs, 'window size');
+  positive(config.minimumCalls, 'minimumCalls');
+  positive(config.halfOpenMaxCalls, 'halfOpenMaxCalls');
+  positive(config.slowCallDurationMs, 'slowCallDurationMs');
+  percentage(config.failureRateThreshold, 'failureRateThreshold');
+  percentage(config.slowCallRateThreshold, 'slowCallRateThreshold');
+  return errors;
+};
+
+/**
+ * Failure-rate circuit breaker.
+ *
+ * CLOSED: every call is let through and its outcome recorded in a sliding window. Once the
+ * window holds `minimumCalls`, the breaker opens when the failure or slow-call rate reaches
+ * its threshold.
+ * OPEN: calls are rejected until `timeout` has passed since opening.
+ * HALF_OPEN: at most `halfOpenMaxCalls` trial calls are let through; when they have all
+ * completed their rates decide between closing and reopening.
+ *
+ * Callers ask for permission with tryAcquire() (or shouldPreventExecution()) and must then
+ * report the call with recordSuccess() or recordFailure().
+ */
+export class CircuitBreaker {
+  private readonly config: ResolvedConfig;
+  private readonly window: SlidingWindow;
+  private readonly trials: CountWindow;
+  private readonly listeners = new Set<StateChangeListener>();
+  private state: CircuitState = 'CLOSED';
+  private openedAt = 0;
+  private lastFailureTime = 0;
+  private trialsInFlight = 0;
+
+  constructor(config: CircuitBreakerConfig, private readonly now: () => number = Date.now) {
+    this.config = resolveConfig(config);
+    const errors = validateConfig(this.config);
+    if (errors.length > 0) {
+      throw new Error(`Invalid circuit breaker configuration: ${errors.join(', ')}`);
+    }
+
+    this.window = createSlidingWindow(this.config.window);
+    this.trials = new CountWindow(this.config.halfOpenMaxCalls);
+    stateGauge.set({ breaker: this.name }, STATE_VALUES.CLOSED);
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Ask to run a call. Moves an open breaker whose timeout has passed to half-open,
+   * and counts the call as a trial while half-open.
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'OPEN') {
+      if (this.getTimeUntilRetry() > 0) {
+        return false;
+      }
+      this.transition('HALF_OPEN', 'open timeout elapsed', this.snapshot());
+    }
+
+    if (this.state === 'HALF_OPEN') {
+      if (this.trialsInFlight + this.trials.snapshot().calls >= this.config.halfOpenMaxCalls) {
+        return false;
+      }
+      this.trialsInFlight++;
+    }
+
+    return true;
+  }
+
+  /**
+   * Like tryAcquire(), but throws CircuitBreakerError when the call isn't permitted
+   */
+  shouldPreventExecution(): boolean {
+    if (!this.tryAcquire()) {
+      throw new CircuitBreakerError(this.snapshot().failures, this.lastFailureTime, this.name);
+    }
+    return false;
+  }
+
+  /**
+   * Record a successful call
+   */
+  recordSuccess(durationMs: number = 0): void {
+    this.record(false, durationMs);
+  }
+
+  /**
+   * Record a failed call
+   */
+  recordFailure(durationMs: number = 0): void {
+    this.lastFailureTime = this.now();
+    this.record(true, durationMs);
+  }
+
+  /**
+   * Reset the circuit breaker to closed state, forgetting recorded calls
+   */
+  reset(): void {
+    this.window.reset();
+    this.trials.reset();
+    this.trialsInFlight = 0;
+    this.lastFailureTime = 0;
+    this.transition('CLOSED', 'reset', this.snapshot());
+  }
+
+  /**
+   * Listen for state changes; returns a function that removes the listener
+   */
+  onStateChange(listener: StateChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get current circuit breaker state
+   */
+  getState(): Readonly<CircuitBreakerState> {
+    const { calls, failures, slowCalls, failureRate, slowCallRate } = this.snapshot();
+    return {
+      state: this.state,
+      failures,
+      lastFailureTime: this.lastFailureTime,
+      calls,
+      slowCalls,
+      failureRate,
+      slowCallRate
+    };
+  }
+
+  /**
+   * Get circuit breaker configuration
+   */
+  getConfig(): Readonly<ResolvedConfig> {
+    return { ...this.config };
+  }
+
+  /**
+   * Check if the circuit breaker is rejecting calls
+   */
+  isOpen(): boolean {
+    return this.state === 'OPEN' && this.getTimeUntilRetry() > 0;
+  }
+
+  /**
+   * Check if the circuit breaker is in half-open state
+   */
+  isHalfOpen(): boolean {
+    return this.state === 'HALF_OPEN';
+  }
+
+  /**
+   * Check if the circuit breaker is closed
+   */
+  isClosed(): boolean {
+    return this.state === 'CLOSED';
+  }
+
+  /**
+   * Get time until circuit breaker will let trial calls through (if open)
+   */
+  getTimeUntilRetry(): number {
+    if (this.state !== 'OPEN') {
+      return 0;
+    }
+
+    return Math.max(0, this.config.timeout - (this.now() - this.openedAt));
+  }
+
+  private snapshot(): WindowSnapshot {
+    return this.state === 'HALF_OPEN' ? this.trials.snapshot() : this.window.snapshot(this.now());
+  }
+
+  private exceedsThresholds(snapshot: WindowSnapshot): string | null {
+    if (snapshot.failureRate >= this.config.failureRateThreshold) {
+      return `failure rate ${snapshot.failureRate.toFixed(1)}% reached ${this.config.failureRateThreshold}%`;
+    }
+    if (snapshot.slowCallRate >= this.config.slowCallRateThreshold) {
+      return `slow call rate ${snapshot.slowCallRate.toFixed(1)}% reached ${this.config.slowCallRateThreshold}%`;
+    }
+    return null;
+  }
+
+  private record(failed: boolean, durationMs: number): void {
+    const outcome = { failed, slow: durationMs > this.config.slowCallDurationMs };
+    const now = this.now();
+
+    switch (this.state) {
+      case 'CLOSED': {
+        this.window.record(outcome, now);
+        const snapshot = this.window.snapshot(now);
+        const reason = snapshot.calls >= this.config.minimumCalls ? this.exceedsThresholds(snapshot) : null;
+        if (reason) {
+          this.open(reason, snapshot);
+        }
+        break;
+      }
+      case 'HALF_OPEN': {
+        this.trialsInFlight = Math.max(0, this.trialsInFlight - 1);
+        this.trials.record(outcome);
+        const snapshot = this.trials.snapshot();
+        if (snapshot.calls >= this.config.halfOpenMaxCalls) {
+          const reason = this.exceedsThresholds(snapshot);
+          if (reason) {
+            this.open(`trial calls: ${reason}`, snapshot);
+          } else {
+            this.window.reset();
+            this.transition('CLOSED', 'trial calls succeeded', snapshot);
+          }
+        }
+        break;
+      }
+      case 'OPEN':
+        // A call let through before the breaker opened; it no longer decides anything
+        break;
+    }
+  }
+
+  private open(reason: string, snapshot: WindowSnapshot): void {
+    this.openedAt = this.now();
+    this.transition('OPEN', reason, snapshot);
+  }
+
+  /**
+   * Move to a new state, recording the transition in metrics and telling listeners
+   */
+  private transition(to: CircuitState, reason: string, snapshot: WindowSnapshot): void {
+    const from = this.state;
+    if (from === to) {
+      return;
+    }
+
+    this.state = to;
+    this.trials.reset();
+    this.trialsInFlight = 0;
+    transitions.inc({ breaker: this.name, from, to });
+    stateGauge.set({ breaker: this.name }, STATE_VALUES[to]);
+
+    const event = {
+      breaker: this.name,
+      from,
+      to,
+      reason,
+      failureRate: snapshot.failureRate,
+      slowCallRate: snapshot.slowCallRate,
+      timestamp: new Date(this.now()).toISOString()
+    };
+    if (to === 'OPEN') {
+      getLogger().warn(event, 'Circuit breaker opened');
+    } else {
+      getLogger().info(event, 'Circuit breaker state changed');
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (err) {
+        getLogger().warn({ err, breaker: this.name }, 'Error in circuit breaker state change listener');
+      }
+    }
+  }
+}
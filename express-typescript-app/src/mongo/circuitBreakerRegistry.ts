@@ -0,0 +1,63 @@
+// circuitBreakerRegistry.ts
+import { CircuitBreaker } from './circuitBreaker';
+import { CircuitBreakerConfig, CircuitBreakerState, StateChangeListener } from './types';
+
+/**
+ * Circuit breakers by name, created on first use from shared defaults, so that separate
+ * collections or endpoints trip independently. Listeners added here hear every breaker,
+ * including ones created later.
+ */
+export class CircuitBreakerRegistry {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly listeners = new Set<StateChangeListener>();
+
+  constructor(
+    private readonly defaults: Omit<CircuitBreakerConfig, 'name'>,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * The breaker named `name`; `overrides` only apply when it is created
+   */
+  get(name: string, overrides: Partial<CircuitBreakerConfig> = {}): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker({ ...this.defaults, ...overrides, name }, this.now);
+      breaker.onStateChange(event => this.listeners.forEach(listener => listener(event)));
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  has(name: string): boolean {
+    return this.breakers.has(name);
+  }
+
+  /**
+   * Listen for state changes of every breaker; returns a function that removes the listener
+   */
+  onStateChange(listener: StateChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Current state of every breaker by name
+   */
+  getStates(): Record<string, CircuitBreakerState> {
+    return Object.fromEntries(Array.from(this.breakers, ([name, breaker]) => [name, breaker.getState()]));
+  }
+
+  /**
+   * Reset one breaker, or all of them
+   */
+  reset(name?: string): void {
+    if (name !== undefined) {
+      this.breakers.get(name)?.reset();
+      return;
+    }
+    this.breakers.forEach(breaker => breaker.reset());
+  }
+}
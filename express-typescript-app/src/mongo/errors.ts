@@ -1,5 +1,5 @@
 // errors.ts
-import { AttemptResult } from './types';
+import { AttemptResult, Document, PartialInsert } from './types';
 
 export class MongoRetryError extends Error {
   public readonly originalError: Error;
@@ -55,15 +55,37 @@ export class MongoRetryError extends Error {
   }
 }
 
+export class MongoInsertError<T = Document> extends MongoRetryError {
+  public readonly partial: PartialInsert<T>;
+
+  constructor(retryError: MongoRetryError, partial: PartialInsert<T>) {
+    super(
+      retryError.message,
+      retryError.originalError,
+      retryError.retryContext.attempts,
+      retryError.retryContext.totalTime,
+      retryError.retryContext.attemptHistory
+    );
+    this.name = 'MongoInsertError';
+    this.partial = partial;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, MongoInsertError);
+    }
+  }
+}
+
 export class CircuitBreakerError extends Error {
   public readonly failures: number;
   public readonly lastFailureTime: number;
+  public readonly breaker: string;
 
-  constructor(failures: number, lastFailureTime: number) {
-    super(`Circuit breaker is OPEN - ${failures} consecutive failures detected`);
+  constructor(failures: number, lastFailureTime: number, breaker: string = 'default') {
+    super(`Circuit breaker ${breaker} is not permitting calls - ${failures} failures in its window`);
     this.name = 'CircuitBreakerError';
     this.failures = failures;
     this.lastFailureTime = lastFailureTime;
+    this.breaker = breaker;
 
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, CircuitBreakerError);
@@ -0,0 +1,122 @@
+// fileDeadLetterSink.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BSON } from 'mongodb';
+import { getLogger } from '@/utils/requestContext';
+import { DeadLetterEntry, DeadLetterQuery, DeadLetterSink } from './types';
+
+const FILE_MODE = 0o600;
+
+// A line of the file: an entry, or text that didn't parse as one, kept as it was
+type StoredLine = { entry: DeadLetterEntry } | { unreadable: string };
+
+/**
+ * Dead letters in a local NDJSON file, one entry per line.
+ *
+ * Lines are Extended JSON, so ObjectIds and Dates in the documents come back as
+ * such and a replay inserts the same _ids. New entries are appended; marking entries
+ * resolved rewrites the file atomically (temp file + rename). Writes are serialised.
+ *
+ * The documents are stored as they were sent, credentials included, so the file is kept
+ * readable by its owner only, including a file created by an older version.
+ */
+export class FileDeadLetterSink implements DeadLetterSink {
+  private writes: Promise<void> = Promise.resolve();
+  private permissionsChecked = false;
+
+  constructor(private readonly filePath: string) {}
+
+  async write(entry: DeadLetterEntry): Promise<void> {
+    return this.serialise(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await this.restrictPermissions();
+      await fs.appendFile(this.filePath, this.formatLine(entry), { encoding: 'utf8', mode: FILE_MODE });
+    });
+  }
+
+  async find(query: DeadLetterQuery = {}): Promise<DeadLetterEntry[]> {
+    const { collection, errorTypes, from, to, includeResolved = false } = query;
+    return (await this.readEntries()).filter(entry => {
+      const createdAt = Date.parse(entry.createdAt);
+      return (includeResolved || entry.resolvedAt === undefined)
+        && (collection === undefined || entry.collection === collection)
+        && (errorTypes === undefined || errorTypes.includes(entry.errorType))
+        && (from === undefined || createdAt >= from.getTime())
+        && (to === undefined || createdAt < to.getTime());
+    });
+  }
+
+  async markResolved(ids: string[], resolvedAt: Date): Promise<void> {
+    const resolving = new Set(ids);
+    return this.serialise(async () => {
+      // Unreadable lines are written back as they were: skipped by reads, not deleted
+      const content = (await this.readFile()).map(line => {
+        if ('unreadable' in line) {
+          return `${line.unreadable}\n`;
+        }
+        const { entry } = line;
+        return this.formatLine(resolving.has(entry.id) && entry.resolvedAt === undefined
+          ? { ...entry, resolvedAt: resolvedAt.toISOString() }
+          : entry);
+      });
+
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, content.join(''), { encoding: 'utf8', mode: FILE_MODE });
+      await fs.rename(tempPath, this.filePath);
+    });
+  }
+
+  private formatLine(entry: DeadLetterEntry): string {
+    return `${BSON.EJSON.stringify(entry)}\n`;
+  }
+
+  // Once per instance, for a file an older version created with the default mode
+  private async restrictPermissions(): Promise<void> {
+    if (this.permissionsChecked) {
+      return;
+    }
+    try {
+      await fs.chmod(this.filePath, FILE_MODE);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    this.permissionsChecked = true;
+  }
+
+  private async readEntries(): Promise<DeadLetterEntry[]> {
+    return (await this.readFile()).flatMap(line => ('entry' in line ? [line.entry] : []));
+  }
+
+  private async readFile(): Promise<StoredLine[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    // A line cut short by a crash mid-append is skipped rather than failing every read
+    return content.split(/\r?\n/).flatMap((text, index): StoredLine[] => {
+      if (text.trim() === '') {
+        return [];
+      }
+      try {
+        return [{ entry: BSON.EJSON.parse(text) as DeadLetterEntry }];
+      } catch {
+        getLogger().warn({ file: this.filePath, line: index + 1 }, 'Skipping unreadable dead letter');
+        return [{ unreadable: text }];
+      }
+    });
+  }
+
+  private serialise(operation: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(operation);
+    this.writes = result.then(() => undefined, () => undefined);
+    return result;
+  }
+}
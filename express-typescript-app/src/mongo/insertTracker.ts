@@ -0,0 +1,135 @@
+// insertTracker.ts
+import { InferIdType, InsertManyResult } from 'mongodb';
+import { Document, PartialInsert, RejectedDocument } from './types';
+import { RetryUtils } from './retryUtils';
+import { TypeSafeHelpers } from './typeSafeHelpers';
+
+interface PendingDocument<T> {
+  // Position in the original batch
+  index: number;
+  document: T;
+  // Sent in an attempt whose outcome is unknown, so it may already be in the collection
+  maybeInserted: boolean;
+}
+
+/**
+ * Follows one batch across insertMany attempts, so each retry only resends the documents
+ * that failed for retryable reasons.
+ *
+ * The driver assigns each document its _id before the first attempt, so a document from an
+ * attempt with an unknown outcome (network error, write concern error) that comes back as a
+ * duplicate _id on a later attempt was inserted by the earlier one.
+ */
+export class InsertTracker<T extends Document> {
+  private pending: PendingDocument<T>[];
+  private readonly insertedIds: Record<number, InferIdType<T>> = {};
+  private readonly rejected: RejectedDocument<T>[] = [];
+  private insertedCount = 0;
+
+  constructor(
+    batch: T[],
+    private readonly retryableCodes: number[],
+    private readonly ordered: boolean
+  ) {
+    this.pending = batch.map((document, index) => ({ index, document, maybeInserted: false }));
+  }
+
+  /**
+   * Documents to send in the next attempt
+   */
+  documents(): T[] {
+    return this.pending.map(({ document }) => document);
+  }
+
+  /**
+   * Whether every document is either inserted or rejected
+   */
+  isDone(): boolean {
+    return this.pending.length === 0;
+  }
+
+  recordSuccess(result: InsertManyResult<T>): void {
+    this.pending.forEach((entry, position) =>
+      this.markInserted(entry, result.insertedIds[position] ?? entry.document['_id']));
+    this.pending = [];
+  }
+
+  /**
+   * Account for a failed attempt. Returns false when the error doesn't say which documents
+   * failed, in which case every document sent is kept for the next attempt.
+   */
+  recordFailure(error: unknown): boolean {
+    const writeErrors = TypeSafeHelpers.getWriteErrors(error);
+    if (!writeErrors) {
+      this.pending.forEach(entry => {
+        entry.maybeInserted = true;
+      });
+      return false;
+    }
+
+    // With a write concern error the writes happened but aren't confirmed; ordered inserts
+    // stop at the first error, leaving the documents after it unsent
+    const unconfirmed = TypeSafeHelpers.safeGet(error, ['writeConcernError'], null) !== null
+      || TypeSafeHelpers.safeGet(error, ['err'], null) !== null;
+    const firstError = Math.min(...writeErrors.map(({ index }) => index));
+    const errorsByPosition = new Map(writeErrors.map(writeError => [writeError.index, writeError]));
+
+    const stillPending: PendingDocument<T>[] = [];
+    this.pending.forEach((entry, position) => {
+      const writeError = errorsByPosition.get(position);
+      if (!writeError) {
+        if (this.ordered && position > firstError) {
+          stillPending.push(entry);
+        } else if (unconfirmed) {
+          stillPending.push({ ...entry, maybeInserted: true });
+        } else {
+          this.markInserted(entry, entry.document['_id']);
+        }
+        return;
+      }
+
+      const classification = RetryUtils.classifyWriteError(writeError.code, this.retryableCodes);
+      if (classification === 'retryable') {
+        stillPending.push(entry);
+      } else if (classification === 'duplicateKey' && entry.maybeInserted && writeError.errmsg?.includes('index: _id_')) {
+        this.markInserted(entry, entry.document['_id']);
+      } else {
+        this.rejected.push({
+          index: entry.index,
+          document: entry.document,
+          reason: classification,
+          ...(writeError.code !== undefined && { code: writeError.code }),
+          message: writeError.errmsg ?? TypeSafeHelpers.getErrorMessage(error)
+        });
+      }
+    });
+
+    this.pending = stillPending;
+    return true;
+  }
+
+  /**
+   * The combined result of every attempt
+   */
+  toResult(): InsertManyResult<T> {
+    return { acknowledged: true, insertedCount: this.insertedCount, insertedIds: { ...this.insertedIds } };
+  }
+
+  getRejected(): RejectedDocument<T>[] {
+    return [...this.rejected];
+  }
+
+  toPartialInsert(): PartialInsert<T> {
+    return {
+      insertedCount: this.insertedCount,
+      insertedIds: { ...this.insertedIds },
+      rejected: this.getRejected(),
+      remaining: this.documents()
+    };
+  }
+
+  private markInserted(entry: PendingDocument<T>, id: InferIdType<T>): void {
+    this.insertedIds[entry.index] = id;
+    this.insertedCount++;
+  }
+}
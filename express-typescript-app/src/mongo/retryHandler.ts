@@ -0,0 +1,647 @@
+// retryHandler.ts
+import { randomUUID } from 'crypto';
+import {
+  Collection,
+  BulkWriteOptions,
+  MongoError,
+  OptionalUnlessRequiredId
+} from 'mongodb';
+import { getLogger } from '@/utils/requestContext';
+import { metrics } from '@/utils/metrics';
+import {
+  RetryConfig,
+  Document,
+  InsertResult,
+  BatchOptions,
+  BatchResult,
+  AttemptResult,
+  RetryMetrics,
+  ExecuteOptions,
+  OperationResult,
+  RejectedDocument,
+  StateChangeListener,
+  CircuitBreakerState,
+  DeadLetterQuery,
+  ReplayResult
+} from './types';
+import { MongoInsertError, MongoRetryError } from './errors';
+import { AdaptiveThrottle } from './adaptiveThrottle';
+import { CircuitBreaker } from './circuitBreaker';
+import { CircuitBreakerRegistry } from './circuitBreakerRegistry';
+import { InsertTracker } from './insertTracker';
+import { RetryingCollection } from './retryingCollection';
+import { RetryUtils } from './retryUtils';
+import { TypeSafeHelpers } from './typeSafeHelpers';
+
+const retryAttempts = metrics.counter(
+  'mongo_retry_attempts_total',
+  'MongoDB operation attempts by outcome (success, retry, failure)',
+  ['operation', 'outcome']
+);
+
+const retryDelay = metrics.histogram(
+  'mongo_retry_delay_seconds',
+  'Backoff delay before a MongoDB retry in seconds',
+  ['operation'],
+  [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+);
+
+const insertedDocuments = metrics.counter(
+  'mongo_inserted_documents_total',
+  'Documents inserted into MongoDB',
+  ['collection']
+);
+
+interface RunOptions extends ExecuteOptions {
+  // The documents handed to onFailure
+  batch?: () => Document[];
+  // Decides retryability for errors the operation understands better; undefined falls back to the config
+  isRetryable?: (error: MongoError) => boolean | undefined;
+  // Shared by the batches of an insertManyBatched run: retries wait out its pause and draw on its budget
+  throttle?: AdaptiveThrottle;
+}
+
+type ChunkOutcome<T> = InsertResult<T> | { error: Error; chunk: T[]; deadLetterId?: string };
+
+export class MongoRetryHandler {
+  private readonly config: Required<Omit<RetryConfig, 'onRetry' | 'onFailure' | 'circuit' | 'deadLetter'>> & {
+    onRetry: RetryConfig['onRetry'];
+    onFailure: RetryConfig['onFailure'];
+    circuit: RetryConfig['circuit'];
+    deadLetter: RetryConfig['deadLetter'];
+  };
+  
+  // One breaker for the handler plus one per circuit key (collection), all from config.circuit
+  private readonly circuitBreakers?: CircuitBreakerRegistry;
+
+  constructor(options: RetryConfig = {}) {
+    // Validate configuration
+    const validation = TypeSafeHelpers.validateRetryConfig(options);
+    if (!validation.isValid) {
+      throw new Error(`Invalid retry configuration: ${validation.errors.join(', ')}`);
+    }
+
+    this.config = {
+      maxRetries: options.maxRetries ?? 5,
+      baseDelay: options.baseDelay ?? 1000,
+      maxDelay: options.maxDelay ?? 30000,
+      backoffMultiplier: options.backoffMultiplier ?? 2,
+      jitter: options.jitter ?? true,
+      retryableErrors: options.retryableErrors ?? RetryUtils.getDefaultRetryableErrors(),
+      retryableCodes: options.retryableCodes ?? RetryUtils.getDefaultRetryableCodes(),
+      onRetry: options.onRetry ?? null,
+      onFailure: options.onFailure ?? null,
+      circuit: options.circuit ?? null,
+      deadLetter: options.deadLetter ?? null
+    };
+    
+    if (this.config.circuit) {
+      this.circuitBreakers = new CircuitBreakerRegistry(this.config.circuit);
+    }
+  }
+
+  /**
+   * Run any MongoDB operation with retry logic. `fn` is called once per attempt; failures
+   * are retried with backoff while retryable, counted by the circuit breaker and recorded
+   * in metrics under `operationName`. Operations are assumed not to be idempotent unless
+   * `options.idempotent` says so, and are then only retried when they never reached the server.
+   */
+  async execute<R>(
+    operationName: string,
+    fn: () => Promise<R>,
+    options: ExecuteOptions = {}
+  ): Promise<OperationResult<R>> {
+    return this.run(operationName, fn, options);
+  }
+
+  /**
+   * Wrap a collection so its common operations run through execute()
+   */
+  wrap<T extends Document = Document>(collection: Collection<T>): RetryingCollection<T> {
+    return new RetryingCollection(collection, this);
+  }
+
+  /**
+   * Insert many documents with retry logic
+   */
+  async insertManyWithRetry<T extends Document = Document>(
+    collection: Collection<T>,
+    batch: T[],
+    mongoOptions: BulkWriteOptions = {}
+  ): Promise<InsertResult<T>> {
+    return this.insertMany(collection, batch, mongoOptions);
+  }
+
+  private async insertMany<T extends Document>(
+    collection: Collection<T>,
+    batch: T[],
+    mongoOptions: BulkWriteOptions,
+    throttle?: AdaptiveThrottle
+  ): Promise<InsertResult<T>> {
+    // Validate inputs
+    if (!collection) {
+      throw new Error('Collection is required');
+    }
+    if (!Array.isArray(batch) || batch.length === 0) {
+      throw new Error('Batch must be a non-empty array');
+    }
+
+    const options: BulkWriteOptions = {
+      ordered: false,
+      writeConcern: {
+        w: 'majority',
+        j: true,
+        wtimeout: 10000
+      },
+      ...mongoOptions
+    };
+
+    // Resends only what failed for retryable reasons; the driver has given every document
+    // its _id before the first attempt, so a resend can't insert a document twice
+    const tracker = new InsertTracker(batch, this.config.retryableCodes, options.ordered !== false);
+
+    let retryMetrics: RetryMetrics;
+    try {
+      ({ metrics: retryMetrics } = await this.run(
+        'insertMany',
+        async () => {
+          const generation = throttle?.getGeneration() ?? 0;
+          try {
+            const result = await collection.insertMany(tracker.documents() as OptionalUnlessRequiredId<T>[], options);
+
+            // Validate result
+            if (!result || typeof result.insertedCount !== 'number') {
+              throw new Error('Invalid result from insertMany operation');
+            }
+            tracker.recordSuccess(result);
+            throttle?.onSuccess();
+          } catch (error) {
+            if (throttle && RetryUtils.isThrottlingError(error)) {
+              throttle.onThrottled(generation, RetryUtils.getRetryAfterMs(error));
+            }
+            // Documents rejected for good don't fail the batch
+            if (!tracker.recordFailure(error) || !tracker.isDone()) {
+              throw error;
+            }
+          }
+        },
+        {
+          idempotent: true,
+          timeoutMs: TypeSafeHelpers.safeGet(options, ['writeConcern', 'wtimeout'], 30000),
+          circuitKey: collection.collectionName,
+          batch: () => tracker.documents(),
+          // A bulk write error leaves only documents with retryable errors to resend
+          isRetryable: error => (TypeSafeHelpers.getWriteErrors(error) ? !tracker.isDone() : undefined),
+          ...(throttle && { throttle })
+        }
+      ));
+    } catch (error) {
+      const { insertedCount } = tracker.toResult();
+      insertedDocuments.inc({ collection: collection.collectionName }, insertedCount);
+      throw error instanceof MongoRetryError ? new MongoInsertError(error, tracker.toPartialInsert()) : error;
+    }
+
+    const result = tracker.toResult();
+    const rejected = tracker.getRejected();
+    insertedDocuments.inc({ collection: collection.collectionName }, result.insertedCount);
+    if (rejected.length > 0) {
+      getLogger().warn(
+        { collection: collection.collectionName, rejected: rejected.length, reasons: rejected.map(({ reason }) => reason) },
+        'MongoDB insertMany rejected documents'
+      );
+    }
+
+    return { result, metrics: { ...retryMetrics, insertedCount: result.insertedCount }, rejected };
+  }
+
+  /**
+   * Insert many documents in batches with concurrency control. Concurrency and batch size
+   * start at their configured values and adapt to throttling (see AdaptiveThrottle).
+   */
+  async insertManyBatched<T extends Document = Document>(
+    collection: Collection<T>,
+    documents: T[],
+    options: BatchOptions = {}
+  ): Promise<BatchResult> {
+    // Validate inputs
+    if (!collection) {
+      throw new Error('Collection is required');
+    }
+    if (!Array.isArray(documents) || documents.length === 0) {
+      throw new Error('Documents must be a non-empty array');
+    }
+
+    const {
+      batchSize = 1000,
+      concurrency = 3,
+      mongoOptions = {},
+      progressCallback = null,
+      throttle: throttleOptions = {}
+    } = options;
+
+    // Validate options
+    if (typeof batchSize !== 'number' || batchSize <= 0) {
+      throw new Error('batchSize must be a positive number');
+    }
+    if (typeof concurrency !== 'number' || concurrency <= 0) {
+      throw new Error('concurrency must be a positive number');
+    }
+
+    const throttle = new AdaptiveThrottle(concurrency, batchSize, throttleOptions);
+    const startTime = Date.now();
+    // Chunks in the order they were cut; batch sizes change with throttling, so each is cut when sent
+    const chunks: Promise<ChunkOutcome<T>>[] = [];
+    const inFlight = new Set<Promise<void>>();
+    // Rejected documents, indexed by position in `documents`, and documents inserted by failed batches
+    const rejected: RejectedDocument<T>[] = [];
+    let partiallyInserted = 0;
+    let processed = 0;
+    let next = 0;
+
+    const insertChunk = async (chunk: T[], offset: number, sequence: number): Promise<ChunkOutcome<T>> => {
+      const reindex = (document: RejectedDocument<T>): RejectedDocument<T> => ({ ...document, index: offset + document.index });
+
+      try {
+        const result = await this.insertMany(collection, chunk, mongoOptions, throttle);
+        rejected.push(...result.rejected.map(reindex));
+        processed += chunk.length;
+
+        // Call progress callback safely
+        try {
+          if (progressCallback) {
+            const elapsedSeconds = Math.max(Date.now() - startTime, 1) / 1000;
+            await progressCallback({
+              processed,
+              total: documents.length,
+              percentage: Math.round((processed / documents.length) * 100),
+              currentBatch: sequence + 1,
+              totalBatches: chunks.length + Math.ceil((documents.length - next) / throttle.getBatchSize()),
+              documentsPerSecond: Math.round((processed / elapsedSeconds) * 10) / 10,
+              ...throttle.getSnapshot()
+            });
+          }
+        } catch (callbackError) {
+          getLogger().warn({ err: callbackError }, 'Error in progress callback');
+        }
+
+        return result;
+      } catch (error) {
+        // Only the documents that never made it are reported as the failed chunk
+        let failure: { error: Error; chunk: T[] };
+        if (error instanceof MongoInsertError) {
+          const { partial } = error as MongoInsertError<T>;
+          rejected.push(...partial.rejected.map(reindex));
+          partiallyInserted += partial.insertedCount;
+          failure = { error, chunk: [...partial.remaining] };
+        } else {
+          failure = {
+            error: error instanceof Error ? error : new Error(String(error)),
+            chunk: [...chunk] // Create a copy
+          };
+        }
+
+        const deadLetterId = await this.deadLetter(collection.collectionName, failure.chunk, failure.error);
+        return { ...failure, ...(deadLetterId !== undefined && { deadLetterId }) };
+      }
+    };
+
+    // Keep as many chunks in flight as the throttle allows, pausing while the server asked to wait
+    while (next < documents.length || inFlight.size > 0) {
+      if (next < documents.length && inFlight.size < throttle.getConcurrency()) {
+        const pause = throttle.getPauseMs();
+        if (pause > 0) {
+          await RetryUtils.delay(pause);
+          continue;
+        }
+
+        const chunk = documents.slice(next, next + throttle.getBatchSize());
+        throttle.recordBatch();
+        const task = insertChunk(chunk, next, chunks.length);
+        next += chunk.length;
+        chunks.push(task);
+
+        const settled: Promise<void> = task.then(
+          () => { inFlight.delete(settled); },
+          () => { inFlight.delete(settled); }
+        );
+        inFlight.add(settled);
+        continue;
+      }
+
+      await Promise.race(inFlight);
+    }
+
+    const results = await Promise.allSettled(chunks);
+    const throttleState = throttle.getSnapshot();
+    if (throttleState.throttled > 0) {
+      getLogger().warn(
+        { collection: collection.collectionName, ...throttleState },
+        'MongoDB insertManyBatched was throttled'
+      );
+    }
+
+    return this.aggregateBatchResults(results, rejected, partiallyInserted);
+  }
+
+  /**
+   * Insert the dead-lettered documents of `collection` again, oldest entry first, and mark
+   * the entries whose documents are all in the collection now as resolved. Entries can be
+   * narrowed down by error type and creation time.
+   */
+  async replayDeadLetters<T extends Document = Document>(
+    collection: Collection<T>,
+    query: Omit<DeadLetterQuery, 'collection' | 'includeResolved'> = {}
+  ): Promise<ReplayResult> {
+    const sink = this.config.deadLetter;
+    if (!sink) {
+      throw new Error('No dead-letter sink configured');
+    }
+
+    const entries = await sink.find({ ...query, collection: collection.collectionName });
+    const result: ReplayResult = { resolved: [], failed: [], insertedCount: 0 };
+
+    // One entry at a time, so a replay doesn't bring on the overload that dead-lettered them
+    for (const entry of entries) {
+      if (entry.documents.length === 0) {
+        result.resolved.push(entry.id);
+        continue;
+      }
+
+      try {
+        const { result: inserted, rejected } = await this.insertManyWithRetry(collection, entry.documents as T[]);
+        result.insertedCount += inserted.insertedCount;
+
+        // A duplicate key means the document, or one like it, is in the collection already
+        const refused = rejected.filter(({ reason }) => reason !== 'duplicateKey');
+        if (refused.length > 0) {
+          const reasons = [...new Set(refused.map(({ reason }) => reason))].join(', ');
+          result.failed.push({ id: entry.id, error: new Error(`${refused.length} documents were rejected (${reasons})`) });
+        } else {
+          result.resolved.push(entry.id);
+        }
+      } catch (error) {
+        if (error instanceof MongoInsertError) {
+          result.insertedCount += error.partial.insertedCount;
+        }
+        result.failed.push({ id: entry.id, error: error instanceof Error ? error : new Error(String(error)) });
+      }
+    }
+
+    if (result.resolved.length > 0) {
+      await sink.markResolved(result.resolved, new Date());
+    }
+    getLogger().info(
+      { collection: collection.collectionName, entries: entries.length, resolved: result.resolved.length, failed: result.failed.length },
+      'Replayed MongoDB dead letters'
+    );
+
+    return result;
+  }
+
+  /**
+   * Get the state of the handler's circuit breaker, or the one for `circuitKey` (if enabled)
+   */
+  getCircuitBreakerState(circuitKey?: string): Readonly<CircuitBreakerState> | null {
+    return this.breakerFor(circuitKey)?.getState() ?? null;
+  }
+
+  /**
+   * Get the state of every circuit breaker in use by name (if enabled)
+   */
+  getCircuitBreakerStates(): Record<string, CircuitBreakerState> | null {
+    return this.circuitBreakers?.getStates() ?? null;
+  }
+
+  /**
+   * Listen for state changes of every circuit breaker; returns a function that removes the listener
+   */
+  onCircuitStateChange(listener: StateChangeListener): () => void {
+    return this.circuitBreakers?.onStateChange(listener) ?? ((): void => undefined);
+  }
+
+  /**
+   * Reset the circuit breaker for `circuitKey`, or every breaker (if enabled)
+   */
+  resetCircuitBreaker(circuitKey?: string): void {
+    if (circuitKey === undefined) {
+      this.circuitBreakers?.reset();
+      return;
+    }
+    this.breakerFor(circuitKey)?.reset();
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig() {
+    return { ...this.config };
+  }
+
+  /**
+   * The retry loop shared by every operation
+   */
+  private async run<R>(
+    operation: string,
+    fn: () => Promise<R>,
+    { idempotent = false, timeoutMs, circuitKey, batch = (): Document[] => [], isRetryable, throttle }: RunOptions
+  ): Promise<OperationResult<R>> {
+    // Check circuit breaker
+    const circuitBreaker = this.breakerFor(circuitKey);
+    circuitBreaker?.shouldPreventExecution();
+
+    let attempt = 0;
+    let lastError: Error | null = null;
+    const startTime = Date.now();
+    const attemptResults: AttemptResult[] = [];
+
+    while (attempt <= this.config.maxRetries) {
+      // The breaker judges each call by its last attempt, not by the time spent retrying
+      const attemptStart = Date.now();
+      try {
+        const result = await (timeoutMs === undefined ? fn() : RetryUtils.withTimeout(fn(), timeoutMs));
+
+        // Success - reset circuit breaker
+        circuitBreaker?.recordSuccess(Date.now() - attemptStart);
+
+        const retryMetrics: RetryMetrics = {
+          totalAttempts: attempt + 1,
+          totalTime: Date.now() - startTime,
+          lastAttemptTime: Date.now() - attemptStart,
+          insertedCount: 0,
+          attemptHistory: [...attemptResults] // Create a copy
+        };
+
+        retryAttempts.inc({ operation, outcome: 'success' });
+
+        return { result, metrics: retryMetrics };
+
+      } catch (error) {
+        const mongoError = error as MongoError;
+        lastError = mongoError;
+        attempt++;
+
+        // Create attempt result safely
+        const attemptResult = TypeSafeHelpers.createAttemptResult(
+          attempt,
+          mongoError,
+          startTime,
+          attemptResults
+        );
+
+        attemptResults.push(attemptResult);
+
+        // Check if we should retry
+        let retry = attempt <= this.config.maxRetries
+          && (isRetryable?.(mongoError) ?? this.isRetryable(mongoError, idempotent));
+        if (retry && throttle && !throttle.tryRetry()) {
+          getLogger().warn({ operation, attempt }, `MongoDB ${operation} retry budget exhausted`);
+          retry = false;
+        }
+        if (!retry) {
+          circuitBreaker?.recordFailure(Date.now() - attemptStart);
+          retryAttempts.inc({ operation, outcome: 'failure' });
+
+          // Call failure callback safely
+          try {
+            if (this.config.onFailure) {
+              await this.config.onFailure(mongoError, {
+                operation,
+                attempts: attempt,
+                totalTime: Date.now() - startTime,
+                batch: batch(), // Create a copy
+                attemptHistory: [...attemptResults] // Create a copy
+              });
+            }
+          } catch (callbackError) {
+            getLogger().warn({ err: callbackError }, 'Error in onFailure callback');
+          }
+
+          throw new MongoRetryError(
+            `MongoDB ${operation} failed after ${attempt} attempts: ${TypeSafeHelpers.getErrorMessage(mongoError)}`,
+            mongoError,
+            attempt,
+            Date.now() - startTime,
+            [...attemptResults] // Create a copy
+          );
+        }
+
+        // Calculate delay and execute retry callback; a throttled run waits at least as long as the server asked
+        const delay = Math.max(
+          RetryUtils.calculateDelay(
+            attempt,
+            this.config.baseDelay,
+            this.config.maxDelay,
+            this.config.backoffMultiplier,
+            this.config.jitter
+          ),
+          throttle?.getPauseMs() ?? 0
+        );
+        retryAttempts.inc({ operation, outcome: 'retry' });
+        retryDelay.observe({ operation }, delay / 1000);
+
+        // Call retry callback safely
+        try {
+          if (this.config.onRetry) {
+            await this.config.onRetry(mongoError, {
+              operation,
+              attempt,
+              delay,
+              totalTime: Date.now() - startTime,
+              nextRetryAt: new Date(Date.now() + delay).toISOString()
+            });
+          }
+        } catch (callbackError) {
+          getLogger().warn({ err: callbackError }, 'Error in onRetry callback');
+        }
+
+        getLogger().warn(
+          { operation, attempt, delay, error: TypeSafeHelpers.getErrorMessage(mongoError) },
+          `MongoDB ${operation} attempt failed, retrying`
+        );
+
+        await RetryUtils.delay(delay);
+      }
+    }
+
+    // This should not be reached, but TypeScript needs it
+    throw lastError ?? new Error('Unknown error occurred during retry attempts');
+  }
+
+  /**
+   * Store a batch given up on in the dead-letter sink (if configured), returning its entry id.
+   * A sink that fails is logged, not thrown: the batch is still reported as failed.
+   */
+  private async deadLetter(collection: string, documents: Document[], error: Error): Promise<string | undefined> {
+    const sink = this.config.deadLetter;
+    if (!sink || documents.length === 0) {
+      return undefined;
+    }
+
+    const id = randomUUID();
+    // The error behind the retries, not the MongoRetryError wrapping it
+    const cause = error instanceof MongoRetryError ? error.originalError : error;
+    const code = TypeSafeHelpers.getErrorCode(cause);
+    try {
+      await sink.write({
+        id,
+        collection,
+        operation: 'insertMany',
+        documents,
+        errorType: RetryUtils.classifyFailure(error, this.config.retryableErrors, this.config.retryableCodes),
+        error: { name: cause.name, message: TypeSafeHelpers.getErrorMessage(cause), ...(code !== undefined && { code }) },
+        attemptHistory: error instanceof MongoRetryError ? error.retryContext.attemptHistory : [],
+        createdAt: new Date().toISOString()
+      });
+      return id;
+    } catch (sinkError) {
+      getLogger().error({ err: sinkError, collection, documents: documents.length }, 'Failed to dead-letter MongoDB batch');
+      return undefined;
+    }
+  }
+
+  /**
+   * Breakers are named after the configured circuit name, e.g. mongo and mongo.users
+   */
+  private breakerFor(circuitKey?: string): CircuitBreaker | undefined {
+    const name = this.config.circuit?.name ?? 'default';
+    return this.circuitBreakers?.get(circuitKey === undefined ? name : `${name}.${circuitKey}`);
+  }
+
+  private isRetryable(error: MongoError, idempotent: boolean): boolean {
+    if (!idempotent && !RetryUtils.isSafeToRetry(error)) {
+      return false;
+    }
+
+    return RetryUtils.isRetryableError(
+      error,
+      this.config.retryableErrors,
+      this.config.retryableCodes
+    );
+  }
+
+  private aggregateBatchResults(
+    results: PromiseSettledResult<ChunkOutcome<Document>>[],
+    rejected: RejectedDocument[],
+    partiallyInserted: number
+  ): BatchResult {
+    const filtered = TypeSafeHelpers.filterBatchResults(results);
+    
+    const totalInserted = filtered.successful.reduce(
+      (sum, result) => sum + TypeSafeHelpers.getInsertedCount(result.result), 
+      partiallyInserted
+    );
+    
+    return {
+      totalInserted,
+      totalRejected: rejected.length,
+      successfulBatches: filtered.successful.length,
+      failedBatches: filtered.failed.length,
+      totalBatches: results.length,
+      details: {
+        successful: filtered.successful,
+        failed: filtered.failed,
+        rejected: rejected.sort((a, b) => a.index - b.index)
+      }
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,262 @@
+// retryUtils.ts
+import { MongoError } from 'mongodb';
+import { DeadLetterErrorType, RejectionReason } from './types';
+import { CircuitBreakerError, MongoRetryError } from './errors';
+import { TypeSafeHelpers } from './typeSafeHelpers';
+
+export class RetryUtils {
+  /**
+   * Check if an error is retryable based on error name and code
+   */
+  static isRetryableError(
+    error: MongoError,
+    retryableErrors: string[],
+    retryableCodes: number[]
+  ): boolean {
+    // Check error name/type
+    if (retryableErrors.includes(error.name)) {
+      return true;
+    }
+    
+    // Check error code
+    if (typeof error.code === 'number' && retryableCodes.includes(error.code)) {
+      return true;
+    }
+    
+    // Check for specific write concern errors
+    if ((error as any).writeConcernError) {
+      const writeConcernCode = (error as any).writeConcernError.code;
+      return retryableCodes.includes(writeConcernCode);
+    }
+    
+    return false;
+  }
+
+  /**
+   * Calculate delay with exponential backoff and optional jitter
+   */
+  static calculateDelay(
+    attempt: number,
+    baseDelay: number,
+    maxDelay: number,
+    backoffMultiplier: number,
+    jitter: boolean
+  ): number {
+    let delay = baseDelay * Math.pow(backoffMultiplier, attempt - 1);
+    delay = Math.min(delay, maxDelay);
+    
+    // Add jitter to prevent thundering herd
+    if (jitter) {
+      delay = delay * (0.5 + Math.random() * 0.5);
+    }
+    
+    return Math.floor(delay);
+  }
+
+  /**
+   * Create a promise that rejects after specified timeout
+   */
+  static createTimeoutPromise<T>(timeout: number, message?: string): Promise<T> {
+    return new Promise((_, reject) => {
+      setTimeout(
+        () => reject(new Error(message || `Operation timed out after ${timeout}ms`)),
+        timeout
+      );
+    });
+  }
+
+  /**
+   * Reject if the promise hasn't settled within the timeout, clearing the timer either way
+   */
+  static withTimeout<T>(promise: Promise<T>, timeout: number, message?: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(message || `Operation timed out after ${timeout}ms`)),
+        timeout
+      );
+    });
+
+    return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Check if an error shows the operation never reached the server, so even a
+   * non-idempotent operation can be sent again
+   */
+  static isSafeToRetry(error: MongoError): boolean {
+    return RetryUtils.getNotSentErrors().includes(error.name);
+  }
+
+  /**
+   * Create a delay promise
+   */
+  static delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Split an array into chunks of specified size
+   */
+  static chunkArray<T>(array: T[], chunkSize: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < array.length; i += chunkSize) {
+      chunks.push(array.slice(i, i + chunkSize));
+    }
+    return chunks;
+  }
+
+  /**
+   * Get default retryable error names
+   */
+  static getDefaultRetryableErrors(): string[] {
+    return [
+      'MongoNetworkError',
+      'MongoTimeoutError',
+      'MongoServerSelectionError',
+      'MongoWriteConcernError'
+    ];
+  }
+
+  /**
+   * Get the names of errors raised before an operation is sent to the server
+   */
+  static getNotSentErrors(): string[] {
+    return [
+      'MongoServerSelectionError',
+      'MongoNotConnectedError'
+    ];
+  }
+
+  /**
+   * Classify the error a single document failed with in a bulk insert
+   */
+  static classifyWriteError(code: number | undefined, retryableCodes: number[]): RejectionReason | 'retryable' {
+    if (code !== undefined && retryableCodes.includes(code)) {
+      return 'retryable';
+    }
+    if (code !== undefined && RetryUtils.getDuplicateKeyCodes().includes(code)) {
+      return 'duplicateKey';
+    }
+    if (code === 121) { // DocumentValidationFailure
+      return 'validation';
+    }
+    return 'other';
+  }
+
+  /**
+   * Classify the error a batch was given up on, looking through MongoRetryError to its cause
+   */
+  static classifyFailure(error: Error, retryableErrors: string[], retryableCodes: number[]): DeadLetterErrorType {
+    const cause = error instanceof MongoRetryError ? error.originalError : error;
+    if (cause instanceof CircuitBreakerError) {
+      return 'circuitOpen';
+    }
+    if (RetryUtils.isThrottlingError(cause)) {
+      return 'throttled';
+    }
+    const retryableWriteErrors = (TypeSafeHelpers.getWriteErrors(cause) ?? [])
+      .some(({ code }) => RetryUtils.classifyWriteError(code, retryableCodes) === 'retryable');
+    if (retryableWriteErrors || RetryUtils.isRetryableError(cause as MongoError, retryableErrors, retryableCodes)) {
+      return 'transient';
+    }
+    return 'nonRetryable';
+  }
+
+  /**
+   * Get error codes of duplicate key violations
+   */
+  static getDuplicateKeyCodes(): number[] {
+    return [
+      11000, // DuplicateKey
+      11001  // DuplicateKey (legacy)
+    ];
+  }
+
+  /**
+   * Get error codes of throttled requests
+   */
+  static getThrottlingCodes(): number[] {
+    return [
+      16500, // RequestRateTooLarge (Cosmos DB)
+      429    // TooManyRequests
+    ];
+  }
+
+  /**
+   * Check if an error, or any document of a bulk write error, was throttled by the server
+   */
+  static isThrottlingError(error: unknown): boolean {
+    const codes = [
+      TypeSafeHelpers.getErrorCode(error),
+      ...(TypeSafeHelpers.getWriteErrors(error) ?? []).map(({ code }) => code)
+    ];
+    return codes.some(code => code !== undefined && RetryUtils.getThrottlingCodes().includes(code));
+  }
+
+  /**
+   * The longest wait a throttled error asks for, from Cosmos DB's `RetryAfterMs=<n>` hints
+   */
+  static getRetryAfterMs(error: unknown): number | undefined {
+    const messages = [
+      TypeSafeHelpers.getErrorMessage(error),
+      ...(TypeSafeHelpers.getWriteErrors(error) ?? []).map(({ errmsg }) => errmsg ?? '')
+    ];
+    const hints = messages
+      .map(message => /RetryAfterMs=(\d+)/.exec(message)?.[1])
+      .filter((hint): hint is string => hint !== undefined)
+      .map(Number);
+    return hints.length > 0 ? Math.max(...hints) : undefined;
+  }
+
+  /**
+   * Get default retryable error codes
+   */
+  static getDefaultRetryableCodes(): number[] {
+    return [
+      ...RetryUtils.getThrottlingCodes(),
+      11600, // InterruptedAtShutdown
+      11602, // InterruptedDueToReplStateChange
+      10107, // NotWritablePrimary
+      13435, // NotPrimaryNoSecondaryOk
+      13436, // NotPrimaryOrSecondary
+      189,   // PrimarySteppedDown
+      91     // ShutdownInProgress
+    ];
+  }
+
+  /**
+   * Aggregate results from batch operations
+   */
+  static aggregateBatchResults(
+    results: PromiseSettledResult<any>[]
+  ): {
+    successful: any[];
+    failed: any[];
+    totalInserted: number;
+  } {
+    const successful = results.filter(
+      (r): r is PromiseFulfilledResult<any> => 
+        r.status === 'fulfilled' && r.value && !('error' in r.value)
+    );
+    
+    const failed = results.filter(
+      (r): r is PromiseRejectedResult | PromiseFulfilledResult<{ error: Error }> => 
+        r.status === 'rejected' || (r.status === 'fulfilled' && r.value && 'error' in r.value)
+    );
+    
+    const totalInserted = successful.reduce((sum, r) => {
+      const insertedCount = r.value?.result?.insertedCount;
+      return sum + (typeof insertedCount === 'number' ? insertedCount : 0);
+    }, 0);
+    
+    return {
+      successful: successful.map(r => r.value),
+      failed: failed.map(r => ({
+        error: r.status === 'rejected' ? r.reason : (r.value as any)?.error,
+        chunk: r.status === 'rejected' ? [] : (r.value as any)?.chunk ?? []
+      })),
+      totalInserted
+    };
+  }
+}
\ No newline at end of file
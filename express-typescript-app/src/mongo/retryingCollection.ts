@@ -0,0 +1,168 @@
+// retryingCollection.ts
+import {
+  AggregateOptions,
+  AnyBulkWriteOperation,
+  BulkWriteOptions,
+  BulkWriteResult,
+  Collection,
+  CountDocumentsOptions,
+  DeleteOptions,
+  DeleteResult,
+  Filter,
+  FindOneAndDeleteOptions,
+  FindOneAndReplaceOptions,
+  FindOneAndUpdateOptions,
+  FindOptions,
+  InsertOneOptions,
+  InsertOneResult,
+  OptionalUnlessRequiredId,
+  ReplaceOptions,
+  UpdateFilter,
+  UpdateOptions,
+  UpdateResult,
+  WithId,
+  WithoutId
+} from 'mongodb';
+import type { MongoRetryHandler } from './retryHandler';
+import { Document, ExecuteOptions } from './types';
+
+/**
+ * The common Collection operations, each run through MongoRetryHandler.execute().
+ *
+ * Reads, read-only aggregations and inserts with an _id are retried as idempotent. Other
+ * writes are only retried when the caller passes `{ idempotent: true }`: deletes, bulk writes
+ * and $inc/$push updates could be applied twice if an attempt times out after reaching the
+ * server, and a retried update or replacement whose filter tests a field it changes (such as
+ * a version check) finds nothing to match after a lost reply, even one that only $sets.
+ */
+export class RetryingCollection<T extends Document = Document> {
+  constructor(
+    private readonly collection: Collection<T>,
+    private readonly handler: MongoRetryHandler
+  ) {}
+
+  /**
+   * The wrapped collection, for operations not covered here
+   */
+  get raw(): Collection<T> {
+    return this.collection;
+  }
+
+  async findOne(filter: Filter<T>, options: FindOptions = {}, retry: ExecuteOptions = {}): Promise<WithId<T> | null> {
+    return this.run('findOne', () => this.collection.findOne(filter, options), { idempotent: true, ...retry });
+  }
+
+  async find(filter: Filter<T>, options: FindOptions = {}, retry: ExecuteOptions = {}): Promise<WithId<T>[]> {
+    return this.run('find', () => this.collection.find(filter, options).toArray(), { idempotent: true, ...retry });
+  }
+
+  async countDocuments(filter: Filter<T> = {}, options: CountDocumentsOptions = {}, retry: ExecuteOptions = {}): Promise<number> {
+    return this.run('countDocuments', () => this.collection.countDocuments(filter, options), { idempotent: true, ...retry });
+  }
+
+  /**
+   * Pipelines writing with $out or $merge are treated as writes
+   */
+  async aggregate<R extends Document = Document>(
+    pipeline: Document[],
+    options: AggregateOptions = {},
+    retry: ExecuteOptions = {}
+  ): Promise<R[]> {
+    const writes = pipeline.some(stage => '$out' in stage || '$merge' in stage);
+    return this.run(
+      'aggregate',
+      () => this.collection.aggregate<R>(pipeline, options).toArray(),
+      { idempotent: !writes, ...retry }
+    );
+  }
+
+  /**
+   * Retried only when the document has an _id, so a resend fails as a duplicate instead of inserting twice
+   */
+  async insertOne(
+    document: OptionalUnlessRequiredId<T>,
+    options: InsertOneOptions = {},
+    retry: ExecuteOptions = {}
+  ): Promise<InsertOneResult<T>> {
+    return this.run(
+      'insertOne',
+      () => this.collection.insertOne(document, options),
+      { idempotent: '_id' in document, ...retry }
+    );
+  }
+
+  async updateOne(
+    filter: Filter<T>,
+    update: UpdateFilter<T>,
+    options: UpdateOptions = {},
+    retry: ExecuteOptions = {}
+  ): Promise<UpdateResult<T>> {
+    return this.run('updateOne', () => this.collection.updateOne(filter, update, options), retry);
+  }
+
+  async updateMany(
+    filter: Filter<T>,
+    update: UpdateFilter<T>,
+    options: UpdateOptions = {},
+    retry: ExecuteOptions = {}
+  ): Promise<UpdateResult<T>> {
+    return this.run('updateMany', () => this.collection.updateMany(filter, update, options), retry);
+  }
+
+  async replaceOne(
+    filter: Filter<T>,
+    replacement: WithoutId<T>,
+    options: ReplaceOptions = {},
+    retry: ExecuteOptions = {}
+  ): Promise<UpdateResult<T>> {
+    return this.run('replaceOne', () => this.collection.replaceOne(filter, replacement, options), retry);
+  }
+
+  async deleteOne(filter: Filter<T>, options: DeleteOptions = {}, retry: ExecuteOptions = {}): Promise<DeleteResult> {
+    return this.run('deleteOne', () => this.collection.deleteOne(filter, options), retry);
+  }
+
+  async deleteMany(filter: Filter<T>, options: DeleteOptions = {}, retry: ExecuteOptions = {}): Promise<DeleteResult> {
+    return this.run('deleteMany', () => this.collection.deleteMany(filter, options), retry);
+  }
+
+  async findOneAndUpdate(
+    filter: Filter<T>,
+    update: UpdateFilter<T>,
+    options: FindOneAndUpdateOptions = {},
+    retry: ExecuteOptions = {}
+  ): Promise<WithId<T> | null> {
+    return this.run('findOneAndUpdate', () => this.collection.findOneAndUpdate(filter, update, options), retry);
+  }
+
+  async findOneAndReplace(
+    filter: Filter<T>,
+    replacement: WithoutId<T>,
+    options: FindOneAndReplaceOptions = {},
+    retry: ExecuteOptions = {}
+  ): Promise<WithId<T> | null> {
+    return this.run('findOneAndReplace', () => this.collection.findOneAndReplace(filter, replacement, options), retry);
+  }
+
+  async findOneAndDelete(
+    filter: Filter<T>,
+    options: FindOneAndDeleteOptions = {},
+    retry: ExecuteOptions = {}
+  ): Promise<WithId<T> | null> {
+    return this.run('findOneAndDelete', () => this.collection.findOneAndDelete(filter, options), retry);
+  }
+
+  async bulkWrite(
+    operations: AnyBulkWriteOperation<T>[],
+    options: BulkWriteOptions = {},
+    retry: ExecuteOptions = {}
+  ): Promise<BulkWriteResult> {
+    return this.run('bulkWrite', () => this.collection.bulkWrite(operations, options), retry);
+  }
+
+  // Each collection trips its own circuit breaker unless the caller names another
+  private async run<R>(operation: string, fn: () => Promise<R>, options: ExecuteOptions): Promise<R> {
+    const { result } = await this.handler.execute(operation, fn, { circuitKey: this.collection.collectionName, ...options });
+    return result;
+  }
+}
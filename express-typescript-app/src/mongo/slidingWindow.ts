@@ -0,0 +1,134 @@
+// slidingWindow.ts
+import { SlidingWindowConfig } from './types';
+
+export interface CallOutcome {
+  failed: boolean;
+  slow: boolean;
+}
+
+export interface WindowSnapshot {
+  calls: number;
+  failures: number;
+  slowCalls: number;
+  // Percentages of calls; 0 while the window is empty
+  failureRate: number;
+  slowCallRate: number;
+}
+
+export interface SlidingWindow {
+  record(outcome: CallOutcome, now: number): void;
+  snapshot(now: number): WindowSnapshot;
+  reset(): void;
+}
+
+interface Totals {
+  calls: number;
+  failures: number;
+  slowCalls: number;
+}
+
+const toSnapshot = ({ calls, failures, slowCalls }: Totals): WindowSnapshot => ({
+  calls,
+  failures,
+  slowCalls,
+  failureRate: calls === 0 ? 0 : (failures / calls) * 100,
+  slowCallRate: calls === 0 ? 0 : (slowCalls / calls) * 100
+});
+
+/**
+ * The last `size` calls, kept in a ring with running totals
+ */
+export class CountWindow implements SlidingWindow {
+  private outcomes: CallOutcome[] = [];
+  private next = 0;
+  private totals: Totals = { calls: 0, failures: 0, slowCalls: 0 };
+
+  constructor(private readonly size: number) {}
+
+  record(outcome: CallOutcome): void {
+    const evicted = this.outcomes.length === this.size ? this.outcomes[this.next] : undefined;
+    if (evicted) {
+      this.add(evicted, -1);
+    }
+
+    this.outcomes[this.next] = outcome;
+    this.next = (this.next + 1) % this.size;
+    this.add(outcome, 1);
+  }
+
+  snapshot(): WindowSnapshot {
+    return toSnapshot(this.totals);
+  }
+
+  reset(): void {
+    this.outcomes = [];
+    this.next = 0;
+    this.totals = { calls: 0, failures: 0, slowCalls: 0 };
+  }
+
+  private add({ failed, slow }: CallOutcome, sign: 1 | -1): void {
+    this.totals.calls += sign;
+    this.totals.failures += failed ? sign : 0;
+    this.totals.slowCalls += slow ? sign : 0;
+  }
+}
+
+/**
+ * Calls in the last `sizeMs`, counted in one-second buckets so memory doesn't grow with traffic
+ */
+export class TimeWindow implements SlidingWindow {
+  private static readonly BUCKET_MS = 1000;
+
+  private readonly buckets: Array<Totals & { start: number }>;
+
+  constructor(sizeMs: number) {
+    const count = Math.max(1, Math.ceil(sizeMs / TimeWindow.BUCKET_MS));
+    this.buckets = Array.from({ length: count }, () => ({ start: -Infinity, calls: 0, failures: 0, slowCalls: 0 }));
+  }
+
+  record({ failed, slow }: CallOutcome, now: number): void {
+    const bucket = this.bucketAt(now);
+    bucket.calls++;
+    bucket.failures += failed ? 1 : 0;
+    bucket.slowCalls += slow ? 1 : 0;
+  }
+
+  snapshot(now: number): WindowSnapshot {
+    const oldest = this.bucketStart(now) - (this.buckets.length - 1) * TimeWindow.BUCKET_MS;
+    return toSnapshot(
+      this.buckets
+        .filter(({ start }) => start >= oldest && start <= now)
+        .reduce(
+          (sum, bucket) => ({
+            calls: sum.calls + bucket.calls,
+            failures: sum.failures + bucket.failures,
+            slowCalls: sum.slowCalls + bucket.slowCalls
+          }),
+          { calls: 0, failures: 0, slowCalls: 0 }
+        )
+    );
+  }
+
+  reset(): void {
+    this.buckets.forEach(bucket => Object.assign(bucket, { start: -Infinity, calls: 0, failures: 0, slowCalls: 0 }));
+  }
+
+  private bucketStart(now: number): number {
+    return Math.floor(now / TimeWindow.BUCKET_MS) * TimeWindow.BUCKET_MS;
+  }
+
+  // The bucket for `now`, cleared first if it still holds an older second
+  private bucketAt(now: number): Totals & { start: number } {
+    const start = this.bucketStart(now);
+    const slot = (start / TimeWindow.BUCKET_MS) % this.buckets.length;
+    let bucket = this.buckets[slot];
+    if (bucket === undefined || bucket.start !== start) {
+      bucket = { start, calls: 0, failures: 0, slowCalls: 0 };
+      this.buckets[slot] = bucket;
+    }
+    return bucket;
+  }
+}
+
+export const createSlidingWindow = (config: SlidingWindowConfig): SlidingWindow =>
+  config.type === 'time' ? new TimeWindow(config.sizeMs) : new CountWindow(config.size);
@@ -1,4 +1,4 @@
-// type-safe-helpers.ts
+// typeSafeHelpers.ts
 import { InsertManyResult } from 'mongodb';
 import { AttemptResult, InsertResult } from './types';
 
@@ -15,7 +15,7 @@ export class TypeSafeHelpers {
   ): AttemptResult | null {
     const index = currentAttempt - 2; // -1 for zero-based, -1 for previous
     return index >= 0 && index < attemptResults.length 
-      ? attemptResults[index] 
+      ? attemptResults[index] ?? null
       : null;
   }
 
@@ -58,6 +58,28 @@ export class TypeSafeHelpers {
     return 'Unknown error';
   }
 
+  /**
+   * Safely extract the per-document errors of a bulk write error; null for other errors
+   */
+  static getWriteErrors(error: unknown): Array<{ index: number; code?: number; errmsg?: string }> | null {
+    if (typeof error !== 'object' || error === null || !('writeErrors' in error)) {
+      return null;
+    }
+
+    const { writeErrors } = error as { writeErrors: unknown };
+    return (Array.isArray(writeErrors) ? writeErrors : [writeErrors])
+      .filter((writeError): writeError is { index: number; errmsg?: unknown } =>
+        typeof writeError === 'object' && writeError !== null && typeof writeError.index === 'number')
+      .map(writeError => {
+        const code = this.getErrorCode(writeError);
+        return {
+          index: writeError.index,
+          ...(code !== undefined && { code }),
+          ...(typeof writeError.errmsg === 'string' && { errmsg: writeError.errmsg })
+        };
+      });
+  }
+
   /**
    * Safely extract inserted count from result
    */
@@ -82,7 +104,7 @@ export class TypeSafeHelpers {
   /**
    * Type guard to check if a value is an error result
    */
-  static isErrorResult(value: any): value is { error: Error; chunk: any[] } {
+  static isErrorResult(value: any): value is { error: Error; chunk: any[]; deadLetterId?: string } {
     return (
       value &&
       typeof value === 'object' &&
@@ -117,10 +139,11 @@ export class TypeSafeHelpers {
     startTime: number,
     attemptResults: AttemptResult[]
   ): AttemptResult {
+    const errorCode = this.getErrorCode(error);
     return {
       attempt,
       error: this.getErrorMessage(error),
-      errorCode: this.getErrorCode(error),
+      ...(errorCode !== undefined && { errorCode }),
       timestamp: new Date().toISOString(),
       duration: this.calculateAttemptDuration(attemptResults, attempt, startTime)
     };
@@ -198,10 +221,10 @@ export class TypeSafeHelpers {
     results: PromiseSettledResult<any>[]
   ): {
     successful: Array<InsertResult<T>>;
-    failed: Array<{ error: Error; chunk: T[] }>;
+    failed: Array<{ error: Error; chunk: T[]; deadLetterId?: string }>;
   } {
     const successful: Array<InsertResult<T>> = [];
-    const failed: Array<{ error: Error; chunk: T[] }> = [];
+    const failed: Array<{ error: Error; chunk: T[]; deadLetterId?: string }> = [];
 
     for (const result of results) {
       if (result.status === 'fulfilled') {
@@ -210,7 +233,8 @@ export class TypeSafeHelpers {
         } else if (this.isErrorResult(result.value)) {
           failed.push({
             error: result.value.error,
-            chunk: Array.isArray(result.value.chunk) ? result.value.chunk : []
+            chunk: Array.isArray(result.value.chunk) ? result.value.chunk : [],
+            ...(typeof result.value.deadLetterId === 'string' && { deadLetterId: result.value.deadLetterId })
           });
         }
       } else {
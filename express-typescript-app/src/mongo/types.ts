@@ -0,0 +1,262 @@
+// types.ts
+import { InsertManyResult, BulkWriteOptions, InferIdType } from 'mongodb';
+
+export interface RetryConfig {
+  maxRetries?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  backoffMultiplier?: number;
+  jitter?: boolean;
+  retryableErrors?: string[];
+  retryableCodes?: number[];
+  onRetry?: RetryCallback | null;
+  onFailure?: FailureCallback | null;
+  circuit?: CircuitBreakerConfig | null;
+  // Where insertManyBatched keeps the documents of batches that ran out of retries
+  deadLetter?: DeadLetterSink | null;
+}
+
+export type SlidingWindowConfig =
+  | { type: 'count'; size: number }
+  | { type: 'time'; sizeMs: number };
+
+export interface CircuitBreakerConfig {
+  // How long the breaker stays open before letting trial calls through (ms)
+  timeout: number;
+  // Identifies the breaker in metrics and logs
+  name?: string;
+  // Shorthand for opening after this many consecutive failures: a count window of
+  // `threshold` calls that opens at a 100% failure rate
+  threshold?: number;
+  // The calls failure and slow-call rates are computed over (default: the last 100 calls)
+  window?: SlidingWindowConfig;
+  // Calls the window must hold before the rates can open the breaker (default 10)
+  minimumCalls?: number;
+  // Open at or above this percentage of failed calls (default 50)
+  failureRateThreshold?: number;
+  // Calls taking longer than this count as slow (ms, default 60000)
+  slowCallDurationMs?: number;
+  // Open at or above this percentage of slow calls (default 100)
+  slowCallRateThreshold?: number;
+  // Trial calls let through while half-open; the breaker closes or reopens once they complete (default 1)
+  halfOpenMaxCalls?: number;
+}
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerState {
+  // Failures in the current window
+  failures: number;
+  lastFailureTime: number;
+  state: CircuitState;
+  calls: number;
+  slowCalls: number;
+  failureRate: number;
+  slowCallRate: number;
+}
+
+export interface StateChangeEvent {
+  breaker: string;
+  from: CircuitState;
+  to: CircuitState;
+  reason: string;
+  // Rates of the calls that decided the change
+  failureRate: number;
+  slowCallRate: number;
+  timestamp: string;
+}
+
+export interface AttemptResult {
+  attempt: number;
+  error: string;
+  errorCode?: number;
+  timestamp: string;
+  duration: number;
+}
+
+export interface RetryMetrics {
+  totalAttempts: number;
+  totalTime: number;
+  lastAttemptTime: number;
+  insertedCount: number;
+  attemptHistory: AttemptResult[];
+}
+
+export interface RetryContext {
+  operation: string;
+  attempt: number;
+  delay: number;
+  totalTime: number;
+  nextRetryAt: string;
+}
+
+export interface FailureContext {
+  operation: string;
+  attempts: number;
+  totalTime: number;
+  // The documents of a failed insert; empty for other operations
+  batch: any[];
+  attemptHistory: AttemptResult[];
+}
+
+export interface ExecuteOptions {
+  // Counts the call against its own circuit breaker, e.g. per collection, instead of the handler's
+  circuitKey?: string;
+  // Whether running the operation twice leaves the same state as running it once. Operations
+  // that aren't are only retried when the error shows they never reached the server.
+  idempotent?: boolean;
+  // Give up on an attempt after this long; the server may still complete it
+  timeoutMs?: number;
+}
+
+export interface OperationResult<R> {
+  result: R;
+  metrics: RetryMetrics;
+}
+
+// Why a document was rejected for good, so retrying it can't help
+export type RejectionReason = 'duplicateKey' | 'validation' | 'other';
+
+export interface RejectedDocument<T = Document> {
+  // Position in the documents passed to insertManyWithRetry / insertManyBatched
+  index: number;
+  document: T;
+  reason: RejectionReason;
+  code?: number;
+  message: string;
+}
+
+// What an insert that ran out of retries had achieved by then
+export interface PartialInsert<T = Document> {
+  insertedCount: number;
+  // Ids of the inserted documents by their position in the batch
+  insertedIds: Record<number, InferIdType<T>>;
+  rejected: RejectedDocument<T>[];
+  // Documents still failing with retryable errors
+  remaining: T[];
+}
+
+export interface InsertResult<T> {
+  // insertedCount and insertedIds cover every attempt; insertedIds is keyed by position in the batch
+  result: InsertManyResult<T>;
+  metrics: RetryMetrics;
+  rejected: RejectedDocument<T>[];
+}
+
+export interface BatchOptions {
+  // Largest batch sent, and the size batches start at
+  batchSize?: number;
+  // Most batches in flight, and the number the run starts with
+  concurrency?: number;
+  mongoOptions?: BulkWriteOptions;
+  progressCallback?: ProgressCallback | null;
+  throttle?: ThrottleOptions;
+}
+
+// How insertManyBatched adapts to throttled responses (16500/429): concurrency and batch size
+// are cut multiplicatively on throttling and grow back additively while inserts succeed
+export interface ThrottleOptions {
+  // Floors for concurrency and batch size (defaults 1 and the smaller of 10 and batchSize)
+  minConcurrency?: number;
+  minBatchSize?: number;
+  // Concurrency and batch size are multiplied by this when throttled (default 0.5)
+  decreaseFactor?: number;
+  // Documents added to the batch size after each successful insert (default a tenth of batchSize)
+  batchSizeStep?: number;
+  // Retries allowed across the run: minRetries, plus retryRatio for every batch sent (defaults 10 and 0.2)
+  minRetries?: number;
+  retryRatio?: number;
+}
+
+export interface ThrottleSnapshot {
+  concurrency: number;
+  batchSize: number;
+  // Throttled responses so far
+  throttled: number;
+  // Retries left in the budget
+  retryBudget: number;
+}
+
+export interface ProgressInfo {
+  processed: number;
+  total: number;
+  percentage: number;
+  currentBatch: number;
+  // An estimate while the batch size adapts
+  totalBatches: number;
+  // Documents processed per second since the run started
+  documentsPerSecond: number;
+  concurrency: number;
+  batchSize: number;
+  throttled: number;
+  retryBudget: number;
+}
+
+export interface BatchResult {
+  totalInserted: number;
+  // Documents rejected for good (duplicate keys, validation); their batches still succeed
+  totalRejected: number;
+  successfulBatches: number;
+  failedBatches: number;
+  totalBatches: number;
+  details: {
+    successful: Array<InsertResult<any>>;
+    // Batches that ran out of retries, with the documents that were never inserted and,
+    // with a dead-letter sink configured, the id they were stored under
+    failed: Array<{ error: Error; chunk: any[]; deadLetterId?: string }>;
+    rejected: RejectedDocument[];
+  };
+}
+
+// Why a dead-lettered batch failed: throttled (16500/429), a retryable error that outlasted
+// the retries, an open circuit breaker, or an error retrying can't fix
+export type DeadLetterErrorType = 'throttled' | 'transient' | 'circuitOpen' | 'nonRetryable';
+
+export interface DeadLetterEntry<T = Document> {
+  id: string;
+  collection: string;
+  operation: string;
+  documents: T[];
+  errorType: DeadLetterErrorType;
+  error: { name: string; message: string; code?: number };
+  attemptHistory: AttemptResult[];
+  // ISO timestamps
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+export interface DeadLetterQuery {
+  collection?: string;
+  errorTypes?: DeadLetterErrorType[];
+  // Entries created in [from, to)
+  from?: Date;
+  to?: Date;
+  // Resolved entries are left out unless asked for
+  includeResolved?: boolean;
+}
+
+// Storage contract for dead-lettered batches
+export interface DeadLetterSink {
+  write(entry: DeadLetterEntry): Promise<void>;
+  // Oldest first
+  find(query?: DeadLetterQuery): Promise<DeadLetterEntry[]>;
+  markResolved(ids: string[], resolvedAt: Date): Promise<void>;
+}
+
+export interface ReplayResult {
+  // Entries whose documents are now all inserted (or were already)
+  resolved: string[];
+  // Entries left unresolved, with why
+  failed: Array<{ id: string; error: Error }>;
+  insertedCount: number;
+}
+
+export type RetryCallback = (error: Error, context: RetryContext) => Promise<void> | void;
+export type FailureCallback = (error: Error, context: FailureContext) => Promise<void> | void;
+export type StateChangeListener = (event: StateChangeEvent) => void;
+export type ProgressCallback = (progress: ProgressInfo) => Promise<void> | void;
+
+export type Document = Record<string, any>;
+
+// Re-export commonly used MongoDB types
+export type { Collection, InsertManyResult, BulkWriteOptions } from 'mongodb';
\ No newline at end of file
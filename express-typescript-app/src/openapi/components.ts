@@ -0,0 +1,213 @@
+import { JsonSchema, ref } from './jsonSchema';
+import { ResponseDoc } from './operation';
+
+const string: JsonSchema = { type: 'string' };
+const integer: JsonSchema = { type: 'integer' };
+const dateTime: JsonSchema = { type: 'string', format: 'date-time' };
+
+// Reusable schemas, published under #/components/schemas. The envelopes mirror ApiResponse,
+// ErrorResponse and ProblemDetails in types/index.ts.
+export const componentSchemas: Record<string, JsonSchema> = {
+  ApiResponse: {
+    type: 'object',
+    description: 'Envelope of every successful response; `data` holds the payload',
+    properties: {
+      success: { type: 'boolean' },
+      message: string,
+      data: {},
+      error: string,
+      timestamp: dateTime,
+    },
+    required: ['success', 'message', 'timestamp'],
+  },
+  ErrorResponse: {
+    type: 'object',
+    description: 'Error envelope, sent unless the client prefers application/problem+json',
+    properties: {
+      success: { const: false },
+      message: string,
+      error: string,
+      code: { type: 'string', description: 'Stable machine-readable error code, e.g. NOT_FOUND' },
+      requestId: string,
+      errors: { type: 'array', items: ref('FieldError'), description: 'Every violation when validation fails' },
+      timestamp: dateTime,
+      stack: string,
+    },
+    required: ['success', 'message', 'error', 'code', 'timestamp'],
+    additionalProperties: false,
+  },
+  ProblemDetails: {
+    type: 'object',
+    description: 'RFC 7807 problem details',
+    properties: {
+      type: string,
+      title: string,
+      status: integer,
+      detail: string,
+      instance: string,
+      code: string,
+      requestId: string,
+      errors: { type: 'array', items: ref('FieldError') },
+      stack: string,
+    },
+    required: ['type', 'title', 'status', 'detail', 'instance', 'code'],
+    additionalProperties: false,
+  },
+  FieldError: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'e.g. body.email' },
+      message: string,
+    },
+    required: ['path', 'message'],
+    additionalProperties: false,
+  },
+  PaginationMeta: {
+    type: 'object',
+    properties: {
+      totalCount: integer,
+      totalPages: integer,
+      currentPage: { type: ['integer', 'null'], description: 'null when paging by cursor' },
+      limit: integer,
+      hasNext: { type: 'boolean' },
+      hasPrev: { type: 'boolean' },
+      nextCursor: { type: ['string', 'null'] },
+    },
+    required: ['totalCount', 'totalPages', 'currentPage', 'limit', 'hasNext', 'hasPrev', 'nextCursor'],
+    additionalProperties: false,
+  },
+  User: {
+    type: 'object',
+    properties: {
+      id: string,
+      email: { type: 'string', format: 'email' },
+      firstName: string,
+      lastName: string,
+      role: { type: 'string', enum: ['admin', 'user'] },
+      version: { type: 'integer', description: 'Incremented on every change; sent as the ETag' },
+      createdAt: dateTime,
+      updatedAt: dateTime,
+      deletedAt: { ...dateTime, description: 'Set while the user is soft-deleted' },
+    },
+    required: ['id', 'email', 'firstName', 'lastName', 'role', 'version', 'createdAt', 'updatedAt'],
+    additionalProperties: false,
+  },
+  AuditEntry: {
+    type: 'object',
+    properties: {
+      id: string,
+      resourceType: string,
+      resourceId: string,
+      action: { type: 'string', enum: ['create', 'update', 'delete', 'restore'] },
+      actor: {
+        type: ['object', 'null'],
+        properties: { id: string, email: string },
+        required: ['id', 'email'],
+      },
+      requestId: { type: ['string', 'null'] },
+      timestamp: dateTime,
+      changes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { field: string, from: {}, to: {} },
+          required: ['field', 'from', 'to'],
+        },
+      },
+    },
+    required: ['id', 'resourceType', 'resourceId', 'action', 'actor', 'requestId', 'timestamp', 'changes'],
+    additionalProperties: false,
+  },
+  ImportResult: {
+    type: 'object',
+    properties: {
+      total: integer,
+      created: integer,
+      failed: integer,
+      errors: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            line: integer,
+            code: string,
+            message: string,
+            errors: { type: 'array', items: ref('FieldError') },
+          },
+          required: ['line', 'code', 'message'],
+        },
+      },
+    },
+    required: ['total', 'created', 'failed', 'errors'],
+    additionalProperties: false,
+  },
+  TokenPair: {
+    type: 'object',
+    properties: {
+      accessToken: string,
+      refreshToken: string,
+      tokenType: { const: 'Bearer' },
+      expiresIn: { type: 'number', description: 'Access token lifetime in seconds' },
+    },
+    required: ['accessToken', 'refreshToken', 'tokenType', 'expiresIn'],
+    additionalProperties: false,
+  },
+  HealthCheckResponse: {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: ['healthy', 'degraded', 'unhealthy'] },
+      timestamp: dateTime,
+      uptime: { type: 'number' },
+      version: string,
+      environment: string,
+      dependencies: { type: 'object', additionalProperties: ref('DependencyHealth') },
+    },
+    required: ['status', 'timestamp', 'uptime', 'version', 'environment'],
+    additionalProperties: false,
+  },
+  DependencyHealth: {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: ['up', 'down'] },
+      critical: { type: 'boolean' },
+      durationMs: { type: 'number' },
+      details: { type: 'object' },
+      error: string,
+    },
+    required: ['status', 'critical', 'durationMs'],
+    additionalProperties: false,
+  },
+};
+
+// ApiResponse with `data` narrowed to the given schema
+export const envelope = (data: JsonSchema): JsonSchema => ({
+  allOf: [ref('ApiResponse'), { type: 'object', properties: { data }, required: ['data'] }],
+});
+
+export const paginated = (item: JsonSchema): JsonSchema => ({
+  allOf: [
+    ref('ApiResponse'),
+    {
+      type: 'object',
+      properties: { data: { type: 'array', items: item }, pagination: ref('PaginationMeta') },
+      required: ['data', 'pagination'],
+    },
+  ],
+});
+
+export const jsonResponse = (description: string, schema: JsonSchema): ResponseDoc => ({
+  description,
+  content: { 'application/json': schema },
+});
+
+export const successResponse = (description: string, data: JsonSchema): ResponseDoc =>
+  jsonResponse(description, envelope(data));
+
+// Every error status: the envelope by default, problem details for clients that ask for them
+export const errorResponse: ResponseDoc = {
+  description: 'Error',
+  content: {
+    'application/json': ref('ErrorResponse'),
+    'application/problem+json': ref('ProblemDetails'),
+  },
+};
@@ -0,0 +1,76 @@
+import { OpenApiDocument, OperationObject } from './document';
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const pre = (value: unknown): string => `<pre>${escapeHtml(JSON.stringify(value, null, 2))}</pre>`;
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 1rem 2rem; color: #1f2328; }
+  section { border: 1px solid #d0d7de; border-radius: 6px; margin: 1rem 0; padding: 0 1rem; }
+  summary { cursor: pointer; padding: .75rem 0; }
+  .method { display: inline-block; min-width: 4rem; font-weight: bold; text-transform: uppercase; }
+  .lock { color: #9a6700; }
+  pre { background: #f6f8fa; padding: .75rem; overflow-x: auto; }
+  table { border-collapse: collapse; }
+  td, th { border: 1px solid #d0d7de; padding: .25rem .5rem; text-align: left; }
+`;
+
+const renderOperation = (method: string, path: string, operation: OperationObject): string => {
+  const parameters = operation.parameters?.length
+    ? `<h4>Parameters</h4><table><tr><th>Name</th><th>In</th><th>Required</th><th>Schema</th></tr>${
+      operation.parameters.map(parameter => `<tr><td>${escapeHtml(parameter.name)}</td><td>${parameter.in}</td>`
+        + `<td>${parameter.required ? 'yes' : 'no'}</td><td><code>${escapeHtml(JSON.stringify(parameter.schema))}</code></td></tr>`).join('')
+    }</table>`
+    : '';
+  const requestBody = operation.requestBody
+    ? `<h4>Request body</h4>${Object.entries(operation.requestBody.content)
+      .map(([mediaType, { schema }]) => `<p><code>${escapeHtml(mediaType)}</code></p>${pre(schema)}`).join('')}`
+    : '';
+  const responses = Object.entries(operation.responses)
+    .map(([status, response]) => `<h4>${escapeHtml(status)}: ${escapeHtml(response.description)}</h4>${
+      Object.entries(response.content ?? {})
+        .map(([mediaType, { schema }]) => `<p><code>${escapeHtml(mediaType)}</code></p>${pre(schema)}`).join('')
+    }`).join('');
+
+  return `<section id="${escapeHtml(operation.operationId)}"><details>
+<summary><span class="method">${method}</span> <code>${escapeHtml(path)}</code> ${escapeHtml(operation.summary)}${
+  operation.security ? ' <span class="lock" title="Requires a bearer token">&#128274;</span>' : ''
+}</summary>
+${operation.description ? `<p>${escapeHtml(operation.description)}</p>` : ''}${parameters}${requestBody}${responses}
+</details></section>`;
+};
+
+// A self-contained HTML rendering of the document. Server-rendered so it needs no scripts,
+// which the Content-Security-Policy set by helmet would block.
+export const renderDocsPage = (document: OpenApiDocument): string => {
+  const { title, version, description } = document.info;
+  const baseUrl = document.servers[0]?.url ?? '';
+
+  const operations = Object.entries(document.paths)
+    .flatMap(([path, methods]) => Object.entries(methods)
+      .map(([method, operation]) => renderOperation(method, `${baseUrl}${path}`, operation)))
+    .join('\n');
+  const schemas = Object.entries(document.components.schemas)
+    .map(([name, schema]) => `<section id="schema-${escapeHtml(name)}"><details><summary>${escapeHtml(name)}</summary>${pre(schema)}</details></section>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)} <small>${escapeHtml(version)}</small></h1>
+${description ? `<p>${escapeHtml(description)}</p>` : ''}
+<p>OpenAPI ${escapeHtml(document.openapi)} document: <a href="${escapeHtml(baseUrl)}/openapi.json">${escapeHtml(baseUrl)}/openapi.json</a></p>
+<h2>Operations</h2>
+${operations}
+<h2>Schemas</h2>
+${schemas}
+</body>
+</html>
+`;
+};
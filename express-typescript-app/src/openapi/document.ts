@@ -0,0 +1,220 @@
+import { Router } from 'express';
+import { ILayer } from 'express-serve-static-core';
+import { authenticate } from '@/middleware/auth';
+import { requestSchemaOf } from '@/middleware/validation';
+import { componentSchemas, errorResponse } from './components';
+import { JsonSchema, toJsonSchema } from './jsonSchema';
+import { MediaTypes, operationDocOf, RequestBodyDoc, ResponseDoc } from './operation';
+
+// A router mounted below the API root; its routes are grouped under `tag`
+export interface ApiMount {
+  path: string;
+  tag: string;
+  router: Router;
+}
+
+interface ParameterObject {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: JsonSchema;
+  description?: string;
+}
+
+interface MediaTypeObject {
+  schema: JsonSchema;
+}
+
+export interface ResponseObject {
+  description: string;
+  content?: Record<string, MediaTypeObject>;
+  headers?: Record<string, { description: string; schema: JsonSchema }>;
+}
+
+export interface OperationObject {
+  operationId: string;
+  tags: string[];
+  summary: string;
+  description?: string;
+  parameters?: ParameterObject[];
+  requestBody?: { description?: string; required: boolean; content: Record<string, MediaTypeObject> };
+  responses: Record<string, ResponseObject>;
+  security?: Array<Record<string, string[]>>;
+}
+
+export type HttpMethod = 'get' | 'put' | 'post' | 'delete' | 'patch';
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  servers: Array<{ url: string }>;
+  tags: Array<{ name: string }>;
+  paths: Record<string, Partial<Record<HttpMethod, OperationObject>>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, Record<string, string>>;
+  };
+}
+
+export interface DocumentInfo {
+  title: string;
+  version: string;
+  description?: string;
+  // Where the documented routes are mounted, e.g. /api/v1
+  serverUrl: string;
+}
+
+const BEARER_AUTH = 'bearerAuth';
+
+const joinPaths = (...parts: string[]): string =>
+  `/${parts.flatMap(part => part.split('/')).filter(Boolean).join('/')}`;
+
+// /users/:id -> /users/{id}
+export const toOpenApiPath = (expressPath: string): string => expressPath.replace(/:(\w+)/g, '{$1}');
+
+const toMediaTypes = (content: MediaTypes): Record<string, MediaTypeObject> =>
+  Object.fromEntries(Object.entries(content).map(([mediaType, schema]) => [mediaType, { schema }]));
+
+const toResponse = ({ description, content, headers }: ResponseDoc): ResponseObject => ({
+  description,
+  ...(content && { content: toMediaTypes(content) }),
+  ...(headers && {
+    headers: Object.fromEntries(
+      Object.entries(headers).map(([name, headerDescription]) => [name, { description: headerDescription, schema: { type: 'string' } }])
+    ),
+  }),
+});
+
+// What any error looks like, documented as every operation's `default` response
+export const defaultErrorResponse = toResponse(errorResponse);
+
+const toParameters = (location: 'path' | 'query', schema: JsonSchema | undefined): ParameterObject[] =>
+  Object.entries(schema?.properties ?? {}).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    return {
+      name,
+      in: location,
+      required: location === 'path' || (schema?.required ?? []).includes(name),
+      schema: propertySchema,
+      ...(description !== undefined && { description }),
+    };
+  });
+
+// Documents one route from its middleware: apiDoc() for the description and responses,
+// validate() for parameters and JSON body, authenticate (on the route or its router) for security
+const describeRoute = (
+  path: string,
+  handlers: readonly unknown[],
+  tag: string,
+  authenticated: boolean,
+  method: string
+): OperationObject => {
+  const doc = handlers.map(operationDocOf).find(Boolean);
+  if (!doc) {
+    throw new Error(`${method.toUpperCase()} ${path} has no apiDoc() description`);
+  }
+
+  const schemas = handlers.map(requestSchemaOf).find(Boolean) ?? {};
+  const pathNames = Array.from(path.matchAll(/:(\w+)/g), match => match[1] ?? '');
+  const pathSchema: JsonSchema = schemas.params
+    ? toJsonSchema(schemas.params)
+    : { type: 'object', properties: Object.fromEntries(pathNames.map(name => [name, { type: 'string' }])) };
+  const parameters = [
+    ...toParameters('path', pathSchema),
+    ...toParameters('query', schemas.query && toJsonSchema(schemas.query)),
+  ];
+
+  const requestBody: RequestBodyDoc | undefined = doc.requestBody
+    ?? (schemas.body && { content: { 'application/json': toJsonSchema(schemas.body) } });
+
+  return {
+    operationId: doc.operationId,
+    tags: [tag],
+    summary: doc.summary,
+    ...(doc.description !== undefined && { description: doc.description }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(requestBody && {
+      requestBody: {
+        ...(requestBody.description !== undefined && { description: requestBody.description }),
+        required: true,
+        content: toMediaTypes(requestBody.content),
+      },
+    }),
+    responses: {
+      ...Object.fromEntries(Object.entries(doc.responses).map(([status, response]) => [status, toResponse(response)])),
+      default: defaultErrorResponse,
+    },
+    ...(authenticated && { security: [{ [BEARER_AUTH]: [] }] }),
+  };
+};
+
+// Builds the OpenAPI 3.1 document from the routers themselves, so it can't drift from them.
+// `root` is the API router; routers it mounts are described when they are listed in `mounts`.
+export const buildOpenApiDocument = (root: Router, mounts: readonly ApiMount[], info: DocumentInfo): OpenApiDocument => {
+  const paths: OpenApiDocument['paths'] = {};
+
+  const walk = (router: Router, prefix: string, tag: string): void => {
+    let authenticated = false;
+
+    router.stack.forEach((layer: ILayer) => {
+      if (layer.handle === authenticate) {
+        authenticated = true;
+      }
+
+      const mount = mounts.find(candidate => candidate.router === layer.handle);
+      if (mount) {
+        walk(mount.router, joinPaths(prefix, mount.path), mount.tag);
+        return;
+      }
+
+      const { route } = layer;
+      if (!route) {
+        return;
+      }
+
+      const expressPath = joinPaths(prefix, route.path);
+      const handlers = route.stack.map(routeLayer => routeLayer.handle);
+      const routeAuthenticated = authenticated || handlers.includes(authenticate);
+
+      for (const method of new Set(route.stack.map(routeLayer => routeLayer.method as HttpMethod))) {
+        const template = toOpenApiPath(expressPath);
+        paths[template] = {
+          ...paths[template],
+          [method]: describeRoute(expressPath, handlers, tag, routeAuthenticated, method),
+        };
+      }
+    });
+  };
+
+  walk(root, '/', 'API');
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: info.title,
+      version: info.version,
+      ...(info.description !== undefined && { description: info.description }),
+    },
+    servers: [{ url: info.serverUrl }],
+    tags: [{ name: 'API' }, ...mounts.map(({ tag }) => ({ name: tag }))],
+    paths,
+    components: {
+      schemas: componentSchemas,
+      securitySchemes: {
+        [BEARER_AUTH]: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+    },
+  };
+};
+
+// The operation a request was routed to, if the document describes it
+export const findOperation = (
+  document: OpenApiDocument,
+  method: string,
+  expressPath: string
+): OperationObject | undefined => document.paths[toOpenApiPath(expressPath)]?.[method.toLowerCase() as HttpMethod];
+
+export const resolveRef = (document: OpenApiDocument) => (ref: string): JsonSchema | undefined => {
+  const prefix = '#/components/schemas/';
+  return ref.startsWith(prefix) ? document.components.schemas[ref.slice(prefix.length)] : undefined;
+};
@@ -0,0 +1,79 @@
+import { Schema } from '@/utils/schema';
+
+export type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+// JSON Schema 2020-12, the dialect of OpenAPI 3.1, limited to the keywords this API uses.
+// An empty schema accepts any value.
+export interface JsonSchema {
+  $ref?: string;
+  type?: JsonType | JsonType[];
+  description?: string;
+  format?: string;
+  enum?: readonly unknown[];
+  const?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+export const ref = (component: string): JsonSchema => ({ $ref: `#/components/schemas/${component}` });
+
+// The JSON Schema a request schema (see utils/schema) accepts
+export const toJsonSchema = (node: Schema): JsonSchema => {
+  const base: JsonSchema = node.description === undefined ? {} : { description: node.description };
+
+  switch (node.type) {
+    case 'string':
+      return {
+        ...base,
+        type: 'string',
+        ...(node.enum !== undefined && { enum: node.enum }),
+        ...(node.minLength !== undefined && { minLength: node.minLength }),
+        ...(node.maxLength !== undefined && { maxLength: node.maxLength }),
+        ...(node.pattern !== undefined && { pattern: node.pattern.source }),
+        ...(node.format !== undefined && { format: node.format }),
+      };
+    case 'number':
+      return {
+        ...base,
+        type: node.integer ? 'integer' : 'number',
+        ...(node.minimum !== undefined && { minimum: node.minimum }),
+        ...(node.maximum !== undefined && { maximum: node.maximum }),
+      };
+    case 'boolean':
+      return { ...base, type: 'boolean' };
+    case 'date':
+      return { ...base, type: 'string', format: 'date-time' };
+    case 'array':
+      return {
+        ...base,
+        type: 'array',
+        items: toJsonSchema(node.items),
+        ...(node.minItems !== undefined && { minItems: node.minItems }),
+        ...(node.maxItems !== undefined && { maxItems: node.maxItems }),
+      };
+    case 'object': {
+      const required = Object.entries(node.properties).filter(([, property]) => !property.optional).map(([key]) => key);
+      return {
+        ...base,
+        type: 'object',
+        properties: Object.fromEntries(
+          Object.entries(node.properties).map(([key, property]) => [key, toJsonSchema(property)])
+        ),
+        ...(required.length > 0 && { required }),
+        ...(node.unknown === 'reject' && { additionalProperties: false }),
+      };
+    }
+  }
+};
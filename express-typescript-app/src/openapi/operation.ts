@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import { JsonSchema } from './jsonSchema';
+
+// Schemas by media type, e.g. { 'application/json': ref('User') }
+export type MediaTypes = Record<string, JsonSchema>;
+
+export interface ResponseDoc {
+  description: string;
+  content?: MediaTypes;
+  // Response header names and what they carry
+  headers?: Record<string, string>;
+}
+
+export interface RequestBodyDoc {
+  description?: string;
+  content: MediaTypes;
+}
+
+// What the OpenAPI document says about a route beyond what its middleware already tells:
+// parameters and JSON bodies come from validate(), security from authenticate, and every
+// error status from the shared error response.
+export interface OperationDoc {
+  operationId: string;
+  summary: string;
+  description?: string;
+  // For bodies validate() doesn't describe, such as patches and import files
+  requestBody?: RequestBodyDoc;
+  // Successful (and other non-error) responses by status code
+  responses: Record<number, ResponseDoc>;
+}
+
+const OPERATION_DOC = Symbol('operationDoc');
+
+type DocumentedHandler = ((req: Request, res: Response, next: NextFunction) => void) & {
+  [OPERATION_DOC]: OperationDoc;
+};
+
+// Describes the route it is added to for the OpenAPI document; does nothing at request time
+export const apiDoc = (doc: OperationDoc): DocumentedHandler =>
+  Object.assign((_req: Request, _res: Response, next: NextFunction) => next(), { [OPERATION_DOC]: doc });
+
+export const operationDocOf = (handler: unknown): OperationDoc | undefined =>
+  typeof handler === 'function' ? (handler as Partial<DocumentedHandler>)[OPERATION_DOC] : undefined;
@@ -0,0 +1,127 @@
+import { FieldError } from '@/types';
+import { jsonEqual } from '@/utils/jsonPatch';
+import { JsonSchema, JsonType } from './jsonSchema';
+
+// Resolves a $ref such as #/components/schemas/User
+export type RefResolver = (ref: string) => JsonSchema | undefined;
+
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const typeOf = (value: unknown): JsonType =>
+  value === null ? 'null'
+    : Array.isArray(value) ? 'array'
+      : typeof value === 'number' ? (Number.isInteger(value) ? 'integer' : 'number')
+        : typeof value as JsonType;
+
+const hasType = (value: unknown, type: JsonType): boolean => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+// Checks a JSON value (as parsed from the wire, so no Dates) against a JSON Schema, collecting
+// every violation. Covers the keywords of JsonSchema only.
+export const validateJson = (schema: JsonSchema, value: unknown, resolve: RefResolver, path = ''): FieldError[] => {
+  const errors: FieldError[] = [];
+  const fail = (at: string, message: string): void => {
+    errors.push({ path: at, message });
+  };
+
+  const check = (node: JsonSchema, current: unknown, at: string): void => {
+    if (node.$ref !== undefined) {
+      const target = resolve(node.$ref);
+      if (!target) {
+        fail(at, `refers to unknown schema ${node.$ref}`);
+        return;
+      }
+      check(target, current, at);
+    }
+
+    node.allOf?.forEach(part => check(part, current, at));
+    if (node.anyOf && !node.anyOf.some(part => validateJson(part, current, resolve, at).length === 0)) {
+      fail(at, 'must match at least one of the allowed schemas');
+    }
+    if (node.oneOf && node.oneOf.filter(part => validateJson(part, current, resolve, at).length === 0).length !== 1) {
+      fail(at, 'must match exactly one of the allowed schemas');
+    }
+
+    if (node.type !== undefined) {
+      const types = Array.isArray(node.type) ? node.type : [node.type];
+      if (!types.some(type => hasType(current, type))) {
+        fail(at, `must be ${types.join(' or ')}, got ${typeOf(current)}`);
+        return;
+      }
+    }
+    if (node.const !== undefined && !jsonEqual(current, node.const)) {
+      fail(at, `must be ${JSON.stringify(node.const)}`);
+    }
+    if (node.enum && !node.enum.some(option => jsonEqual(current, option))) {
+      fail(at, `must be one of: ${node.enum.join(', ')}`);
+    }
+
+    if (typeof current === 'string') {
+      if (node.minLength !== undefined && current.length < node.minLength) {
+        fail(at, `must be at least ${node.minLength} characters`);
+      }
+      if (node.maxLength !== undefined && current.length > node.maxLength) {
+        fail(at, `must be at most ${node.maxLength} characters`);
+      }
+      if (node.pattern !== undefined && !new RegExp(node.pattern).test(current)) {
+        fail(at, `must match ${node.pattern}`);
+      }
+      if (node.format === 'date-time' && !(DATE_TIME.test(current) && !Number.isNaN(Date.parse(current)))) {
+        fail(at, 'must be an RFC 3339 date-time');
+      }
+      if (node.format === 'email' && !EMAIL.test(current)) {
+        fail(at, 'must be a valid email address');
+      }
+    }
+
+    if (typeof current === 'number') {
+      if (node.minimum !== undefined && current < node.minimum) {
+        fail(at, `must be at least ${node.minimum}`);
+      }
+      if (node.maximum !== undefined && current > node.maximum) {
+        fail(at, `must not exceed ${node.maximum}`);
+      }
+    }
+
+    if (Array.isArray(current)) {
+      if (node.minItems !== undefined && current.length < node.minItems) {
+        fail(at, `must have at least ${node.minItems} items`);
+      }
+      if (node.maxItems !== undefined && current.length > node.maxItems) {
+        fail(at, `must have at most ${node.maxItems} items`);
+      }
+      const { items } = node;
+      if (items) {
+        current.forEach((item, index) => check(items, item, joinPath(at, index)));
+      }
+    }
+
+    if (typeOf(current) === 'object') {
+      const object = current as Record<string, unknown>;
+      node.required?.forEach(key => {
+        if (!Object.prototype.hasOwnProperty.call(object, key)) {
+          fail(joinPath(at, key), 'is required');
+        }
+      });
+      for (const [key, item] of Object.entries(object)) {
+        const property = node.properties?.[key];
+        if (property) {
+          check(property, item, joinPath(at, key));
+        } else if (node.additionalProperties === false) {
+          fail(joinPath(at, key), 'is not allowed');
+        } else if (typeof node.additionalProperties === 'object') {
+          check(node.additionalProperties, item, joinPath(at, key));
+        }
+      }
+    }
+  };
+
+  check(schema, value, path);
+  return errors;
+};
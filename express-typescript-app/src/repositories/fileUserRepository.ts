@@ -0,0 +1,113 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ListResult, UserRecord, UserListQuery } from '@/types';
+import { getLogger } from '@/utils/requestContext';
+import { BulkInsertResult, LookupOptions, UserRepository } from './userRepository';
+import { MemoryUserRepository } from './memoryUserRepository';
+
+// Files written before users were versioned have no `version`; they start at 1
+type StoredUser = Omit<UserRecord, 'createdAt' | 'updatedAt' | 'deletedAt' | 'version'> & {
+  version?: number;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string;
+};
+
+// JSON-file backend for local runs: the file is read once, served from memory,
+// and rewritten atomically (temp file + rename) after every change.
+export class FileUserRepository implements UserRepository {
+  private store: Promise<MemoryUserRepository> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async findAll(): Promise<UserRecord[]> {
+    return (await this.load()).findAll();
+  }
+
+  async findPage(query: UserListQuery): Promise<ListResult<UserRecord>> {
+    return (await this.load()).findPage(query);
+  }
+
+  async findById(id: string, options?: LookupOptions): Promise<UserRecord | null> {
+    return (await this.load()).findById(id, options);
+  }
+
+  async findByEmail(email: string, options?: LookupOptions): Promise<UserRecord | null> {
+    return (await this.load()).findByEmail(email, options);
+  }
+
+  async findByEmails(emails: readonly string[], options?: LookupOptions): Promise<UserRecord[]> {
+    return (await this.load()).findByEmails(emails, options);
+  }
+
+  async insert(user: UserRecord): Promise<UserRecord> {
+    return this.mutate(store => store.insert(user));
+  }
+
+  // One file write for the whole batch
+  async insertMany(users: readonly UserRecord[]): Promise<BulkInsertResult> {
+    return this.mutate(store => store.insertMany(users));
+  }
+
+  async replace(user: UserRecord, expectedVersion: number): Promise<UserRecord | null> {
+    return this.mutate(store => store.replace(user, expectedVersion));
+  }
+
+  async delete(id: string, expectedVersion?: number): Promise<UserRecord | null> {
+    return this.mutate(store => store.delete(id, expectedVersion));
+  }
+
+  async count(): Promise<number> {
+    return (await this.load()).count();
+  }
+
+  // Fails while the file cannot be read or parsed
+  async ping(): Promise<void> {
+    await this.load();
+  }
+
+  private load(): Promise<MemoryUserRepository> {
+    this.store ??= this.readFile().then(users => new MemoryUserRepository(users));
+    return this.store;
+  }
+
+  private async readFile(): Promise<UserRecord[]> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      const stored = JSON.parse(content) as StoredUser[];
+      getLogger().info({ file: this.filePath, count: stored.length }, 'Loaded users from file');
+      return stored.map(({ deletedAt, ...user }) => ({
+        ...user,
+        version: user.version ?? 1,
+        createdAt: new Date(user.createdAt),
+        updatedAt: new Date(user.updatedAt),
+        ...(deletedAt !== undefined && { deletedAt: new Date(deletedAt) }),
+      }));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  // Mutations are serialised so concurrent requests can't interleave file writes
+  private mutate<T>(operation: (store: MemoryUserRepository) => Promise<T>): Promise<T> {
+    const result = this.writes.then(async () => {
+      const store = await this.load();
+      const value = await operation(store);
+      await this.writeFile(store.snapshot());
+      return value;
+    });
+    this.writes = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private async writeFile(users: UserRecord[]): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(users, null, 2), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,107 @@
+import { MongoClient } from 'mongodb';
+import { UserRecord } from '@/types';
+import { config } from '@/config/app';
+import { logger } from '@/config/logger';
+import { FileDeadLetterSink } from '@/mongo/fileDeadLetterSink';
+import { MongoRetryHandler } from '@/mongo/retryHandler';
+import { AuditStore } from '@/stores/auditStore';
+import { FileAuditStore } from '@/stores/fileAuditStore';
+import { MemoryAuditStore } from '@/stores/memoryAuditStore';
+import { AuditDocument, MongoAuditStore } from '@/stores/mongoAuditStore';
+import { hashPasswordSync } from '@/utils/password';
+import { UserRepository } from './userRepository';
+import { MemoryUserRepository } from './memoryUserRepository';
+import { FileUserRepository } from './fileUserRepository';
+import { MongoUserRepository, UserDocument } from './mongoUserRepository';
+
+export type { BulkInsertResult, InsertFailure, LookupOptions, UserRepository } from './userRepository';
+export { MemoryUserRepository } from './memoryUserRepository';
+export { FileUserRepository } from './fileUserRepository';
+export { MongoUserRepository } from './mongoUserRepository';
+
+// Example data for the in-memory store; both accounts use the password "password123".
+// Never seeded in production, where anyone who read this could sign in as the admin.
+const seedUsers = (): UserRecord[] => {
+  const passwordHash = hashPasswordSync('password123');
+  return [
+    {
+      id: '1',
+      email: 'john@example.com',
+      firstName: 'John',
+      lastName: 'Doe',
+      role: 'user',
+      passwordHash,
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+    {
+      id: '2',
+      email: 'jane@example.com',
+      firstName: 'Jane',
+      lastName: 'Smith',
+      role: 'admin',
+      passwordHash,
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+  ];
+};
+
+// Shared by the Mongo-backed repositories so health checks see the same circuit breakers.
+// Each collection gets its own breaker, opening when half of the calls in the last minute
+// failed (or 80% took over 5s), once there were at least 10.
+export const mongoRetryHandler = new MongoRetryHandler({
+  maxRetries: 3,
+  circuit: {
+    name: 'mongo',
+    timeout: 30000,
+    window: { type: 'time', sizeMs: 60000 },
+    minimumCalls: 10,
+    failureRateThreshold: 50,
+    slowCallDurationMs: 5000,
+    slowCallRateThreshold: 80,
+    halfOpenMaxCalls: 3,
+  },
+  deadLetter: new FileDeadLetterSink(config.mongoDeadLetterFile),
+});
+
+// One client for the users and audit collections. The driver connects lazily on the first operation.
+let mongoClient: MongoClient | null = null;
+const getMongoClient = (): MongoClient => {
+  mongoClient ??= new MongoClient(config.mongoUri);
+  return mongoClient;
+};
+
+// Pick the user store configured by USER_STORE
+export const createUserRepository = (): UserRepository => {
+  logger.info({ store: config.userStore }, 'Creating user repository');
+
+  switch (config.userStore) {
+    case 'file':
+      return new FileUserRepository(config.userStoreFile);
+    case 'mongo': {
+      const collection = getMongoClient().db(config.mongoDbName).collection<UserDocument>(config.mongoUsersCollection);
+      return new MongoUserRepository(collection, mongoRetryHandler);
+    }
+    case 'memory':
+    default:
+      return new MemoryUserRepository(config.isProduction ? [] : seedUsers());
+  }
+};
+
+// The audit trail lives with the users, so it is as durable as the changes it records
+export const createAuditStore = (): AuditStore => {
+  switch (config.userStore) {
+    case 'file':
+      return new FileAuditStore(config.auditStoreFile);
+    case 'mongo': {
+      const collection = getMongoClient().db(config.mongoDbName).collection<AuditDocument>(config.mongoAuditCollection);
+      return new MongoAuditStore(collection, mongoRetryHandler);
+    }
+    case 'memory':
+    default:
+      return new MemoryAuditStore();
+  }
+};
@@ -0,0 +1,129 @@
+import { CursorPosition, ListResult, SortField, UserRecord, UserFilter, UserListQuery, UserSortField } from '@/types';
+import { compareValues } from '@/utils/pagination';
+import { BulkInsertResult, LookupOptions, UserRepository } from './userRepository';
+
+const isVisible = (user: UserRecord, { includeDeleted = false }: LookupOptions = {}): boolean =>
+  includeDeleted || user.deletedAt === undefined;
+
+const matchesFilter = (user: UserRecord, filter: UserFilter): boolean =>
+  isVisible(user) &&
+  (filter.role === undefined || user.role === filter.role) &&
+  (filter.email === undefined || user.email.toLowerCase().includes(filter.email.toLowerCase())) &&
+  (filter.createdFrom === undefined || user.createdAt >= filter.createdFrom) &&
+  (filter.createdTo === undefined || user.createdAt <= filter.createdTo);
+
+// Compare a user against a keyset position; the id breaks ties so the order is total
+const compareToPosition = (user: UserRecord, position: CursorPosition, sort: SortField<UserSortField>[]): number => {
+  for (const [index, { field, direction }] of sort.entries()) {
+    const result = compareValues(user[field], position.values[index]);
+    if (result !== 0) {
+      return direction === 'desc' ? -result : result;
+    }
+  }
+  return compareValues(user.id, position.id);
+};
+
+// Records are copied on the way in and out so callers can't mutate stored state
+export class MemoryUserRepository implements UserRepository {
+  private readonly users = new Map<string, UserRecord>();
+
+  constructor(initialUsers: UserRecord[] = []) {
+    initialUsers.forEach(user => this.users.set(user.id, { ...user }));
+  }
+
+  async findAll(): Promise<UserRecord[]> {
+    return Array.from(this.users.values())
+      .filter(user => isVisible(user))
+      .map(user => ({ ...user }));
+  }
+
+  async findPage(query: UserListQuery): Promise<ListResult<UserRecord>> {
+    const { filter, sort, limit, offset, after } = query;
+    const toPosition = (user: UserRecord): CursorPosition => ({ values: sort.map(s => user[s.field]), id: user.id });
+
+    const matching = Array.from(this.users.values())
+      .filter(user => matchesFilter(user, filter))
+      .sort((a, b) => compareToPosition(a, toPosition(b), sort));
+
+    const remaining = after
+      ? matching.filter(user => compareToPosition(user, after, sort) > 0)
+      : matching.slice(offset);
+
+    return {
+      items: remaining.slice(0, limit).map(user => ({ ...user })),
+      totalCount: matching.length,
+      hasMore: remaining.length > limit,
+    };
+  }
+
+  async findById(id: string, options?: LookupOptions): Promise<UserRecord | null> {
+    const user = this.users.get(id);
+    return user && isVisible(user, options) ? { ...user } : null;
+  }
+
+  async findByEmail(email: string, options?: LookupOptions): Promise<UserRecord | null> {
+    for (const user of this.users.values()) {
+      if (user.email === email && isVisible(user, options)) {
+        return { ...user };
+      }
+    }
+    return null;
+  }
+
+  async findByEmails(emails: readonly string[], options?: LookupOptions): Promise<UserRecord[]> {
+    const wanted = new Set(emails);
+    return Array.from(this.users.values())
+      .filter(user => wanted.has(user.email) && isVisible(user, options))
+      .map(user => ({ ...user }));
+  }
+
+  async insert(user: UserRecord): Promise<UserRecord> {
+    if (this.users.has(user.id)) {
+      throw new Error(`User ${user.id} already exists`);
+    }
+    this.users.set(user.id, { ...user });
+    return { ...user };
+  }
+
+  async insertMany(users: readonly UserRecord[]): Promise<BulkInsertResult> {
+    const result: BulkInsertResult = { insertedCount: 0, failures: [] };
+    for (const user of users) {
+      try {
+        await this.insert(user);
+        result.insertedCount++;
+      } catch (error) {
+        result.failures.push({ id: user.id, message: (error as Error).message });
+      }
+    }
+    return result;
+  }
+
+  async replace(user: UserRecord, expectedVersion: number): Promise<UserRecord | null> {
+    if (this.users.get(user.id)?.version !== expectedVersion) {
+      return null;
+    }
+    this.users.set(user.id, { ...user });
+    return { ...user };
+  }
+
+  async delete(id: string, expectedVersion?: number): Promise<UserRecord | null> {
+    const user = this.users.get(id);
+    if (!user || (expectedVersion !== undefined && user.version !== expectedVersion)) {
+      return null;
+    }
+    this.users.delete(id);
+    return user;
+  }
+
+  async count(): Promise<number> {
+    return Array.from(this.users.values()).filter(user => isVisible(user)).length;
+  }
+
+  async ping(): Promise<void> {
+    // Always reachable
+  }
+
+  snapshot(): UserRecord[] {
+    return Array.from(this.users.values(), user => ({ ...user }));
+  }
+}
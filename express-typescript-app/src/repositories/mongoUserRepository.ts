@@ -0,0 +1,170 @@
+import { Collection, Filter, Sort } from 'mongodb';
+import { CursorPosition, ListResult, SortField, UserRecord, UserFilter, UserListQuery, UserSortField } from '@/types';
+import { MongoRetryHandler } from '@/mongo/retryHandler';
+import { RetryingCollection } from '@/mongo/retryingCollection';
+import { BatchResult } from '@/mongo/types';
+import { BulkInsertResult, InsertFailure, LookupOptions, UserRepository } from './userRepository';
+
+const INSERT_BATCH_SIZE = 500;
+
+// Documents written before users were versioned have no `version`; they count as version 1
+export type UserDocument = Omit<UserRecord, 'id' | 'version'> & { _id: string; version?: number };
+
+const toRecord = ({ _id, version, ...rest }: UserDocument): UserRecord => ({ id: _id, version: version ?? 1, ...rest });
+
+const toDocument = ({ id, ...rest }: UserRecord): UserDocument => ({ _id: id, ...rest });
+
+const versionFilter = (version: number): Filter<UserDocument> =>
+  version === 1 ? { $or: [{ version: 1 }, { version: { $exists: false } }] } : { version };
+
+// Soft-deleted documents carry deletedAt; restoring a user replaces the document without it
+const NOT_DELETED: Filter<UserDocument> = { deletedAt: { $exists: false } };
+
+const visible = ({ includeDeleted = false }: LookupOptions = {}): Filter<UserDocument> =>
+  includeDeleted ? {} : NOT_DELETED;
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toMongoFilter = (filter: UserFilter): Filter<UserDocument> => ({
+  ...NOT_DELETED,
+  ...(filter.role !== undefined && { role: filter.role }),
+  ...(filter.email !== undefined && { email: { $regex: escapeRegex(filter.email), $options: 'i' } }),
+  ...((filter.createdFrom !== undefined || filter.createdTo !== undefined) && {
+    createdAt: {
+      ...(filter.createdFrom !== undefined && { $gte: filter.createdFrom }),
+      ...(filter.createdTo !== undefined && { $lte: filter.createdTo }),
+    },
+  }),
+});
+
+// Documents strictly after the position: (a > x) or (a == x and b > y) ... or (all equal and _id > id)
+const toKeysetFilter = (sort: SortField<UserSortField>[], position: CursorPosition): Filter<UserDocument> => {
+  const keys: Array<{ field: string; value: unknown; operator: '$gt' | '$lt' }> = [
+    ...sort.map(({ field, direction }, index) => ({
+      field,
+      value: position.values[index],
+      operator: direction === 'desc' ? '$lt' as const : '$gt' as const,
+    })),
+    { field: '_id', value: position.id, operator: '$gt' },
+  ];
+
+  return {
+    $or: keys.map((key, index) => ({
+      ...Object.fromEntries(keys.slice(0, index).map(previous => [previous.field, previous.value])),
+      [key.field]: { [key.operator]: key.value },
+    })),
+  } as Filter<UserDocument>;
+};
+
+// Documents the database rejected (such as duplicate ids) and those of batches that ran out of retries
+const toInsertFailures = ({ details }: BatchResult): InsertFailure[] => [
+  ...details.rejected.map(({ document, message }) => ({ id: (document as UserDocument)._id, message })),
+  ...details.failed.flatMap(({ error, chunk }) =>
+    (chunk as UserDocument[]).map(document => ({ id: document._id, message: error.message }))),
+];
+
+// MongoDB backend. The user id is stored as the document _id, so lookups by id
+// and uniqueness of ids are enforced by the primary key. Every operation goes through
+// the retry handler; version-checked writes are not retried (see RetryingCollection).
+export class MongoUserRepository implements UserRepository {
+  private readonly users: RetryingCollection<UserDocument>;
+
+  constructor(
+    private readonly collection: Collection<UserDocument>,
+    private readonly retryHandler: MongoRetryHandler
+  ) {
+    this.users = retryHandler.wrap(collection);
+  }
+
+  async findAll(): Promise<UserRecord[]> {
+    const documents = await this.users.find(NOT_DELETED, { sort: { createdAt: 1 } });
+    return documents.map(toRecord);
+  }
+
+  async findPage(query: UserListQuery): Promise<ListResult<UserRecord>> {
+    const { filter, sort, limit, offset, after } = query;
+    const mongoFilter = toMongoFilter(filter);
+    const mongoSort: Sort = [
+      ...sort.map(({ field, direction }): [string, 1 | -1] => [field, direction === 'desc' ? -1 : 1]),
+      ['_id', 1],
+    ];
+
+    const [documents, totalCount] = await Promise.all([
+      this.users.find(after ? { $and: [mongoFilter, toKeysetFilter(sort, after)] } : mongoFilter, {
+        sort: mongoSort,
+        skip: after ? 0 : offset,
+        limit: limit + 1,
+      }),
+      this.users.countDocuments(mongoFilter),
+    ]);
+
+    return {
+      items: documents.slice(0, limit).map(toRecord),
+      totalCount,
+      hasMore: documents.length > limit,
+    };
+  }
+
+  async findById(id: string, options?: LookupOptions): Promise<UserRecord | null> {
+    const document = await this.users.findOne({ _id: id, ...visible(options) });
+    return document ? toRecord(document) : null;
+  }
+
+  async findByEmail(email: string, options?: LookupOptions): Promise<UserRecord | null> {
+    const document = await this.users.findOne({ email, ...visible(options) });
+    return document ? toRecord(document) : null;
+  }
+
+  async findByEmails(emails: readonly string[], options?: LookupOptions): Promise<UserRecord[]> {
+    const documents = await this.users.find({ email: { $in: [...emails] }, ...visible(options) });
+    return documents.map(toRecord);
+  }
+
+  async insert(user: UserRecord): Promise<UserRecord> {
+    const { rejected } = await this.retryHandler.insertManyWithRetry(this.collection, [toDocument(user)]);
+    const [rejection] = rejected;
+    if (rejection) {
+      throw new Error(rejection.reason === 'duplicateKey' ? `User ${user.id} already exists` : rejection.message);
+    }
+    return user;
+  }
+
+  async insertMany(users: readonly UserRecord[]): Promise<BulkInsertResult> {
+    if (users.length === 0) {
+      return { insertedCount: 0, failures: [] };
+    }
+
+    const result = await this.retryHandler.insertManyBatched(this.collection, users.map(toDocument), {
+      batchSize: INSERT_BATCH_SIZE,
+    });
+    const failures = toInsertFailures(result);
+    return { insertedCount: users.length - failures.length, failures };
+  }
+
+  // The version in the filter makes the replace atomic against concurrent writers
+  async replace(user: UserRecord, expectedVersion: number): Promise<UserRecord | null> {
+    const { _id, ...fields } = toDocument(user);
+    const result = await this.users.findOneAndReplace(
+      { _id, ...versionFilter(expectedVersion) },
+      fields,
+      { returnDocument: 'after' }
+    );
+    return result ? toRecord(result) : null;
+  }
+
+  async delete(id: string, expectedVersion?: number): Promise<UserRecord | null> {
+    const result = await this.users.findOneAndDelete({
+      _id: id,
+      ...(expectedVersion !== undefined && versionFilter(expectedVersion)),
+    });
+    return result ? toRecord(result) : null;
+  }
+
+  async count(): Promise<number> {
+    return this.users.countDocuments(NOT_DELETED);
+  }
+
+  async ping(): Promise<void> {
+    await this.collection.db.command({ ping: 1 });
+  }
+}
@@ -0,0 +1,40 @@
+import { ListResult, UserRecord, UserListQuery } from '@/types';
+
+// Soft-deleted users (those with a deletedAt) are skipped unless includeDeleted is set
+export interface LookupOptions {
+  includeDeleted?: boolean;
+}
+
+// A user a bulk insert could not store, and why
+export interface InsertFailure {
+  id: string;
+  message: string;
+}
+
+export interface BulkInsertResult {
+  insertedCount: number;
+  failures: InsertFailure[];
+}
+
+// Storage contract for users. Business rules (uniqueness, not-found errors, soft deletion)
+// live in UserService; implementations only store and retrieve records. findAll, findPage
+// and count never include soft-deleted users.
+export interface UserRepository {
+  findAll(): Promise<UserRecord[]>;
+  findPage(query: UserListQuery): Promise<ListResult<UserRecord>>;
+  findById(id: string, options?: LookupOptions): Promise<UserRecord | null>;
+  findByEmail(email: string, options?: LookupOptions): Promise<UserRecord | null>;
+  // The users holding any of the emails, in no particular order
+  findByEmails(emails: readonly string[], options?: LookupOptions): Promise<UserRecord[]>;
+  insert(user: UserRecord): Promise<UserRecord>;
+  // Inserts in batches; one user failing doesn't stop the others
+  insertMany(users: readonly UserRecord[]): Promise<BulkInsertResult>;
+  // Compare-and-set: writes only while the stored version is still expectedVersion,
+  // otherwise (or when the user is missing) resolves to null
+  replace(user: UserRecord, expectedVersion: number): Promise<UserRecord | null>;
+  // Removes the record for good; without expectedVersion the delete is unconditional
+  delete(id: string, expectedVersion?: number): Promise<UserRecord | null>;
+  count(): Promise<number>;
+  // Resolves when the backing store is reachable; rejects otherwise (readiness probe)
+  ping(): Promise<void>;
+}
@@ -0,0 +1,89 @@
+import { Router } from 'express';
+import { config } from '@/config/app';
+import { login, refresh, logout, me } from '@/controllers/authController';
+import { asyncHandler } from '@/middleware/asyncHandler';
+import { authenticate } from '@/middleware/auth';
+import { rateLimit } from '@/middleware/rateLimit';
+import { validate } from '@/middleware/validation';
+import { successResponse } from '@/openapi/components';
+import { ref } from '@/openapi/jsonSchema';
+import { apiDoc } from '@/openapi/operation';
+import { loginRequest, refreshRequest, logoutRequest } from '@/schemas/authSchemas';
+
+const router = Router();
+
+// Slows down password guessing from a single address
+const loginLimit = rateLimit({
+  name: 'login',
+  limit: config.rateLimitLoginMax,
+  windowMs: config.rateLimitWindowMs,
+  keyBy: 'ip',
+});
+
+/**
+ * @route   POST /auth/login
+ * @desc    Exchange email and password for an access and refresh token
+ * @access  Public
+ */
+router.post(
+  '/login',
+  apiDoc({
+    operationId: 'login',
+    summary: 'Log in',
+    responses: { 200: successResponse('A new token pair', ref('TokenPair')) },
+  }),
+  loginLimit,
+  validate(loginRequest),
+  asyncHandler(login)
+);
+
+/**
+ * @route   POST /auth/refresh
+ * @desc    Exchange a refresh token for a new token pair
+ * @access  Public
+ */
+router.post(
+  '/refresh',
+  apiDoc({
+    operationId: 'refreshTokens',
+    summary: 'Refresh tokens',
+    description: 'Refresh tokens are single use; the presented token is revoked',
+    responses: { 200: successResponse('A new token pair', ref('TokenPair')) },
+  }),
+  validate(refreshRequest),
+  asyncHandler(refresh)
+);
+
+/**
+ * @route   POST /auth/logout
+ * @desc    Revoke a refresh token
+ * @access  Public
+ */
+router.post(
+  '/logout',
+  apiDoc({
+    operationId: 'logout',
+    summary: 'Log out',
+    responses: { 200: successResponse('The refresh token is revoked', { type: 'null' }) },
+  }),
+  validate(logoutRequest),
+  asyncHandler(logout)
+);
+
+/**
+ * @route   GET /auth/me
+ * @desc    Get the authenticated user
+ * @access  Private
+ */
+router.get(
+  '/me',
+  apiDoc({
+    operationId: 'getCurrentUser',
+    summary: 'Get the current user',
+    responses: { 200: successResponse('The authenticated user', ref('User')) },
+  }),
+  authenticate,
+  asyncHandler(me)
+);
+
+export default router;
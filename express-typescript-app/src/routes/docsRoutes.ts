@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { createDocsController } from '@/controllers/docsController';
+import { asyncHandler } from '@/middleware/asyncHandler';
+import { OpenApiDocument } from '@/openapi/document';
+import { jsonResponse } from '@/openapi/components';
+import { apiDoc } from '@/openapi/operation';
+
+export const docsRoutes = (getDocument: () => OpenApiDocument): Router => {
+  const router = Router();
+  const { openApiJson, docsPage } = createDocsController(getDocument);
+
+  /**
+   * @route   GET /openapi.json
+   * @desc    The OpenAPI 3.1 document describing this API
+   * @access  Public
+   */
+  router.get(
+    '/openapi.json',
+    apiDoc({
+      operationId: 'getOpenApiDocument',
+      summary: 'OpenAPI document',
+      responses: { 200: jsonResponse('This document', { type: 'object' }) },
+    }),
+    asyncHandler(openApiJson)
+  );
+
+  /**
+   * @route   GET /docs
+   * @desc    Browsable HTML rendering of the OpenAPI document
+   * @access  Public
+   */
+  router.get(
+    '/docs',
+    apiDoc({
+      operationId: 'getApiDocs',
+      summary: 'API documentation page',
+      responses: { 200: { description: 'HTML page', content: { 'text/html': { type: 'string' } } } },
+    }),
+    asyncHandler(docsPage)
+  );
+
+  return router;
+};
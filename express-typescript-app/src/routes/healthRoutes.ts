@@ -1,14 +1,52 @@
 import { Router } from 'express';
-import { healthCheck } from '@/controllers/healthController';
+import { healthCheck, liveness, readiness } from '@/controllers/healthController';
 import { asyncHandler } from '@/middleware/asyncHandler';
+import { envelope, jsonResponse, successResponse } from '@/openapi/components';
+import { ref } from '@/openapi/jsonSchema';
+import { apiDoc } from '@/openapi/operation';
 
 const router = Router();
 
+const healthResponse = successResponse('The service status', ref('HealthCheckResponse'));
+
 /**
  * @route   GET /health
- * @desc    Health check endpoint
+ * @desc    Health check endpoint (same as /health/live)
+ * @access  Public
+ */
+router.get(
+  '/',
+  apiDoc({ operationId: 'healthCheck', summary: 'Health check', responses: { 200: healthResponse } }),
+  asyncHandler(healthCheck)
+);
+
+/**
+ * @route   GET /health/live
+ * @desc    Liveness: the process is up; dependencies are not checked
+ * @access  Public
+ */
+router.get(
+  '/live',
+  apiDoc({ operationId: 'liveness', summary: 'Liveness probe', responses: { 200: healthResponse } }),
+  asyncHandler(liveness)
+);
+
+/**
+ * @route   GET /health/ready
+ * @desc    Readiness: runs every dependency probe; 503 when a critical one is down
  * @access  Public
  */
-router.get('/', asyncHandler(healthCheck));
+router.get(
+  '/ready',
+  apiDoc({
+    operationId: 'readiness',
+    summary: 'Readiness probe',
+    responses: {
+      200: healthResponse,
+      503: jsonResponse('A critical dependency is down', envelope(ref('HealthCheckResponse'))),
+    },
+  }),
+  asyncHandler(readiness)
+);
 
-export default router;
\ No newline at end of file
+export default router;
@@ -1,23 +1,75 @@
 import { Router } from 'express';
+import { config } from '@/config/app';
+import { rateLimit } from '@/middleware/rateLimit';
+import { jsonResponse } from '@/openapi/components';
+import { ApiMount, buildOpenApiDocument, OpenApiDocument } from '@/openapi/document';
+import { ref } from '@/openapi/jsonSchema';
+import { apiDoc } from '@/openapi/operation';
 import healthRoutes from './healthRoutes';
+import authRoutes from './authRoutes';
 import userRoutes from './userRoutes';
+import { docsRoutes } from './docsRoutes';
 
 const router = Router();
 
+// Routers described by the OpenAPI document, with the tag their operations are grouped under
+const apiMounts: ApiMount[] = [];
+
+const mount = (path: string, tag: string, routes: Router): void => {
+  apiMounts.push({ path, tag, router: routes });
+  router.use(path, routes);
+};
+
+// Built on first use, once every route is registered
+let document: OpenApiDocument | undefined;
+export const getApiDocument = (): OpenApiDocument => {
+  document ??= buildOpenApiDocument(router, apiMounts, {
+    title: 'Express TypeScript API',
+    version: process.env['npm_package_version'] || '1.0.0',
+    serverUrl: '/api/v1',
+  });
+  return document;
+};
+
 // Health check routes
-router.use('/health', healthRoutes);
+mount('/health', 'Health', healthRoutes);
+
+// OpenAPI document and docs page
+mount('/', 'Docs', docsRoutes(getApiDocument));
+
+// Everything below is rate limited per client IP: this runs before the routers authenticate,
+// so there is no user to key on yet. Not per X-API-Key either: nothing authenticates it, so a
+// client could send a new one for a fresh quota. Clients behind one NAT share the quota.
+// Health checks and docs stay unthrottled for load balancers and orchestrators
+router.use(rateLimit({
+  name: 'api',
+  limit: config.rateLimitMax,
+  windowMs: config.rateLimitWindowMs,
+  keyBy: 'ip',
+}));
+
+// Authentication routes
+mount('/auth', 'Auth', authRoutes);
 
 // User routes
-router.use('/users', userRoutes);
+mount('/users', 'Users', userRoutes);
 
 // Root route
-router.get('/', (req, res) => {
-  res.json({
-    success: true,
-    message: 'API is running!',
-    timestamp: new Date().toISOString(),
-    version: '1.0.0',
-  });
-});
+router.get(
+  '/',
+  apiDoc({
+    operationId: 'getApiStatus',
+    summary: 'API status',
+    responses: { 200: jsonResponse('The API is running', ref('ApiResponse')) },
+  }),
+  (_req, res) => {
+    res.json({
+      success: true,
+      message: 'API is running!',
+      timestamp: new Date().toISOString(),
+      version: '1.0.0',
+    });
+  }
+);
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { scrapeMetrics } from '@/controllers/metricsController';
+import { asyncHandler } from '@/middleware/asyncHandler';
+
+const router = Router();
+
+/**
+ * @route   GET /metrics
+ * @desc    Prometheus scrape endpoint (text exposition format)
+ * @access  Bearer METRICS_TOKEN when set; not served in production without one
+ */
+router.get('/', asyncHandler(scrapeMetrics));
+
+export default router;
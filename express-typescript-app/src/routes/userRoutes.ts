@@ -1,54 +1,278 @@
 import { Router } from 'express';
+import { config } from '@/config/app';
 import {
   getAllUsers,
   getUserById,
   createUser,
-  updateUser,
+  replaceUser,
+  patchUser,
   deleteUser,
+  restoreUser,
+  getUserHistory,
+  importUsers,
+  exportUsers,
 } from '@/controllers/userController';
 import { asyncHandler } from '@/middleware/asyncHandler';
-import { validateRequiredFields, validateEmail } from '@/middleware/validation';
+import { authenticate } from '@/middleware/auth';
+import { authorize, requireRole, isSelf, anyOf } from '@/middleware/authorize';
+import { idempotency } from '@/middleware/idempotency';
+import { rateLimit } from '@/middleware/rateLimit';
+import { validate } from '@/middleware/validation';
+import { paginated, successResponse } from '@/openapi/components';
+import { ref } from '@/openapi/jsonSchema';
+import { apiDoc, ResponseDoc } from '@/openapi/operation';
+import {
+  listUsersRequest,
+  getUserRequest,
+  createUserRequest,
+  replaceUserRequest,
+  patchUserRequest,
+  deleteUserRequest,
+  restoreUserRequest,
+  userHistoryRequest,
+  exportUsersRequest,
+} from '@/schemas/userSchemas';
 
 const router = Router();
 
+// Every user route requires a valid access token
+router.use(authenticate);
+
+const adminOnly = requireRole('admin');
+const adminOrSelf = anyOf(adminOnly, isSelf());
+
+// Bursts of account creation are allowed, sustained bulk creation is not
+const createLimit = rateLimit({
+  name: 'create-user',
+  limit: config.rateLimitCreateUserMax,
+  windowMs: config.rateLimitWindowMs,
+  algorithm: 'token-bucket',
+  keyBy: 'user',
+});
+
+// An import creates up to USER_IMPORT_MAX_ROWS users, so it gets a much smaller quota of its own
+const importLimit = rateLimit({
+  name: 'import-users',
+  limit: config.rateLimitImportMax,
+  windowMs: config.rateLimitWindowMs,
+  algorithm: 'token-bucket',
+  keyBy: 'user',
+});
+
+// Response headers described in the OpenAPI document
+const etagHeader = { ETag: 'The user\'s version, for If-Match and If-None-Match' };
+const replayedHeader = { 'Idempotent-Replayed': '"true" when this is a replay of an earlier response' };
+
+const userResponse = (description: string, headers: Record<string, string> = etagHeader): ResponseDoc => ({
+  ...successResponse(description, ref('User')),
+  headers,
+});
+
 /**
  * @route   GET /users
  * @desc    Get all users
- * @access  Public
+ * @access  Private (admin)
  */
-router.get('/', asyncHandler(getAllUsers));
+router.get(
+  '/',
+  apiDoc({
+    operationId: 'listUsers',
+    summary: 'List users',
+    description: 'Paged by page number or by cursor; filters combine with AND',
+    responses: { 200: { description: 'A page of users', content: { 'application/json': paginated(ref('User')) } } },
+  }),
+  authorize(adminOnly),
+  validate(listUsersRequest),
+  asyncHandler(getAllUsers)
+);
+
+/**
+ * @route   GET /users/export
+ * @desc    Stream every user matching the list filters as CSV or NDJSON (?format=csv|ndjson)
+ * @access  Private (admin)
+ */
+router.get(
+  '/export',
+  apiDoc({
+    operationId: 'exportUsers',
+    summary: 'Export users',
+    description: 'Streams every matching user; the CSV has a header row, NDJSON one user per line',
+    responses: {
+      200: {
+        description: 'The users, as an attachment',
+        content: { 'text/csv': { type: 'string' }, 'application/x-ndjson': { type: 'string' } },
+      },
+    },
+  }),
+  authorize(adminOnly),
+  validate(exportUsersRequest),
+  asyncHandler(exportUsers)
+);
 
 /**
  * @route   GET /users/:id
  * @desc    Get user by ID
- * @access  Public
+ * @access  Private (admin or the user themselves)
  */
-router.get('/:id', asyncHandler(getUserById));
+router.get(
+  '/:id',
+  apiDoc({
+    operationId: 'getUser',
+    summary: 'Get a user',
+    responses: {
+      200: userResponse('The user'),
+      304: { description: 'The user is unchanged since the version in If-None-Match' },
+    },
+  }),
+  authorize(adminOrSelf),
+  validate(getUserRequest),
+  asyncHandler(getUserById)
+);
 
 /**
  * @route   POST /users
- * @desc    Create a new user
- * @access  Public
+ * @desc    Create a new user; retries with the same Idempotency-Key replay the first response
+ * @access  Private (admin)
  */
 router.post(
   '/',
-  validateRequiredFields(['email', 'firstName', 'lastName']),
-  validateEmail,
+  apiDoc({
+    operationId: 'createUser',
+    summary: 'Create a user',
+    responses: { 201: userResponse('The created user', { ...etagHeader, ...replayedHeader }) },
+  }),
+  authorize(adminOnly),
+  createLimit,
+  idempotency(),
+  validate(createUserRequest),
   asyncHandler(createUser)
 );
 
+/**
+ * @route   POST /users/import
+ * @desc    Create users from a CSV or NDJSON body, reporting the rows that failed
+ * @access  Private (admin)
+ */
+router.post(
+  '/import',
+  apiDoc({
+    operationId: 'importUsers',
+    summary: 'Import users',
+    description: 'Valid rows are created even when others fail; each failed row is reported by line',
+    requestBody: {
+      description: 'A CSV file with a header row, or NDJSON with one user per line',
+      content: { 'text/csv': { type: 'string' }, 'application/x-ndjson': { type: 'string' } },
+    },
+    responses: { 200: { ...successResponse('What was imported', ref('ImportResult')), headers: replayedHeader } },
+  }),
+  authorize(adminOnly),
+  importLimit,
+  idempotency(),
+  asyncHandler(importUsers)
+);
+
 /**
  * @route   PUT /users/:id
- * @desc    Update user by ID
- * @access  Public
+ * @desc    Replace user by ID with the full representation in the body
+ * @access  Private (admin or the user themselves; per-role field rules in the controller)
  */
-router.put('/:id', asyncHandler(updateUser));
+router.put(
+  '/:id',
+  apiDoc({
+    operationId: 'replaceUser',
+    summary: 'Replace a user',
+    responses: { 200: userResponse('The updated user') },
+  }),
+  authorize(adminOrSelf),
+  validate(replaceUserRequest),
+  asyncHandler(replaceUser)
+);
+
+/**
+ * @route   PATCH /users/:id
+ * @desc    Update user by ID with a JSON Patch or JSON Merge Patch
+ * @access  Private (admin or the user themselves; per-role field rules in the controller)
+ */
+router.patch(
+  '/:id',
+  apiDoc({
+    operationId: 'patchUser',
+    summary: 'Patch a user',
+    requestBody: {
+      content: {
+        'application/merge-patch+json': { type: 'object', description: 'RFC 7396 merge patch' },
+        'application/json-patch+json': {
+          type: 'array',
+          description: 'RFC 6902 operations, applied all or nothing',
+          items: {
+            type: 'object',
+            properties: {
+              op: { type: 'string', enum: ['add', 'remove', 'replace', 'move', 'copy', 'test'] },
+              path: { type: 'string' },
+              from: { type: 'string' },
+              value: {},
+            },
+            required: ['op', 'path'],
+          },
+        },
+      },
+    },
+    responses: { 200: userResponse('The updated user') },
+  }),
+  authorize(adminOrSelf),
+  validate(patchUserRequest),
+  asyncHandler(patchUser)
+);
 
 /**
  * @route   DELETE /users/:id
- * @desc    Delete user by ID
- * @access  Public
+ * @desc    Soft-delete user by ID
+ * @access  Private (admin)
  */
-router.delete('/:id', asyncHandler(deleteUser));
+router.delete(
+  '/:id',
+  apiDoc({
+    operationId: 'deleteUser',
+    summary: 'Soft-delete a user',
+    responses: { 200: successResponse('The deleted user', ref('User')) },
+  }),
+  authorize(adminOnly),
+  validate(deleteUserRequest),
+  asyncHandler(deleteUser)
+);
+
+/**
+ * @route   POST /users/:id/restore
+ * @desc    Restore a soft-deleted user
+ * @access  Private (admin)
+ */
+router.post(
+  '/:id/restore',
+  apiDoc({
+    operationId: 'restoreUser',
+    summary: 'Restore a soft-deleted user',
+    responses: { 200: userResponse('The restored user') },
+  }),
+  authorize(adminOnly),
+  validate(restoreUserRequest),
+  asyncHandler(restoreUser)
+);
+
+/**
+ * @route   GET /users/:id/history
+ * @desc    Get the user's audit trail, oldest first
+ * @access  Private (admin)
+ */
+router.get(
+  '/:id/history',
+  apiDoc({
+    operationId: 'getUserHistory',
+    summary: 'Get a user\'s audit trail',
+    responses: { 200: successResponse('Audit entries, oldest first', { type: 'array', items: ref('AuditEntry') }) },
+  }),
+  authorize(adminOnly),
+  validate(userHistoryRequest),
+  asyncHandler(getUserHistory)
+);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { RequestSchema } from '@/middleware/validation';
+import { schema } from '@/utils/schema';
+
+const refreshTokenBody = schema.object({
+  refreshToken: schema.string({ minLength: 1 }),
+});
+
+export const loginRequest = {
+  body: schema.object({
+    email: schema.string({ minLength: 1, trim: true }),
+    password: schema.string({ minLength: 1 }),
+  }),
+} satisfies RequestSchema;
+
+export const refreshRequest = {
+  body: refreshTokenBody,
+} satisfies RequestSchema;
+
+export const logoutRequest = {
+  body: refreshTokenBody,
+} satisfies RequestSchema;
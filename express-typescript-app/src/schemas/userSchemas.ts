@@ -0,0 +1,93 @@
+import { RequestSchema } from '@/middleware/validation';
+import { pageQueryShape } from '@/utils/pagination';
+import { schema } from '@/utils/schema';
+
+const email = schema.string({ format: 'email', trim: true, maxLength: 254 });
+const name = schema.string({ trim: true, minLength: 1, maxLength: 100 });
+const role = schema.enum(['admin', 'user'] as const);
+
+const userIdParams = schema.object({
+  id: schema.string({ minLength: 1 }),
+});
+
+const userFilterShape = {
+  role: schema.optional(role),
+  email: schema.optional(schema.string({ description: 'Case-insensitive substring match' })),
+  createdFrom: schema.optional(schema.date()),
+  createdTo: schema.optional(schema.date()),
+};
+
+export const listUsersRequest = {
+  query: schema.object({
+    ...pageQueryShape,
+    ...userFilterShape,
+  }),
+} satisfies RequestSchema;
+
+// The list filters and sort, without paging: the export holds every matching user
+export const exportUsersRequest = {
+  query: schema.object({
+    format: schema.optional(schema.enum(['csv', 'ndjson'] as const)),
+    sort: pageQueryShape.sort,
+    ...userFilterShape,
+  }),
+} satisfies RequestSchema;
+
+export const getUserRequest = {
+  params: userIdParams,
+} satisfies RequestSchema;
+
+export const createUserRequest = {
+  body: schema.object({
+    email,
+    firstName: name,
+    lastName: name,
+    role: schema.optional(role),
+    password: schema.optional(schema.string({ minLength: 8, maxLength: 128 })),
+  }),
+} satisfies RequestSchema;
+
+// One row of an import file. Columns other than these (such as the read-only fields an export
+// contains) are ignored, so an export can be imported again.
+export const importUserRow = schema.object({
+  email,
+  firstName: name,
+  lastName: name,
+  role: schema.optional(role),
+});
+
+// A user as clients send it back: every writable field, plus the read-only ones a client may
+// echo from a GET. UserService rejects changes to id and createdAt and ignores the others.
+export const userRepresentation = schema.object({
+  id: schema.optional(schema.string()),
+  email,
+  firstName: name,
+  lastName: name,
+  role,
+  version: schema.optional(schema.integer()),
+  createdAt: schema.optional(schema.date()),
+  updatedAt: schema.optional(schema.date()),
+}, { unknown: 'reject' });
+
+// Full replacement: the body is the whole user
+export const replaceUserRequest = {
+  params: userIdParams,
+  body: userRepresentation,
+} satisfies RequestSchema;
+
+// The body is a merge patch or JSON Patch; the patched user is checked against userRepresentation
+export const patchUserRequest = {
+  params: userIdParams,
+} satisfies RequestSchema;
+
+export const deleteUserRequest = {
+  params: userIdParams,
+} satisfies RequestSchema;
+
+export const restoreUserRequest = {
+  params: userIdParams,
+} satisfies RequestSchema;
+
+export const userHistoryRequest = {
+  params: userIdParams,
+} satisfies RequestSchema;
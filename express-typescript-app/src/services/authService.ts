@@ -0,0 +1,100 @@
+import { randomUUID } from 'crypto';
+import { User } from '@/types';
+import { getLogger } from '@/utils/requestContext';
+import { UnauthorizedError } from '@/utils/errors';
+import { TokenService, tokenService } from './tokenService';
+import { UserService, userService } from './userService';
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+}
+
+interface IssuedRefreshToken {
+  userId: string;
+  expiresAt: Date;
+}
+
+// Refresh tokens are single use: each refresh revokes the presented token and issues a
+// new pair. Presenting a revoked token again is treated as theft and revokes every
+// refresh token of that user.
+export class AuthService {
+  private readonly refreshTokens = new Map<string, IssuedRefreshToken>();
+
+  constructor(
+    private readonly users: UserService,
+    private readonly tokens: TokenService
+  ) {}
+
+  async login(email: string, password: string): Promise<TokenPair> {
+    const user = await this.users.verifyCredentials(email, password);
+    if (!user) {
+      getLogger().warn({ email }, 'Failed login attempt');
+      throw new UnauthorizedError('Invalid email or password', 'INVALID_CREDENTIALS');
+    }
+
+    getLogger().info({ userId: user.id }, 'User logged in');
+    return this.issueTokens(user);
+  }
+
+  async refresh(refreshToken: string): Promise<TokenPair> {
+    const { userId, jti } = this.tokens.verifyRefreshToken(refreshToken);
+
+    const issued = this.refreshTokens.get(jti);
+    if (!issued) {
+      getLogger().warn({ userId }, 'Revoked refresh token presented, revoking all sessions');
+      this.revokeAll(userId);
+      throw new UnauthorizedError('Refresh token has been revoked', 'REFRESH_TOKEN_REVOKED');
+    }
+    this.refreshTokens.delete(jti);
+
+    const user = await this.users.findById(userId).catch(() => null);
+    if (!user) {
+      throw new UnauthorizedError('Refresh token has been revoked', 'REFRESH_TOKEN_REVOKED');
+    }
+
+    return this.issueTokens(user);
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    const { jti } = this.tokens.verifyRefreshToken(refreshToken);
+    this.refreshTokens.delete(jti);
+  }
+
+  private issueTokens(user: User): TokenPair {
+    this.pruneExpired();
+
+    const jti = randomUUID();
+    const refreshToken = this.tokens.signRefreshToken(user.id, jti);
+    const { expiresAt } = this.tokens.verifyRefreshToken(refreshToken);
+    this.refreshTokens.set(jti, { userId: user.id, expiresAt });
+
+    return {
+      accessToken: this.tokens.signAccessToken({ id: user.id, email: user.email, role: user.role }),
+      refreshToken,
+      tokenType: 'Bearer',
+      expiresIn: this.tokens.accessTokenTtl,
+    };
+  }
+
+  private revokeAll(userId: string): void {
+    for (const [jti, issued] of this.refreshTokens) {
+      if (issued.userId === userId) {
+        this.refreshTokens.delete(jti);
+      }
+    }
+  }
+
+  private pruneExpired(): void {
+    const now = new Date();
+    for (const [jti, issued] of this.refreshTokens) {
+      if (issued.expiresAt <= now) {
+        this.refreshTokens.delete(jti);
+      }
+    }
+  }
+}
+
+export const authService = new AuthService(userService, tokenService);
@@ -0,0 +1,74 @@
+import { performance } from 'perf_hooks';
+import { getHeapStatistics } from 'v8';
+import { MongoRetryHandler } from '@/mongo/retryHandler';
+import type { HealthProbe, ProbeOutcome } from './healthService';
+
+type ProbeOptions = Partial<Pick<HealthProbe, 'critical' | 'timeoutMs'>>;
+
+// The primary store answers a ping. Critical: without it no request can be served.
+export const databaseProbe = (ping: () => Promise<void>, options: ProbeOptions = {}): HealthProbe => ({
+  name: 'database',
+  critical: options.critical ?? true,
+  timeoutMs: options.timeoutMs ?? 2000,
+  check: async (): Promise<void> => {
+    await ping();
+  },
+});
+
+// An open breaker means the database (or one collection) is failing fast; the database
+// probe decides readiness
+export const circuitBreakerProbe = (handler: MongoRetryHandler, options: ProbeOptions = {}): HealthProbe => ({
+  name: 'circuitBreaker',
+  critical: options.critical ?? false,
+  timeoutMs: options.timeoutMs ?? 1000,
+  check: (): Promise<ProbeOutcome> => {
+    const states = handler.getCircuitBreakerStates();
+    if (!states) {
+      return Promise.resolve({ details: { state: 'DISABLED' } });
+    }
+
+    const breakers = Object.fromEntries(
+      Object.entries(states).map(([name, { state, failures, failureRate, slowCallRate }]) => [
+        name,
+        { state, failures, failureRate, slowCallRate },
+      ])
+    );
+    const open = Object.keys(states).filter(name => states[name]?.state === 'OPEN');
+    const halfOpen = Object.values(states).some(({ state }) => state === 'HALF_OPEN');
+
+    return Promise.resolve({
+      status: open.length > 0 ? 'down' : 'up',
+      details: { state: open.length > 0 ? 'OPEN' : halfOpen ? 'HALF_OPEN' : 'CLOSED', open, breakers },
+    });
+  },
+});
+
+// How long a callback queued now waits before it runs
+export const eventLoopLagProbe = (maxLagMs: number, options: ProbeOptions = {}): HealthProbe => ({
+  name: 'eventLoop',
+  critical: options.critical ?? false,
+  timeoutMs: options.timeoutMs ?? 1000,
+  check: async (): Promise<ProbeOutcome> => {
+    const start = performance.now();
+    await new Promise(resolve => setImmediate(resolve));
+    const lagMs = Math.round((performance.now() - start) * 100) / 100;
+
+    return { status: lagMs > maxLagMs ? 'down' : 'up', details: { lagMs, maxLagMs } };
+  },
+});
+
+// Heap usage against V8's heap limit
+export const memoryProbe = (maxHeapUsedPercent: number, options: ProbeOptions = {}): HealthProbe => ({
+  name: 'memory',
+  critical: options.critical ?? false,
+  timeoutMs: options.timeoutMs ?? 1000,
+  check: (): Promise<ProbeOutcome> => {
+    const { used_heap_size: heapUsed, heap_size_limit: heapLimit } = getHeapStatistics();
+    const heapUsedPercent = Math.round((heapUsed / heapLimit) * 1000) / 10;
+
+    return Promise.resolve({
+      status: heapUsedPercent > maxHeapUsedPercent ? 'down' : 'up',
+      details: { heapUsedPercent, maxHeapUsedPercent, heapUsed, heapLimit, rss: process.memoryUsage.rss() },
+    });
+  },
+});
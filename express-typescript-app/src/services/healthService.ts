@@ -0,0 +1,108 @@
+import { config } from '@/config/app';
+import { DependencyHealth, HealthCheckResponse } from '@/types';
+import { mongoRetryHandler } from '@/repositories';
+import { getLogger } from '@/utils/requestContext';
+import { circuitBreakerProbe, databaseProbe, eventLoopLagProbe, memoryProbe } from './healthProbes';
+import { userService } from './userService';
+
+// What a probe's check may report. Resolving without a status means "up"; throwing or
+// exceeding the probe's timeout means "down".
+export interface ProbeOutcome {
+  status?: DependencyHealth['status'];
+  details?: Record<string, unknown>;
+}
+
+export interface HealthProbe {
+  name: string;
+  // A critical probe that is down makes the service unhealthy (not ready); a non-critical
+  // one only degrades it
+  critical: boolean;
+  timeoutMs: number;
+  check(): Promise<ProbeOutcome | void>;
+}
+
+const withTimeout = async <T>(promise: Promise<T>, timeoutMs: number): Promise<T> => {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Registry of named dependency probes behind the liveness and readiness endpoints
+export class HealthService {
+  private readonly probes = new Map<string, HealthProbe>();
+
+  register(probe: HealthProbe): this {
+    this.probes.set(probe.name, probe);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.probes.delete(name);
+  }
+
+  // The process is up and serving requests; dependencies are deliberately not checked so
+  // an outage elsewhere does not get the pod restarted
+  liveness(): HealthCheckResponse {
+    return this.report('healthy');
+  }
+
+  // Runs every probe concurrently, each bounded by its own timeout
+  async readiness(): Promise<HealthCheckResponse> {
+    const results = await Promise.all(
+      Array.from(this.probes.values(), async probe => [probe.name, await this.run(probe)] as const)
+    );
+    const dependencies = Object.fromEntries(results);
+
+    const down = results.filter(([, result]) => result.status === 'down');
+    const status = down.some(([, result]) => result.critical) ? 'unhealthy' : down.length > 0 ? 'degraded' : 'healthy';
+
+    if (status !== 'healthy') {
+      getLogger().warn({ status, down: down.map(([name]) => name) }, 'Readiness check failed');
+    }
+
+    return { ...this.report(status), dependencies };
+  }
+
+  private async run(probe: HealthProbe): Promise<DependencyHealth> {
+    const start = Date.now();
+    try {
+      const outcome = await withTimeout(probe.check(), probe.timeoutMs);
+      return {
+        status: outcome?.status ?? 'up',
+        critical: probe.critical,
+        durationMs: Date.now() - start,
+        ...(outcome?.details && { details: outcome.details }),
+      };
+    } catch (error) {
+      return {
+        status: 'down',
+        critical: probe.critical,
+        durationMs: Date.now() - start,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private report(status: HealthCheckResponse['status']): HealthCheckResponse {
+    return {
+      status,
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+      version: process.env['npm_package_version'] || '1.0.0',
+      environment: config.nodeEnv,
+    };
+  }
+}
+
+export const healthService = new HealthService()
+  .register(databaseProbe(() => userService.ping(), { timeoutMs: config.healthProbeTimeoutMs }))
+  .register(circuitBreakerProbe(mongoRetryHandler, { timeoutMs: config.healthProbeTimeoutMs }))
+  .register(eventLoopLagProbe(config.healthMaxEventLoopLagMs, { timeoutMs: config.healthProbeTimeoutMs }))
+  .register(memoryProbe(config.healthMaxHeapUsedPercent, { timeoutMs: config.healthProbeTimeoutMs }));
@@ -0,0 +1,94 @@
+import jwt, { JsonWebTokenError, JwtPayload } from 'jsonwebtoken';
+import { AuthConfig, JwtKey, authConfig } from '@/config/auth';
+import { AuthUser } from '@/types';
+
+type TokenType = 'access' | 'refresh';
+
+export interface RefreshTokenPayload {
+  userId: string;
+  jti: string;
+  expiresAt: Date;
+}
+
+// Signs with the active key and verifies against every configured key, selected by
+// the `kid` header, so keys can be rotated without invalidating issued tokens.
+export class TokenService {
+  private readonly keys: Map<string, JwtKey>;
+  private readonly signingKey: JwtKey;
+
+  constructor(private readonly options: AuthConfig) {
+    this.keys = new Map(options.keys.map(key => [key.kid, key]));
+
+    const signingKey = this.keys.get(options.activeKeyId);
+    if (!signingKey) {
+      throw new Error(`Active JWT key "${options.activeKeyId}" is not configured`);
+    }
+    if (signingKey.algorithm === 'RS256' ? !signingKey.privateKey : !signingKey.secret) {
+      throw new Error(`Active JWT key "${signingKey.kid}" cannot sign tokens`);
+    }
+    this.signingKey = signingKey;
+  }
+
+  signAccessToken(user: AuthUser): string {
+    return this.sign({ email: user.email, role: user.role }, user.id, 'access', this.options.accessTokenTtl);
+  }
+
+  signRefreshToken(userId: string, jti: string): string {
+    return this.sign({}, userId, 'refresh', this.options.refreshTokenTtl, jti);
+  }
+
+  verifyAccessToken(token: string): AuthUser {
+    const payload = this.verify(token, 'access');
+    if (typeof payload['email'] !== 'string' || (payload['role'] !== 'admin' && payload['role'] !== 'user')) {
+      throw new JsonWebTokenError('invalid token claims');
+    }
+    return { id: payload.sub ?? '', email: payload['email'], role: payload['role'] };
+  }
+
+  verifyRefreshToken(token: string): RefreshTokenPayload {
+    const payload = this.verify(token, 'refresh');
+    if (!payload.jti || !payload.exp) {
+      throw new JsonWebTokenError('invalid token claims');
+    }
+    return { userId: payload.sub ?? '', jti: payload.jti, expiresAt: new Date(payload.exp * 1000) };
+  }
+
+  get accessTokenTtl(): number {
+    return this.options.accessTokenTtl;
+  }
+
+  private sign(claims: object, subject: string, type: TokenType, expiresIn: number, jwtid?: string): string {
+    const key = this.signingKey;
+    return jwt.sign({ ...claims, type }, (key.algorithm === 'RS256' ? key.privateKey : key.secret) ?? '', {
+      algorithm: key.algorithm,
+      keyid: key.kid,
+      subject,
+      expiresIn,
+      issuer: this.options.issuer,
+      audience: this.options.audience,
+      ...(jwtid !== undefined && { jwtid }),
+    });
+  }
+
+  private verify(token: string, type: TokenType): JwtPayload {
+    const decoded = jwt.decode(token, { complete: true });
+    const kid = decoded?.header.kid;
+    const key = kid !== undefined ? this.keys.get(kid) : undefined;
+    if (!key) {
+      throw new JsonWebTokenError('unknown signing key');
+    }
+
+    // Pin the algorithm to the key so an RS256 public key can't be used as an HS256 secret
+    const payload = jwt.verify(token, (key.algorithm === 'RS256' ? key.publicKey : key.secret) ?? '', {
+      algorithms: [key.algorithm],
+      issuer: this.options.issuer,
+      audience: this.options.audience,
+    });
+    if (typeof payload === 'string' || payload['type'] !== type || !payload.sub) {
+      throw new JsonWebTokenError(`expected ${type} token`);
+    }
+    return payload;
+  }
+}
+
+export const tokenService = new TokenService(authConfig);
@@ -1,111 +1,442 @@
-import { User } from '@/types';
-import { logger } from '@/config/logger';
-import { AppError } from '@/middleware/errorHandler';
-
-class UserService {
-  private users: User[] = [
-    {
-      id: '1',
-      email: 'john@example.com',
-      firstName: 'John',
-      lastName: 'Doe',
-      role: 'user',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    },
-    {
-      id: '2',
-      email: 'jane@example.com',
-      firstName: 'Jane',
-      lastName: 'Smith',
-      role: 'admin',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    },
-  ];
+import { randomUUID } from 'crypto';
+import { config } from '@/config/app';
+import { AuthUser, CursorPosition, FieldError, ListResult, SortField, User, UserFilter, UserRecord, UserSortField } from '@/types';
+import { getLogger, getRequestContext } from '@/utils/requestContext';
+import { ConflictError, NotFoundError, PreconditionFailedError, UnprocessableEntityError } from '@/utils/errors';
+import { LookupOptions, UserRepository, createAuditStore, createUserRepository } from '@/repositories';
+import { AuditAction, AuditEntry, AuditStore, FieldChange } from '@/stores/auditStore';
+import { MemoryAuditStore } from '@/stores/memoryAuditStore';
+import { decodeCursor, encodeCursor } from '@/utils/pagination';
+import { hashPassword, verifyPassword } from '@/utils/password';
+
+export type CreateUserData = Omit<User, 'id' | 'version' | 'createdAt' | 'updatedAt' | 'deletedAt'> & { password?: string };
+export type UpdateUserData = Partial<Omit<CreateUserData, 'password'>>;
+
+type WritableField = 'email' | 'firstName' | 'lastName' | 'role';
+const WRITABLE_FIELDS: readonly WritableField[] = ['email', 'firstName', 'lastName', 'role'];
+
+// The full representation a replacement produces: every writable field, plus read-only fields
+// a client may echo back. id and createdAt must not change; version and updatedAt are ignored.
+export type UserReplacement = Pick<User, WritableField> & Partial<Pick<User, 'id' | 'version' | 'createdAt' | 'updatedAt'>>;
+
+// Optimistic concurrency: the write only happens while the user is at one of these versions
+export interface WriteCondition {
+  ifMatch?: readonly number[];
+}
+
+export interface WriteOptions extends WriteCondition {
+  // Recorded in the audit trail as the author of the change
+  actor?: AuthUser;
+}
+
+export interface ReplaceOptions extends WriteOptions {
+  // Sees the fields the replacement changes before it is saved; throws to refuse it
+  authorize?: (current: User, changed: readonly WritableField[]) => void;
+}
+
+export const USER_SORT_FIELDS: readonly UserSortField[] = [
+  'email', 'firstName', 'lastName', 'role', 'createdAt', 'updatedAt',
+];
+export const DEFAULT_USER_SORT: SortField<UserSortField>[] = [{ field: 'createdAt', direction: 'asc' }];
+const USER_DATE_FIELDS: readonly UserSortField[] = ['createdAt', 'updatedAt'];
+
+export interface UserListOptions {
+  filter: UserFilter;
+  sort: SortField<UserSortField>[];
+  limit: number;
+  offset: number;
+  cursor?: string;
+}
+
+export interface UserPage extends ListResult<User> {
+  nextCursor: string | null;
+}
+
+// A user to create from line `line` of an import file
+export interface ImportRow {
+  line: number;
+  user: Omit<CreateUserData, 'password'>;
+}
+
+export interface ImportRowError {
+  line: number;
+  code: string;
+  message: string;
+  // Every violation, when the row failed validation
+  errors?: FieldError[];
+}
+
+export interface ImportResult {
+  created: User[];
+  errors: ImportRowError[];
+}
+
+// Rows read per page while exporting
+const EXPORT_PAGE_SIZE = 500;
+
+export interface UserServiceOptions {
+  // Soft-deleted users keep their email, so a new or changed user can't take it
+  reserveDeletedEmails?: boolean;
+}
+
+// Fields whose changes the audit trail records; credentials are never included
+const AUDITED_FIELDS = ['email', 'firstName', 'lastName', 'role', 'deletedAt'] as const;
+
+const AUDIT_RESOURCE_TYPE = 'user';
+
+// Strip credentials before a record leaves the service
+const toUser = ({ passwordHash: _passwordHash, ...user }: UserRecord): User => user;
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b;
+
+// Field-level diff between two states of a user; null stands for "did not exist"
+const diffUsers = (before: User | null, after: User | null): FieldChange[] =>
+  AUDITED_FIELDS
+    .map(field => ({ field, from: before?.[field] ?? null, to: after?.[field] ?? null }))
+    .filter(change => !sameValue(change.from, change.to));
+
+export class UserService {
+  private readonly emailLookup: LookupOptions;
+
+  constructor(
+    private readonly repository: UserRepository,
+    private readonly audit: AuditStore = new MemoryAuditStore(),
+    options: UserServiceOptions = {}
+  ) {
+    this.emailLookup = { includeDeleted: options.reserveDeletedEmails ?? false };
+  }
 
   async findAll(): Promise<User[]> {
-    logger.info('Fetching all users from service');
-    return this.users;
+    getLogger().info('Fetching all users from service');
+    return (await this.repository.findAll()).map(toUser);
+  }
+
+  async list(options: UserListOptions): Promise<UserPage> {
+    const { filter, sort, limit, offset, cursor } = options;
+    getLogger().info({ filter, sort, limit, offset, cursor }, 'Listing users from service');
+
+    const result = await this.repository.findPage({
+      filter,
+      sort,
+      limit,
+      offset,
+      ...(cursor !== undefined && { after: decodeCursor(cursor, sort, USER_DATE_FIELDS) }),
+    });
+
+    const last = result.items[result.items.length - 1];
+    const nextCursor = result.hasMore && last
+      ? encodeCursor(sort, { values: sort.map(s => last[s.field]), id: last.id })
+      : null;
+
+    return { ...result, items: result.items.map(toUser), nextCursor };
   }
 
   async findById(id: string): Promise<User> {
-    logger.info('Fetching user by ID from service', { userId: id });
-    
-    const user = this.users.find(u => u.id === id);
-    if (!user) {
-      throw new AppError('User not found', 404);
-    }
-    
-    return user;
+    getLogger().info({ userId: id }, 'Fetching user by ID from service');
+
+    return toUser(await this.getRecord(id));
   }
 
   async findByEmail(email: string): Promise<User | null> {
-    logger.info('Fetching user by email from service', { email });
-    
-    const user = this.users.find(u => u.email === email);
-    return user || null;
+    getLogger().info({ email }, 'Fetching user by email from service');
+
+    const user = await this.repository.findByEmail(email);
+    return user ? toUser(user) : null;
   }
 
-  async create(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<User> {
-    logger.info('Creating new user in service', { email: userData.email });
-    
-    // Check if user already exists
-    const existingUser = await this.findByEmail(userData.email);
-    if (existingUser) {
-      throw new AppError('User with this email already exists', 409);
+  // Returns the user only if the password matches; the same null result for an unknown
+  // email and a wrong password avoids revealing which accounts exist
+  async verifyCredentials(email: string, password: string): Promise<User | null> {
+    const user = await this.repository.findByEmail(email);
+    if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+      return null;
     }
+    return toUser(user);
+  }
+
+  async create({ password, ...userData }: CreateUserData, { actor }: Pick<WriteOptions, 'actor'> = {}): Promise<User> {
+    getLogger().info({ email: userData.email }, 'Creating new user in service');
+
+    await this.checkEmailAvailable(userData.email);
 
-    const newUser: User = {
-      id: (this.users.length + 1).toString(),
+    const now = new Date();
+    const newUser: UserRecord = {
       ...userData,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      id: randomUUID(),
+      ...(password !== undefined && { passwordHash: await hashPassword(password) }),
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
     };
 
-    this.users.push(newUser);
-    logger.info('User created successfully in service', { userId: newUser.id });
-    
-    return newUser;
+    await this.repository.insert(newUser);
+    getLogger().info({ userId: newUser.id }, 'User created successfully in service');
+
+    const user = toUser(newUser);
+    await this.record('create', null, user, actor);
+    return user;
   }
 
-  async update(id: string, userData: Partial<Omit<User, 'id' | 'createdAt' | 'updatedAt'>>): Promise<User> {
-    logger.info('Updating user in service', { userId: id });
-    
-    const userIndex = this.users.findIndex(u => u.id === id);
-    if (userIndex === -1) {
-      throw new AppError('User not found', 404);
+  // Creates users in bulk. Rows are checked independently: a row whose email is taken, or
+  // repeats an earlier row's, is reported and skipped while the others are created.
+  async importUsers(rows: readonly ImportRow[], { actor }: Pick<WriteOptions, 'actor'> = {}): Promise<ImportResult> {
+    getLogger().info({ rows: rows.length }, 'Importing users in service');
+
+    const taken = new Set(
+      (await this.repository.findByEmails(rows.map(row => row.user.email), this.emailLookup)).map(user => user.email)
+    );
+    const firstLine = new Map<string, number>();
+    const errors: ImportRowError[] = [];
+    const pending = new Map<string, { line: number; record: UserRecord }>();
+    const now = new Date();
+
+    for (const { line, user } of rows) {
+      const earlier = firstLine.get(user.email);
+      if (earlier !== undefined) {
+        errors.push({ line, code: 'DUPLICATE_EMAIL', message: `Email already appears on line ${earlier}` });
+        continue;
+      }
+      firstLine.set(user.email, line);
+
+      if (taken.has(user.email)) {
+        errors.push({ line, code: 'EMAIL_TAKEN', message: 'User with this email already exists' });
+        continue;
+      }
+
+      const record: UserRecord = { ...user, id: randomUUID(), version: 1, createdAt: now, updatedAt: now };
+      pending.set(record.id, { line, record });
     }
 
-    const updatedUser = {
-      ...this.users[userIndex],
-      ...userData,
+    const { failures } = await this.repository.insertMany(Array.from(pending.values(), ({ record }) => record));
+    for (const failure of failures) {
+      const row = pending.get(failure.id);
+      if (row) {
+        errors.push({ line: row.line, code: 'INSERT_FAILED', message: failure.message });
+        pending.delete(failure.id);
+      }
+    }
+
+    const created = Array.from(pending.values(), ({ record }) => toUser(record));
+    for (const user of created) {
+      await this.record('create', null, user, actor);
+    }
+
+    getLogger().info({ created: created.length, failed: errors.length }, 'Users imported in service');
+
+    return { created, errors: errors.sort((a, b) => a.line - b.line) };
+  }
+
+  // Every user matching the filter, in sort order, read a page at a time
+  async *stream(filter: UserFilter, sort: SortField<UserSortField>[]): AsyncGenerator<User> {
+    let after: CursorPosition | undefined;
+    let hasMore = true;
+
+    while (hasMore) {
+      const page = await this.repository.findPage({
+        filter,
+        sort,
+        limit: EXPORT_PAGE_SIZE,
+        offset: 0,
+        ...(after && { after }),
+      });
+
+      for (const record of page.items) {
+        yield toUser(record);
+      }
+
+      const last = page.items[page.items.length - 1];
+      hasMore = page.hasMore && last !== undefined;
+      after = last && { values: sort.map(s => last[s.field]), id: last.id };
+    }
+  }
+
+  // Only the given fields change; a shorthand for replace()
+  async update(id: string, userData: UpdateUserData, options: WriteOptions = {}): Promise<User> {
+    return this.replace(id, current => ({ ...current, ...userData }), options);
+  }
+
+  // Replaces the user with what `build` derives from its current state (a PUT body, or the
+  // result of applying a patch). Every write is a compare-and-set on the version read here,
+  // so a concurrent change between the read and the write is detected by every backend
+  // rather than silently overwritten.
+  async replace(id: string, build: (current: User) => UserReplacement, options: ReplaceOptions = {}): Promise<User> {
+    getLogger().info({ userId: id }, 'Replacing user in service');
+
+    const existingUser = await this.getRecord(id);
+    this.checkCondition(existingUser, options);
+
+    const current = toUser(existingUser);
+    const replacement = build(current);
+
+    if (replacement.id !== undefined && replacement.id !== current.id) {
+      throw new UnprocessableEntityError('User id cannot be changed', 'IMMUTABLE_FIELD');
+    }
+    if (replacement.createdAt !== undefined && replacement.createdAt.getTime() !== current.createdAt.getTime()) {
+      throw new UnprocessableEntityError('User createdAt cannot be changed', 'IMMUTABLE_FIELD');
+    }
+
+    const changed = WRITABLE_FIELDS.filter(field => replacement[field] !== current[field]);
+    options.authorize?.(current, changed);
+    if (changed.length === 0) {
+      return current;
+    }
+
+    if (changed.includes('email')) {
+      await this.checkEmailAvailable(replacement.email);
+    }
+
+    const updatedUser = await this.repository.replace({
+      ...existingUser,
+      email: replacement.email,
+      firstName: replacement.firstName,
+      lastName: replacement.lastName,
+      role: replacement.role,
+      version: existingUser.version + 1,
       updatedAt: new Date(),
-    };
+    }, existingUser.version);
+    if (!updatedUser) {
+      throw await this.lostWrite(id, options);
+    }
 
-    this.users[userIndex] = updatedUser;
-    logger.info('User updated successfully in service', { userId: id });
-    
-    return updatedUser;
+    getLogger().info({ userId: id, changed, version: updatedUser.version }, 'User replaced successfully in service');
+
+    const user = toUser(updatedUser);
+    await this.record('update', current, user, options.actor);
+    return user;
   }
 
-  async delete(id: string): Promise<User> {
-    logger.info('Deleting user in service', { userId: id });
-    
-    const userIndex = this.users.findIndex(u => u.id === id);
-    if (userIndex === -1) {
-      throw new AppError('User not found', 404);
+  // Soft delete: the user is marked with deletedAt and hidden from lookups, but kept
+  // (with its history) so an admin can restore it
+  async delete(id: string, options: WriteOptions = {}): Promise<User> {
+    getLogger().info({ userId: id }, 'Deleting user in service');
+
+    const existingUser = await this.getRecord(id);
+    this.checkCondition(existingUser, options);
+
+    const now = new Date();
+    const deletedUser = await this.repository.replace({
+      ...existingUser,
+      version: existingUser.version + 1,
+      updatedAt: now,
+      deletedAt: now,
+    }, existingUser.version);
+    if (!deletedUser) {
+      throw await this.lostWrite(id, options);
     }
 
-    const deletedUser = this.users.splice(userIndex, 1)[0];
-    logger.info('User deleted successfully in service', { userId: id });
-    
-    return deletedUser;
+    getLogger().info({ userId: id }, 'User deleted successfully in service');
+
+    const user = toUser(deletedUser);
+    await this.record('delete', toUser(existingUser), user, options.actor);
+    return user;
+  }
+
+  async restore(id: string, options: WriteOptions = {}): Promise<User> {
+    getLogger().info({ userId: id }, 'Restoring user in service');
+
+    const existingUser = await this.getRecord(id, { includeDeleted: true });
+    if (!existingUser.deletedAt) {
+      throw new ConflictError('User is not deleted', 'USER_NOT_DELETED');
+    }
+    this.checkCondition(existingUser, options);
+
+    // Unless deleted users' emails are reserved, someone else may have taken it meanwhile
+    await this.checkEmailAvailable(existingUser.email, existingUser.id);
+
+    const restored: UserRecord = { ...existingUser };
+    delete restored.deletedAt;
+    const restoredUser = await this.repository.replace({
+      ...restored,
+      version: existingUser.version + 1,
+      updatedAt: new Date(),
+    }, existingUser.version);
+    if (!restoredUser) {
+      throw await this.lostWrite(id, options);
+    }
+
+    getLogger().info({ userId: id }, 'User restored successfully in service');
+
+    const user = toUser(restoredUser);
+    await this.record('restore', toUser(existingUser), user, options.actor);
+    return user;
+  }
+
+  // The user's audit trail, oldest first; available for soft-deleted users too
+  async history(id: string): Promise<AuditEntry[]> {
+    await this.getRecord(id, { includeDeleted: true });
+    return this.audit.findByResource(AUDIT_RESOURCE_TYPE, id);
   }
 
   async count(): Promise<number> {
-    return this.users.length;
+    return this.repository.count();
+  }
+
+  // Checks the user store is reachable (readiness probe)
+  async ping(): Promise<void> {
+    await this.repository.ping();
+  }
+
+  private checkCondition(user: UserRecord, { ifMatch }: WriteCondition): void {
+    if (ifMatch && !ifMatch.includes(user.version)) {
+      throw new PreconditionFailedError(
+        `User has been modified (current version ${user.version})`,
+        'USER_VERSION_MISMATCH'
+      );
+    }
+  }
+
+  private async checkEmailAvailable(email: string, exceptId?: string): Promise<void> {
+    const owner = await this.repository.findByEmail(email, this.emailLookup);
+    if (owner && owner.id !== exceptId) {
+      throw new ConflictError('User with this email already exists', 'EMAIL_TAKEN');
+    }
+  }
+
+  // The write has already happened, so a failure to record it is logged rather than
+  // turned into an error response for a change that did take effect
+  private async record(action: AuditAction, before: User | null, after: User, actor: AuthUser | undefined): Promise<void> {
+    const entry: AuditEntry = {
+      id: randomUUID(),
+      resourceType: AUDIT_RESOURCE_TYPE,
+      resourceId: after.id,
+      action,
+      actor: actor ? { id: actor.id, email: actor.email } : null,
+      requestId: getRequestContext()?.requestId ?? null,
+      timestamp: after.updatedAt,
+      changes: diffUsers(before, after),
+    };
+
+    try {
+      await this.audit.append(entry);
+    } catch (error) {
+      getLogger().error({ error, userId: after.id, action }, 'Failed to record audit entry');
+    }
+  }
+
+  // Explains a compare-and-set that matched nothing: the user is gone, or another write won.
+  // Only a conditional request was promised a precondition check; others get a plain conflict.
+  private async lostWrite(id: string, { ifMatch }: WriteCondition): Promise<Error> {
+    const current = await this.repository.findById(id);
+    if (!current) {
+      return new NotFoundError('User not found', 'USER_NOT_FOUND');
+    }
+
+    const message = `User was modified concurrently (current version ${current.version})`;
+    return ifMatch
+      ? new PreconditionFailedError(message, 'USER_VERSION_MISMATCH')
+      : new ConflictError(message, 'USER_MODIFIED_CONCURRENTLY');
+  }
+
+  private async getRecord(id: string, options?: LookupOptions): Promise<UserRecord> {
+    const user = await this.repository.findById(id, options);
+    if (!user) {
+      throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+    }
+    return user;
   }
 }
 
-export const userService = new UserService();
\ No newline at end of file
+export const userService = new UserService(createUserRepository(), createAuditStore(), {
+  reserveDeletedEmails: config.userDeletedEmailsReserved,
+});
@@ -0,0 +1,33 @@
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+// Who made a change; null for changes made outside a request, e.g. by a script
+export interface AuditActor {
+  id: string;
+  email: string;
+}
+
+// One field's value before and after the change; null where the field was absent
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  // The changed resource, e.g. resourceType 'user' and the user's id
+  resourceType: string;
+  resourceId: string;
+  action: AuditAction;
+  actor: AuditActor | null;
+  requestId: string | null;
+  timestamp: Date;
+  changes: FieldChange[];
+}
+
+// Storage contract for the audit trail. Entries are append-only.
+export interface AuditStore {
+  append(entry: AuditEntry): Promise<void>;
+  // Oldest first
+  findByResource(resourceType: string, resourceId: string): Promise<AuditEntry[]>;
+}
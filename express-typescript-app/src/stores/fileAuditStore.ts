@@ -0,0 +1,49 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BSON } from 'mongodb';
+import { getLogger } from '@/utils/requestContext';
+import { parseNdjson } from '@/utils/ndjson';
+import { AuditEntry, AuditStore } from './auditStore';
+
+// Audit trail in a local NDJSON file for the file user store. Entries are appended as
+// Extended JSON, so timestamps come back as Dates; appends are serialised.
+export class FileAuditStore implements AuditStore {
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async append(entry: AuditEntry): Promise<void> {
+    const result = this.writes.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, `${BSON.EJSON.stringify(entry)}\n`, 'utf8');
+    });
+    this.writes = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  async findByResource(resourceType: string, resourceId: string): Promise<AuditEntry[]> {
+    return (await this.readFile()).filter(entry =>
+      entry.resourceType === resourceType && entry.resourceId === resourceId);
+  }
+
+  private async readFile(): Promise<AuditEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    // A line cut short by a crash mid-append is skipped rather than failing every read
+    return parseNdjson(content).flatMap(record => {
+      if ('error' in record) {
+        getLogger().warn({ file: this.filePath, line: record.line }, 'Skipping unreadable audit entry');
+        return [];
+      }
+      return [BSON.EJSON.deserialize(record.value as BSON.Document) as AuditEntry];
+    });
+  }
+}
@@ -0,0 +1,22 @@
+// The response replayed for a repeated Idempotency-Key
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+  // e.g. application/problem+json for an error
+  contentType?: string;
+}
+
+// `fingerprint` identifies the request payload the key was first used with
+export type IdempotencyRecord =
+  | { state: 'in-flight'; fingerprint: string }
+  | { state: 'completed'; fingerprint: string; response: StoredResponse };
+
+// Storage contract for idempotency keys. begin() must claim a key atomically so that two
+// concurrent requests with the same key can't both run.
+export interface IdempotencyStore {
+  // Claims the key and returns null, or returns the record already held under it
+  begin(key: string, fingerprint: string, ttlMs: number): Promise<IdempotencyRecord | null>;
+  complete(key: string, response: StoredResponse, ttlMs: number): Promise<void>;
+  // Forgets a claim whose request didn't produce a response worth replaying
+  release(key: string): Promise<void>;
+}
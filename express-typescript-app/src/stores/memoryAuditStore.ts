@@ -0,0 +1,23 @@
+import { AuditEntry, AuditStore } from './auditStore';
+
+const copy = (entry: AuditEntry): AuditEntry => ({
+  ...entry,
+  ...(entry.actor && { actor: { ...entry.actor } }),
+  changes: entry.changes.map(change => ({ ...change })),
+});
+
+// Audit trail for a single process; entries are kept for its lifetime
+export class MemoryAuditStore implements AuditStore {
+  private readonly entries = new Map<string, AuditEntry[]>();
+
+  async append(entry: AuditEntry): Promise<void> {
+    const key = `${entry.resourceType}:${entry.resourceId}`;
+    const entries = this.entries.get(key) ?? [];
+    entries.push(copy(entry));
+    this.entries.set(key, entries);
+  }
+
+  async findByResource(resourceType: string, resourceId: string): Promise<AuditEntry[]> {
+    return (this.entries.get(`${resourceType}:${resourceId}`) ?? []).map(copy);
+  }
+}
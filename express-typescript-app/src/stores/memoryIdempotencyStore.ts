@@ -0,0 +1,69 @@
+import { IdempotencyRecord, IdempotencyStore, StoredResponse } from './idempotencyStore';
+
+type Entry = IdempotencyRecord & { expiresAt: number };
+
+// Keys for a single process; expired entries are dropped when they are next looked up
+// and swept lazily, at most once per sweep interval.
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private readonly entries = new Map<string, Entry>();
+  private nextSweepAt: number;
+
+  constructor(
+    private readonly now: () => number = Date.now,
+    private readonly sweepIntervalMs: number = 60000
+  ) {
+    this.nextSweepAt = now() + sweepIntervalMs;
+  }
+
+  async begin(key: string, fingerprint: string, ttlMs: number): Promise<IdempotencyRecord | null> {
+    const now = this.now();
+    this.sweep(now);
+
+    const existing = this.entries.get(key);
+    if (existing && existing.expiresAt > now) {
+      return existing.state === 'completed'
+        ? { state: 'completed', fingerprint: existing.fingerprint, response: existing.response }
+        : { state: 'in-flight', fingerprint: existing.fingerprint };
+    }
+
+    this.entries.set(key, { state: 'in-flight', fingerprint, expiresAt: now + ttlMs });
+    return null;
+  }
+
+  async complete(key: string, response: StoredResponse, ttlMs: number): Promise<void> {
+    const existing = this.entries.get(key);
+    if (!existing) {
+      return;
+    }
+
+    this.entries.set(key, {
+      state: 'completed',
+      fingerprint: existing.fingerprint,
+      response,
+      expiresAt: this.now() + ttlMs,
+    });
+  }
+
+  async release(key: string): Promise<void> {
+    if (this.entries.get(key)?.state === 'in-flight') {
+      this.entries.delete(key);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private sweep(now: number): void {
+    if (now < this.nextSweepAt) {
+      return;
+    }
+
+    this.nextSweepAt = now + this.sweepIntervalMs;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
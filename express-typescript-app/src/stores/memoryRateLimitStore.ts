@@ -0,0 +1,118 @@
+import { RateLimitResult, RateLimitRule, RateLimitStore } from './rateLimitStore';
+
+interface Bucket {
+  algorithm: 'token-bucket';
+  tokens: number;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+interface Window {
+  algorithm: 'sliding-window';
+  // Request timestamps within the window, oldest first
+  hits: number[];
+  expiresAt: number;
+}
+
+type Entry = Bucket | Window;
+
+// Counters for a single process. Idle entries are swept lazily, at most once per sweep interval.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, Entry>();
+  private nextSweepAt: number;
+
+  constructor(
+    private readonly now: () => number = Date.now,
+    private readonly sweepIntervalMs: number = 60000
+  ) {
+    this.nextSweepAt = now() + sweepIntervalMs;
+  }
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = this.now();
+    this.sweep(now);
+
+    return rule.algorithm === 'token-bucket'
+      ? this.consumeToken(key, rule, now)
+      : this.consumeWindow(key, rule, now);
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private consumeToken(key: string, rule: RateLimitRule, now: number): RateLimitResult {
+    const perMs = rule.limit / rule.windowMs;
+    const existing = this.entries.get(key);
+    const bucket: Bucket = existing?.algorithm === 'token-bucket'
+      ? existing
+      : { algorithm: 'token-bucket', tokens: rule.limit, updatedAt: now, expiresAt: now };
+
+    bucket.tokens = Math.min(rule.limit, bucket.tokens + (now - bucket.updatedAt) * perMs);
+    bucket.updatedAt = now;
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) {
+      bucket.tokens -= 1;
+    }
+
+    const resetMs = Math.ceil((rule.limit - bucket.tokens) / perMs);
+    bucket.expiresAt = now + resetMs;
+    this.entries.set(key, bucket);
+
+    return {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.floor(bucket.tokens),
+      resetMs,
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - bucket.tokens) / perMs),
+    };
+  }
+
+  private consumeWindow(key: string, rule: RateLimitRule, now: number): RateLimitResult {
+    const existing = this.entries.get(key);
+    const window: Window = existing?.algorithm === 'sliding-window'
+      ? existing
+      : { algorithm: 'sliding-window', hits: [], expiresAt: now };
+
+    const windowStart = now - rule.windowMs;
+    while (window.hits.length > 0 && (window.hits[0] ?? 0) <= windowStart) {
+      window.hits.shift();
+    }
+
+    const allowed = window.hits.length < rule.limit;
+    if (allowed) {
+      window.hits.push(now);
+    }
+
+    const oldest = window.hits[0] ?? now;
+    const newest = window.hits[window.hits.length - 1] ?? now;
+    window.expiresAt = newest + rule.windowMs;
+    this.entries.set(key, window);
+
+    return {
+      allowed,
+      limit: rule.limit,
+      remaining: rule.limit - window.hits.length,
+      resetMs: window.expiresAt - now,
+      retryAfterMs: allowed ? 0 : oldest + rule.windowMs - now,
+    };
+  }
+
+  private sweep(now: number): void {
+    if (now < this.nextSweepAt) {
+      return;
+    }
+
+    this.nextSweepAt = now + this.sweepIntervalMs;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
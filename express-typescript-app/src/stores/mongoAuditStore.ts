@@ -0,0 +1,28 @@
+import { Collection } from 'mongodb';
+import { MongoRetryHandler } from '@/mongo/retryHandler';
+import { RetryingCollection } from '@/mongo/retryingCollection';
+import { AuditEntry, AuditStore } from './auditStore';
+
+// The entry id is stored as the document _id, so a retried append fails as a duplicate
+// instead of recording the change twice
+export type AuditDocument = Omit<AuditEntry, 'id'> & { _id: string };
+
+const toEntry = ({ _id, ...rest }: AuditDocument): AuditEntry => ({ id: _id, ...rest });
+
+// Audit trail for the mongo user store, in its own collection of the same database
+export class MongoAuditStore implements AuditStore {
+  private readonly entries: RetryingCollection<AuditDocument>;
+
+  constructor(collection: Collection<AuditDocument>, retryHandler: MongoRetryHandler) {
+    this.entries = retryHandler.wrap(collection);
+  }
+
+  async append({ id, ...rest }: AuditEntry): Promise<void> {
+    await this.entries.insertOne({ _id: id, ...rest });
+  }
+
+  async findByResource(resourceType: string, resourceId: string): Promise<AuditEntry[]> {
+    const documents = await this.entries.find({ resourceType, resourceId }, { sort: { timestamp: 1, _id: 1 } });
+    return documents.map(toEntry);
+  }
+}
@@ -0,0 +1,27 @@
+export type RateLimitAlgorithm = 'token-bucket' | 'sliding-window';
+
+// `limit` requests per `windowMs`. A token bucket holds `limit` tokens and refills them
+// evenly over the window (bursts up to `limit`); a sliding window counts the requests
+// made in the last `windowMs`.
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithm;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Until the full quota is available again
+  resetMs: number;
+  // Until the next request would be allowed; 0 when this one was
+  retryAfterMs: number;
+}
+
+// Storage contract for rate limit counters. consume() must check and record a request
+// atomically, so a shared backend (e.g. Redis) has to implement the algorithm server-side.
+export interface RateLimitStore {
+  consume(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+  reset(key: string): Promise<void>;
+}
@@ -1,12 +1,15 @@
 import { Request, Response } from 'express';
 
+// Identity attached to the request by the authenticate middleware
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: User['role'];
+}
+
 // Extend Express Request interface
 export interface CustomRequest extends Request {
-  user?: {
-    id: string;
-    email: string;
-    role: string;
-  };
+  user?: AuthUser;
 }
 
 // Standard API response interface
@@ -23,10 +26,34 @@ export interface ErrorResponse {
   success: false;
   message: string;
   error: string;
+  // Stable machine-readable error code, e.g. NOT_FOUND
+  code: string;
+  requestId?: string;
+  // Every violation when request validation fails
+  errors?: FieldError[];
   timestamp: string;
   stack?: string;
 }
 
+// RFC 7807 problem details, sent as application/problem+json when the client accepts it
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  code: string;
+  requestId?: string;
+  errors?: FieldError[];
+  stack?: string;
+}
+
+// A single validation violation, e.g. { path: 'body.email', message: 'is required' }
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
 // Success response interface
 export interface SuccessResponse<T = unknown> {
   success: true;
@@ -35,19 +62,50 @@ export interface SuccessResponse<T = unknown> {
   timestamp: string;
 }
 
-// Async route handler type
-export type AsyncRouteHandler = (
-  req: CustomRequest,
+// Pagination metadata returned by list endpoints
+export interface PaginationMeta {
+  totalCount: number;
+  totalPages: number;
+  currentPage: number | null;
+  limit: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+  nextCursor: string | null;
+}
+
+// Paginated response interface
+export interface PaginatedResponse<T = unknown> {
+  success: true;
+  message: string;
+  data: T[];
+  pagination: PaginationMeta;
+  timestamp: string;
+}
+
+// Async route handler type. R is the request shape, e.g. ValidatedRequest<typeof schema>
+export type AsyncRouteHandler<R = CustomRequest> = (
+  req: R,
   res: Response
 ) => Promise<void>;
 
 // Health check response
+// degraded: only non-critical dependencies are down, so the service keeps taking traffic
 export interface HealthCheckResponse {
-  status: 'healthy' | 'unhealthy';
+  status: 'healthy' | 'degraded' | 'unhealthy';
   timestamp: string;
   uptime: number;
   version: string;
   environment: string;
+  // Per-dependency results, present on readiness checks
+  dependencies?: Record<string, DependencyHealth>;
+}
+
+export interface DependencyHealth {
+  status: 'up' | 'down';
+  critical: boolean;
+  durationMs: number;
+  details?: Record<string, unknown>;
+  error?: string;
 }
 
 // User interface (example)
@@ -57,6 +115,54 @@ export interface User {
   firstName: string;
   lastName: string;
   role: 'admin' | 'user';
+  // Incremented on every change; exposed as the ETag for optimistic concurrency
+  version: number;
   createdAt: Date;
   updatedAt: Date;
-}
\ No newline at end of file
+  // Set while the user is soft-deleted; such users are hidden from lookups until restored
+  deletedAt?: Date;
+}
+
+// Stored user record, including credentials that never leave UserService
+export interface UserRecord extends User {
+  passwordHash?: string;
+}
+
+export type UserSortField = 'email' | 'firstName' | 'lastName' | 'role' | 'createdAt' | 'updatedAt';
+
+export interface UserFilter {
+  role?: User['role'];
+  email?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+}
+
+// List query shared by list endpoints
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortField<F extends string = string> {
+  field: F;
+  direction: SortDirection;
+}
+
+// Keyset position decoded from an opaque cursor: sort values of the last item, then its id
+export interface CursorPosition {
+  values: unknown[];
+  id: string;
+}
+
+export interface ListQuery<F extends string, Filter> {
+  filter: Filter;
+  sort: SortField<F>[];
+  limit: number;
+  offset: number;
+  after?: CursorPosition;
+}
+
+export interface ListResult<T> {
+  items: T[];
+  totalCount: number;
+  hasMore: boolean;
+}
+
+export type UserListQuery = ListQuery<UserSortField, UserFilter>;
@@ -0,0 +1,80 @@
+import { BadRequestError } from '@/utils/errors';
+
+export const CSV_CONTENT_TYPE = 'text/csv';
+
+// One record and the line it starts on; quoted fields may span lines
+export interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+// RFC 4180: comma-separated, "" escapes a quote inside a quoted field, CRLF or LF line ends.
+// A leading byte order mark (as spreadsheet exports write) is skipped and blank lines are ignored.
+export const parseCsv = (text: string): CsvRecord[] => {
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = (): void => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        line += char === '\n' ? 1 : 0;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      i += char === '\r' && input[i + 1] === '\n' ? 1 : 0;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new BadRequestError(`Invalid CSV: quoted field on line ${recordLine} is not closed`, 'INVALID_CSV');
+  }
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+  return records;
+};
+
+// Spreadsheets run a cell starting with one of these as a formula (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// A formula-like cell is prefixed with ' so it opens as text, and quoted
+const formatField = (value: unknown): string => {
+  const text = value instanceof Date ? value.toISOString() : value === null || value === undefined ? '' : String(value);
+  if (FORMULA_PREFIX.test(text)) {
+    return `"'${text.replace(/"/g, '""')}"`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatCsvRow = (values: readonly unknown[]): string => `${values.map(formatField).join(',')}\r\n`;
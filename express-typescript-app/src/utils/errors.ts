@@ -0,0 +1,171 @@
+import { STATUS_CODES } from 'http';
+import { JsonWebTokenError, TokenExpiredError } from 'jsonwebtoken';
+import type { MongoError } from 'mongodb';
+import { CircuitBreakerError, MongoRetryError } from '@/mongo/errors';
+import { RetryUtils } from '@/mongo/retryUtils';
+import { FieldError } from '@/types';
+
+// Base class for errors that map to an HTTP response. `code` is a stable, machine-readable
+// identifier clients can switch on; subclasses default it and callers may refine it.
+export class AppError extends Error {
+  public statusCode: number;
+  public code: string;
+  public isOperational: boolean;
+
+  constructor(message: string, statusCode: number = 500, code: string = 'INTERNAL_ERROR') {
+    super(message);
+    this.name = new.target.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    this.isOperational = true;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+
+  get title(): string {
+    return STATUS_CODES[this.statusCode] ?? 'Error';
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message: string, code: string = 'BAD_REQUEST') {
+    super(message, 400, code);
+  }
+}
+
+// Request input failed schema validation; carries every violation, not just the first
+export class ValidationError extends AppError {
+  public errors: FieldError[];
+
+  constructor(errors: FieldError[]) {
+    super(`Validation failed: ${errors.map(e => `${e.path} ${e.message}`).join('; ')}`, 400, 'VALIDATION_FAILED');
+    this.errors = errors;
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string = 'Authentication required', code: string = 'UNAUTHORIZED') {
+    super(message, 401, code);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string, code: string = 'FORBIDDEN') {
+    super(message, 403, code);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, code: string = 'NOT_FOUND') {
+    super(message, 404, code);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, code: string = 'CONFLICT') {
+    super(message, 409, code);
+  }
+}
+
+// A conditional request's If-Match no longer matches the resource
+export class PreconditionFailedError extends AppError {
+  constructor(message: string, code: string = 'PRECONDITION_FAILED') {
+    super(message, 412, code);
+  }
+}
+
+export class PayloadTooLargeError extends AppError {
+  constructor(message: string = 'Request body too large', code: string = 'PAYLOAD_TOO_LARGE') {
+    super(message, 413, code);
+  }
+}
+
+export class UnsupportedMediaTypeError extends AppError {
+  constructor(message: string, code: string = 'UNSUPPORTED_MEDIA_TYPE') {
+    super(message, 415, code);
+  }
+}
+
+export class UnprocessableEntityError extends AppError {
+  constructor(message: string, code: string = 'UNPROCESSABLE_ENTITY') {
+    super(message, 422, code);
+  }
+}
+
+// retryAfterSeconds is sent back as the Retry-After header
+export class RateLimitedError extends AppError {
+  public retryAfterSeconds: number | undefined;
+
+  constructor(message: string = 'Too many requests', retryAfterSeconds?: number, code: string = 'RATE_LIMITED') {
+    super(message, 429, code);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// A dependency (database, remote API) failed; 502 by default, 503/504 via the subclasses
+export class UpstreamError extends AppError {
+  constructor(message: string, statusCode: number = 502, code: string = 'UPSTREAM_ERROR') {
+    super(message, statusCode, code);
+  }
+}
+
+export class UpstreamUnavailableError extends UpstreamError {
+  constructor(message: string, code: string = 'UPSTREAM_UNAVAILABLE') {
+    super(message, 503, code);
+  }
+}
+
+export class UpstreamTimeoutError extends UpstreamError {
+  constructor(message: string, code: string = 'UPSTREAM_TIMEOUT') {
+    super(message, 504, code);
+  }
+}
+
+// Driver errors meaning the database didn't answer, and the attempt timeout raised by RetryUtils.withTimeout
+const DATABASE_TIMEOUT_ERRORS = ['MongoNetworkError', 'MongoNetworkTimeoutError', 'MongoTimeoutError', 'MongoOperationTimeoutError'];
+
+// Mongo retries ran out: judged by the error they ended on. Errors retrying can't fix
+// (authentication, validation, duplicate keys) are not an outage; they become a plain 500.
+const fromMongoRetryError = ({ originalError: cause }: MongoRetryError): AppError | null => {
+  if (DATABASE_TIMEOUT_ERRORS.includes(cause.name) || cause.message.startsWith('Operation timed out')) {
+    return new UpstreamTimeoutError('Database did not respond in time', 'DATABASE_TIMEOUT');
+  }
+  if (RetryUtils.isRetryableError(cause as MongoError, RetryUtils.getDefaultRetryableErrors(), RetryUtils.getDefaultRetryableCodes())) {
+    return new UpstreamUnavailableError('Database is temporarily unavailable', 'DATABASE_UNAVAILABLE');
+  }
+  return null;
+};
+
+// Errors raised by body-parser carry a `type` such as 'entity.parse.failed'
+const bodyParserType = (error: Error): unknown => (error as Error & { type?: unknown }).type;
+
+// Maps any thrown value to an AppError; unknown errors become a generic 500 so their
+// messages are never shown to clients as a problem detail.
+export const toAppError = (error: Error): AppError => {
+  if (error instanceof AppError) {
+    return error;
+  }
+  if (error instanceof TokenExpiredError) {
+    return new UnauthorizedError('Token expired', 'TOKEN_EXPIRED');
+  }
+  if (error instanceof JsonWebTokenError) {
+    return new UnauthorizedError('Invalid token', 'TOKEN_INVALID');
+  }
+  if (error instanceof CircuitBreakerError) {
+    return new UpstreamUnavailableError('Database is temporarily unavailable', 'DATABASE_UNAVAILABLE');
+  }
+  const database = error instanceof MongoRetryError ? fromMongoRetryError(error) : null;
+  if (database) {
+    return database;
+  }
+  if (bodyParserType(error) === 'entity.parse.failed') {
+    return new BadRequestError('Malformed JSON body', 'MALFORMED_JSON');
+  }
+  if (bodyParserType(error) === 'entity.too.large') {
+    return new PayloadTooLargeError();
+  }
+
+  const internal = new AppError('Internal Server Error');
+  internal.isOperational = false;
+  return internal;
+};
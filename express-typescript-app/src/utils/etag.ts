@@ -0,0 +1,17 @@
+// Strong entity tags derived from a resource version, e.g. version 3 -> "3"
+
+export const toETag = (version: number): string => `"${version}"`;
+
+// The versions an If-Match header accepts; undefined for `*` or no header, which only
+// require the resource to exist. Weak and unparseable tags never match (RFC 9110 13.1.1).
+export const parseIfMatch = (header: string | undefined): number[] | undefined => {
+  if (header === undefined || header.trim() === '*') {
+    return undefined;
+  }
+
+  return header
+    .split(',')
+    .map(tag => /^"(\d+)"$/.exec(tag.trim())?.[1])
+    .filter((version): version is string => version !== undefined)
+    .map(Number);
+};
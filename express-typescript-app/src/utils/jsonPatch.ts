@@ -0,0 +1,217 @@
+import { BadRequestError, ConflictError } from '@/utils/errors';
+
+// JSON Merge Patch (RFC 7396) and JSON Patch (RFC 6902) over plain JSON values.
+// Neither mutates its input.
+
+export const MERGE_PATCH_CONTENT_TYPE = 'application/merge-patch+json';
+export const JSON_PATCH_CONTENT_TYPE = 'application/json-patch+json';
+
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// defineProperty rather than assignment, so a "__proto__" member stays a plain property
+const setMember = (object: JsonObject, key: string, value: unknown): void => {
+  Object.defineProperty(object, key, { value, writable: true, enumerable: true, configurable: true });
+};
+
+const hasMember = (object: JsonObject, key: string): boolean => Object.prototype.hasOwnProperty.call(object, key);
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+export const jsonEqual = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => jsonEqual(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => hasMember(b, key) && jsonEqual(a[key], b[key]));
+  }
+  return a === b;
+};
+
+// RFC 7396: objects merge recursively, null removes a member, anything else replaces
+export const applyMergePatch = (target: unknown, patch: unknown): unknown => {
+  if (!isObject(patch)) {
+    return clone(patch);
+  }
+
+  const result: JsonObject = isObject(target) ? clone(target) : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      setMember(result, key, applyMergePatch(hasMember(result, key) ? result[key] : undefined, value));
+    }
+  }
+  return result;
+};
+
+// RFC 6901: "" is the whole document, "/a/0" the first item of member a; ~1 is "/" and ~0 is "~"
+const parsePointer = (pointer: unknown, where: string): string[] => {
+  if (typeof pointer !== 'string' || (pointer !== '' && !pointer.startsWith('/'))) {
+    throw new BadRequestError(`Invalid JSON Patch: ${where} must be a JSON Pointer`, 'INVALID_PATCH');
+  }
+  return pointer === '' ? [] : pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+const ARRAY_INDEX = /^(0|[1-9]\d*)$/;
+
+const OPERATIONS = ['add', 'remove', 'replace', 'move', 'copy', 'test'] as const;
+
+const parseOperation = (raw: unknown, index: number): JsonPatchOperation => {
+  const where = `operation ${index}`;
+  if (!isObject(raw) || !OPERATIONS.includes(raw['op'] as typeof OPERATIONS[number])) {
+    throw new BadRequestError(`Invalid JSON Patch: ${where} must have an op of ${OPERATIONS.join(', ')}`, 'INVALID_PATCH');
+  }
+
+  const op = raw['op'] as typeof OPERATIONS[number];
+  const path = raw['path'];
+  parsePointer(path, `${where} path`);
+
+  switch (op) {
+    case 'remove':
+      return { op, path: path as string };
+    case 'move':
+    case 'copy':
+      parsePointer(raw['from'], `${where} from`);
+      return { op, from: raw['from'] as string, path: path as string };
+    default:
+      if (!hasMember(raw, 'value')) {
+        throw new BadRequestError(`Invalid JSON Patch: ${where} (${op}) requires a value`, 'INVALID_PATCH');
+      }
+      return { op, path: path as string, value: raw['value'] };
+  }
+};
+
+export const parseJsonPatch = (body: unknown): JsonPatchOperation[] => {
+  if (!Array.isArray(body)) {
+    throw new BadRequestError('Invalid JSON Patch: the document must be an array of operations', 'INVALID_PATCH');
+  }
+  return body.map(parseOperation);
+};
+
+class Patcher {
+  // Names the operation being applied, for error messages
+  where = 'JSON Patch';
+
+  constructor(public document: unknown) {}
+
+  private missing(pointer: string): ConflictError {
+    return new ConflictError(`${this.where}: path ${pointer} does not exist`, 'PATCH_PATH_NOT_FOUND');
+  }
+
+  private resolve(tokens: readonly string[], pointer: string): unknown {
+    let current = this.document;
+    for (const token of tokens) {
+      if (Array.isArray(current) && ARRAY_INDEX.test(token) && Number(token) < current.length) {
+        current = current[Number(token)];
+      } else if (isObject(current) && hasMember(current, token)) {
+        current = current[token];
+      } else {
+        throw this.missing(pointer);
+      }
+    }
+    return current;
+  }
+
+  // The container holding the target of `pointer` and the target's key in it; null for the root
+  private parentOf(pointer: string): { container: unknown[] | JsonObject; key: string } | null {
+    const tokens = parsePointer(pointer, 'path');
+    const key = tokens.pop();
+    if (key === undefined) {
+      return null;
+    }
+
+    const container = this.resolve(tokens, pointer);
+    if (!Array.isArray(container) && !isObject(container)) {
+      throw this.missing(pointer);
+    }
+    return { container, key };
+  }
+
+  get(pointer: string): unknown {
+    return this.resolve(parsePointer(pointer, 'path'), pointer);
+  }
+
+  add(pointer: string, value: unknown): void {
+    const target = this.parentOf(pointer);
+    if (!target) {
+      this.document = value;
+      return;
+    }
+
+    const { container, key } = target;
+    if (Array.isArray(container)) {
+      const index = key === '-' ? container.length : ARRAY_INDEX.test(key) ? Number(key) : NaN;
+      if (!(index <= container.length)) {
+        throw this.missing(pointer);
+      }
+      container.splice(index, 0, value);
+    } else {
+      setMember(container, key, value);
+    }
+  }
+
+  remove(pointer: string): unknown {
+    const value = this.get(pointer);
+    const target = this.parentOf(pointer);
+    if (!target) {
+      this.document = undefined;
+      return value;
+    }
+
+    const { container, key } = target;
+    if (Array.isArray(container)) {
+      container.splice(Number(key), 1);
+    } else {
+      delete container[key];
+    }
+    return value;
+  }
+}
+
+// RFC 6902: operations apply in order to a copy and the patch is all or nothing; a failed
+// `test` or a missing path rejects the whole patch with 409
+export const applyJsonPatch = (document: unknown, operations: readonly JsonPatchOperation[]): unknown => {
+  const patcher = new Patcher(clone(document));
+
+  operations.forEach((operation, index) => {
+    patcher.where = `JSON Patch operation ${index} (${operation.op})`;
+
+    switch (operation.op) {
+      case 'add':
+        patcher.add(operation.path, clone(operation.value));
+        break;
+      case 'remove':
+        patcher.remove(operation.path);
+        break;
+      case 'replace':
+        patcher.remove(operation.path);
+        patcher.add(operation.path, clone(operation.value));
+        break;
+      case 'move':
+        if (operation.path.startsWith(`${operation.from}/`)) {
+          throw new BadRequestError(`Invalid JSON Patch: ${patcher.where} cannot move a value into itself`, 'INVALID_PATCH');
+        }
+        patcher.add(operation.path, patcher.remove(operation.from));
+        break;
+      case 'copy':
+        patcher.add(operation.path, clone(patcher.get(operation.from)));
+        break;
+      case 'test':
+        if (!jsonEqual(patcher.get(operation.path), operation.value)) {
+          throw new ConflictError(`${patcher.where}: value at ${operation.path} does not match`, 'PATCH_TEST_FAILED');
+        }
+        break;
+    }
+  });
+
+  return patcher.document;
+};
@@ -0,0 +1,226 @@
+// In-process metrics registry rendered in the Prometheus text exposition format (0.0.4).
+// Instruments are registered once by name; registering the same name again returns the
+// existing instrument, so modules can declare the metrics they record at load time.
+
+export type Labels = Record<string, string | number>;
+
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatValue = (value: number): string =>
+  Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+
+abstract class Metric<S> {
+  protected readonly series = new Map<string, { labels: Labels; value: S }>();
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[] = []
+  ) {}
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    if (this.series.size === 0 && this.labelNames.length === 0) {
+      lines.push(...this.renderSeries({}, this.initial()));
+    }
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines.join('\n');
+  }
+
+  protected abstract initial(): S;
+
+  protected abstract renderSeries(labels: Labels, value: S): string[];
+
+  protected get(labels: Labels): { labels: Labels; value: S } {
+    for (const name of Object.keys(labels)) {
+      if (!this.labelNames.includes(name)) {
+        throw new Error(`Metric ${this.name} has no label "${name}"`);
+      }
+    }
+
+    const key = this.labelNames.map(name => String(labels[name] ?? '')).join('\u0000');
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, value: this.initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected formatLabels(labels: Labels, extra: Labels = {}): string {
+    const all = { ...labels, ...extra };
+    const names = Object.keys(all);
+    if (names.length === 0) {
+      return '';
+    }
+    return `{${names.map(name => `${name}="${escapeLabelValue(String(all[name]))}"`).join(',')}}`;
+  }
+}
+
+export class Counter extends Metric<number> {
+  readonly type = 'counter';
+
+  inc(labels: Labels = {}, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot be decreased`);
+    }
+    this.get(labels).value += value;
+  }
+
+  value(labels: Labels = {}): number {
+    return this.get(labels).value;
+  }
+
+  protected initial(): number {
+    return 0;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${this.formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge';
+
+  set(labels: Labels, value: number): void {
+    this.get(labels).value = value;
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.get(labels).value += value;
+  }
+
+  dec(labels: Labels = {}, value = 1): void {
+    this.get(labels).value -= value;
+  }
+
+  value(labels: Labels = {}): number {
+    return this.get(labels).value;
+  }
+
+  protected initial(): number {
+    return 0;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${this.formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+interface HistogramSeries {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramSeries> {
+  readonly type = 'histogram';
+  readonly buckets: readonly number[];
+
+  constructor(name: string, help: string, labelNames: readonly string[] = [], buckets: readonly number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.get(labels).value;
+    series.sum += value;
+    series.count += 1;
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.buckets[index] = (series.buckets[index] ?? 0) + 1;
+      }
+    });
+  }
+
+  // Returns a function that observes the seconds elapsed since the timer started
+  startTimer(labels: Labels = {}): (endLabels?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (endLabels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...endLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  snapshot(labels: Labels = {}): Readonly<HistogramSeries> {
+    const { buckets, sum, count } = this.get(labels).value;
+    return { buckets: [...buckets], sum, count };
+  }
+
+  protected initial(): HistogramSeries {
+    return { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  // Bucket counts are cumulative: each `le` bucket counts every observation at or below it
+  protected renderSeries(labels: Labels, value: HistogramSeries): string[] {
+    const lines = this.buckets.map((bound, index) =>
+      `${this.name}_bucket${this.formatLabels(labels, { le: formatValue(bound) })} ${value.buckets[index] ?? 0}`
+    );
+    lines.push(`${this.name}_bucket${this.formatLabels(labels, { le: '+Inf' })} ${value.count}`);
+    lines.push(`${this.name}_sum${this.formatLabels(labels)} ${formatValue(value.sum)}`);
+    lines.push(`${this.name}_count${this.formatLabels(labels)} ${value.count}`);
+    return lines;
+  }
+}
+
+type AnyMetric = Counter | Gauge | Histogram;
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, AnyMetric>();
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(name, Counter, () => new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: readonly string[] = []): Gauge {
+    return this.register(name, Gauge, () => new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[] = [], buckets?: readonly number[]): Histogram {
+    return this.register(name, Histogram, () => new Histogram(name, help, labelNames, buckets));
+  }
+
+  // Clears recorded values but keeps the instruments (tests)
+  reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+
+  render(): string {
+    return `${Array.from(this.metrics.values(), metric => metric.render()).join('\n')}\n`;
+  }
+
+  private register<M extends AnyMetric>(
+    name: string,
+    type: abstract new (...args: never[]) => M,
+    create: () => M
+  ): M {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const metrics = new MetricsRegistry();
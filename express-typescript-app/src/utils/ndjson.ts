@@ -0,0 +1,20 @@
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+// A parsed line, or why it couldn't be parsed; one bad line doesn't spoil the others
+export type NdjsonRecord = { line: number; value: unknown } | { line: number; error: string };
+
+// Newline-delimited JSON: one value per line, blank lines ignored
+export const parseNdjson = (text: string): NdjsonRecord[] =>
+  text.split(/\r?\n/).flatMap((content, index): NdjsonRecord[] => {
+    const line = index + 1;
+    if (content.trim() === '') {
+      return [];
+    }
+    try {
+      return [{ line, value: JSON.parse(content) }];
+    } catch {
+      return [{ line, error: 'is not valid JSON' }];
+    }
+  });
+
+export const formatNdjsonLine = (value: unknown): string => `${JSON.stringify(value)}\n`;
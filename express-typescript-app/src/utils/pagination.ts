@@ -0,0 +1,115 @@
+import { BadRequestError } from '@/utils/errors';
+import { CursorPosition, SortField } from '@/types';
+import { InferShape, schema } from '@/utils/schema';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface PageParams<F extends string> {
+  page: number | null;
+  limit: number;
+  offset: number;
+  cursor?: string;
+  sort: SortField<F>[];
+}
+
+// Query parameters shared by list endpoints; spread into the endpoint's query schema
+export const pageQueryShape = {
+  page: schema.optional(schema.integer({ minimum: 1 })),
+  limit: schema.optional(schema.integer({ minimum: 1, maximum: MAX_PAGE_SIZE })),
+  cursor: schema.optional(schema.string()),
+  sort: schema.optional(schema.string({ description: 'Comma-separated fields, "-" prefix for descending' })),
+};
+
+export type PageQuery = InferShape<typeof pageQueryShape>;
+
+// sort=-createdAt,email -> createdAt descending, then email ascending
+export const parseSort = <F extends string>(
+  raw: string | undefined,
+  allowed: readonly F[],
+  defaultSort: SortField<F>[]
+): SortField<F>[] => {
+  if (raw === undefined) {
+    return defaultSort;
+  }
+
+  const sort = raw.split(',').map((part): SortField<F> => {
+    const descending = part.startsWith('-');
+    const field = (descending ? part.slice(1) : part).trim() as F;
+    if (!allowed.includes(field)) {
+      throw new BadRequestError(`Cannot sort by "${field}". Allowed fields: ${allowed.join(', ')}`, 'INVALID_SORT');
+    }
+    return { field, direction: descending ? 'desc' : 'asc' };
+  });
+
+  const fields = sort.map(s => s.field);
+  if (new Set(fields).size !== fields.length) {
+    throw new BadRequestError('Sort fields must not repeat', 'INVALID_SORT');
+  }
+  return sort;
+};
+
+export const parsePageParams = <F extends string>(
+  query: PageQuery,
+  allowedSort: readonly F[],
+  defaultSort: SortField<F>[]
+): PageParams<F> => {
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const sort = parseSort(query.sort, allowedSort, defaultSort);
+  const { cursor } = query;
+
+  if (cursor !== undefined) {
+    if (query.page !== undefined) {
+      throw new BadRequestError('Use either "page" or "cursor", not both', 'INVALID_PAGINATION');
+    }
+    return { page: null, limit, offset: 0, cursor, sort };
+  }
+
+  const page = query.page ?? 1;
+  return { page, limit, offset: (page - 1) * limit, sort };
+};
+
+const sortKey = (sort: SortField[]): string =>
+  sort.map(s => `${s.direction === 'desc' ? '-' : ''}${s.field}`).join(',');
+
+// Cursors are opaque to clients: base64url JSON of the sort spec and the keyset position
+export const encodeCursor = (sort: SortField[], position: CursorPosition): string =>
+  Buffer.from(JSON.stringify({ s: sortKey(sort), v: position.values, id: position.id })).toString('base64url');
+
+export const decodeCursor = (
+  cursor: string,
+  sort: SortField[],
+  dateFields: readonly string[] = []
+): CursorPosition => {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestError('Invalid cursor', 'INVALID_CURSOR');
+  }
+
+  const { s, v, id } = (decoded ?? {}) as { s?: unknown; v?: unknown; id?: unknown };
+  if (typeof id !== 'string' || !Array.isArray(v) || v.length !== sort.length) {
+    throw new BadRequestError('Invalid cursor', 'INVALID_CURSOR');
+  }
+  if (s !== sortKey(sort)) {
+    throw new BadRequestError('Cursor was issued for a different sort order', 'INVALID_CURSOR');
+  }
+
+  const values = v.map((value: unknown, index) =>
+    dateFields.includes(sort[index]?.field ?? '') && typeof value === 'string' ? new Date(value) : value
+  );
+  return { values, id };
+};
+
+// Orders values the way MongoDB does for the types we sort on: null first, then numbers/strings/dates
+export const compareValues = (a: unknown, b: unknown): number => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  if (left === right) return 0;
+  return (left as string | number) < (right as string | number) ? -1 : 1;
+};
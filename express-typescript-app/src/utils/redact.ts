@@ -0,0 +1,111 @@
+import { createHash, createHmac } from 'crypto';
+import { RedactionConfig, redactionConfig } from '@/config/redaction';
+
+type Matcher = (path: string[]) => boolean;
+
+// `headers.cookie` matches any path ending in headers.cookie; `*` matches one segment
+const compile = (pattern: string): Matcher => {
+  const expected = pattern.toLowerCase().split('.');
+  return path => {
+    if (path.length < expected.length) {
+      return false;
+    }
+    const tail = path.slice(path.length - expected.length);
+    return expected.every((segment, index) => segment === '*' || segment === tail[index]?.toLowerCase());
+  };
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  // Compared structurally: objects built by Node internals may come from another realm
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === null || Object.getPrototypeOf(prototype) === null;
+};
+
+// Applies a RedactionConfig to values before they are logged. The input is never modified.
+export class Redactor {
+  private readonly masked: Matcher[];
+  private readonly pii: Matcher[];
+
+  constructor(private readonly options: RedactionConfig) {
+    this.masked = options.paths.map(compile);
+    this.pii = options.piiPaths.map(compile);
+  }
+
+  // Deep copy of plain objects and arrays with masked and PII values replaced
+  value(value: unknown, path: string[] = []): unknown {
+    if (path.length > 0 && this.masked.some(matches => matches(path))) {
+      return value === undefined ? value : this.options.censor;
+    }
+    if (path.length > 0 && typeof value === 'string' && this.pii.some(matches => matches(path))) {
+      return this.maskPii(value);
+    }
+    if (Array.isArray(value)) {
+      // Array items share their parent's path, so `tags` rules apply to every tag
+      return value.map(item => this.value(item, path));
+    }
+    if (isPlainObject(value)) {
+      const copy: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        copy[key] = this.value(item, [...path, key]);
+      }
+      return copy;
+    }
+    return value;
+  }
+
+  headers(headers: unknown): unknown {
+    return (this.value({ headers }) as { headers: unknown }).headers;
+  }
+
+  // Redacted, then cut to maxBodyLength characters of JSON
+  body(body: unknown): unknown {
+    const redacted = (this.value({ body }) as { body: unknown }).body;
+    if (redacted === undefined) {
+      return redacted;
+    }
+
+    const json = JSON.stringify(redacted) ?? '';
+    if (json.length <= this.options.maxBodyLength) {
+      return redacted;
+    }
+    return `${json.slice(0, this.options.maxBodyLength)}... [truncated ${json.length - this.options.maxBodyLength} chars]`;
+  }
+
+  // Query string parameters follow the same rules, under `query.<name>`
+  url(url: string): string {
+    const index = url.indexOf('?');
+    if (index === -1) {
+      return url;
+    }
+
+    const params = new URLSearchParams(url.slice(index + 1));
+    const redacted = new URLSearchParams();
+    params.forEach((item, key) => {
+      redacted.append(key, String(this.value(item, ['query', key])));
+    });
+    return `${url.slice(0, index)}?${redacted.toString()}`;
+  }
+
+  private maskPii(value: string): string {
+    // Already masked, e.g. a body redacted before it reached the logger
+    if (value.startsWith('sha256:') || value.includes('***')) {
+      return value;
+    }
+    if (this.options.piiMode === 'hash') {
+      const normalized = value.trim().toLowerCase();
+      const hash = this.options.piiHashKey
+        ? createHmac('sha256', this.options.piiHashKey).update(normalized)
+        : createHash('sha256').update(normalized);
+      return `sha256:${hash.digest('hex').slice(0, 16)}`;
+    }
+
+    // j***@example.com, or j*** for values that are not emails
+    const at = value.lastIndexOf('@');
+    return `${value.slice(0, 1)}***${at > 0 ? value.slice(at) : ''}`;
+  }
+}
+
+export const redactor = new Redactor(redactionConfig);
@@ -0,0 +1,21 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import pino from 'pino';
+import { logger } from '@/config/logger';
+
+export interface RequestContext {
+  requestId: string;
+  // W3C trace context, when the caller sent a valid traceparent header
+  traceId?: string;
+  parentSpanId?: string;
+  // Child logger bound to the ids above
+  logger: pino.Logger;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const runWithRequestContext = <T>(context: RequestContext, fn: () => T): T => storage.run(context, fn);
+
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
+
+// The request-scoped logger inside a request, the application logger anywhere else
+export const getLogger = (): pino.Logger => storage.getStore()?.logger ?? logger;
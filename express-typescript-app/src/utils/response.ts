@@ -1,5 +1,5 @@
 import { Response } from 'express';
-import { SuccessResponse, ErrorResponse } from '@/types';
+import { SuccessResponse, ErrorResponse, PaginatedResponse } from '@/types';
 
 // Success response utility
 export const sendSuccess = <T>(
@@ -23,32 +23,35 @@ export const sendError = (
   res: Response,
   message: string,
   statusCode: number = 500,
-  error?: string
+  error?: string,
+  code: string = 'INTERNAL_ERROR'
 ): void => {
   const response: ErrorResponse = {
     success: false,
     message,
     error: error || message,
+    code,
     timestamp: new Date().toISOString(),
   };
 
   res.status(statusCode).json(response);
 };
 
-// Pagination utility
+// Pagination utility. `page` is null when the list was requested by cursor.
 export const sendPaginatedResponse = <T>(
   res: Response,
   data: T[],
   totalCount: number,
-  page: number,
+  page: number | null,
   limit: number,
-  message: string = 'Success'
+  message: string = 'Success',
+  nextCursor: string | null = null
 ): void => {
   const totalPages = Math.ceil(totalCount / limit);
-  const hasNext = page < totalPages;
-  const hasPrev = page > 1;
+  const hasNext = nextCursor !== null || (page !== null && page < totalPages);
+  const hasPrev = page === null || page > 1;
 
-  const response = {
+  const response: PaginatedResponse<T> = {
     success: true,
     message,
     data,
@@ -59,9 +62,31 @@ export const sendPaginatedResponse = <T>(
       limit,
       hasNext,
       hasPrev,
+      nextCursor,
     },
     timestamp: new Date().toISOString(),
   };
 
   res.status(200).json(response);
-};
\ No newline at end of file
+};
+// Streams a body chunk by chunk, waiting whenever the client's buffer is full and stopping
+// early if the client goes away. Headers must be set before calling.
+export const streamResponse = async (res: Response, chunks: AsyncIterable<string>): Promise<void> => {
+  for await (const chunk of chunks) {
+    if (res.destroyed) {
+      return;
+    }
+    if (!res.write(chunk)) {
+      await new Promise<void>(resolve => {
+        const done = (): void => {
+          res.off('drain', done);
+          res.off('close', done);
+          resolve();
+        };
+        res.on('drain', done);
+        res.on('close', done);
+      });
+    }
+  }
+  res.end();
+};
@@ -0,0 +1,269 @@
+import { FieldError } from '@/types';
+
+// Minimal declarative schemas for request validation. Schemas are plain data so they
+// can be inspected (e.g. for documentation) as well as used to parse input.
+
+interface BaseSchema {
+  optional?: boolean;
+  description?: string;
+}
+
+export interface StringSchema<T extends string = string> extends BaseSchema {
+  type: 'string';
+  enum?: readonly T[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  format?: 'email';
+  trim?: boolean;
+}
+
+export interface NumberSchema extends BaseSchema {
+  type: 'number';
+  integer?: boolean;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface BooleanSchema extends BaseSchema {
+  type: 'boolean';
+}
+
+// ISO 8601 string in, Date out
+export interface DateSchema extends BaseSchema {
+  type: 'date';
+}
+
+export interface ArraySchema<I extends Schema = Schema> extends BaseSchema {
+  type: 'array';
+  items: I;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectSchema<S extends Shape = Shape> extends BaseSchema {
+  type: 'object';
+  properties: S;
+  // Unknown properties are stripped unless the schema asks for them to be rejected
+  unknown?: 'strip' | 'reject';
+}
+
+export type Schema =
+  | StringSchema
+  | NumberSchema
+  | BooleanSchema
+  | DateSchema
+  | ArraySchema
+  | ObjectSchema;
+
+export type Shape = Record<string, Schema>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends { optional: true } ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+export type InferShape<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+export type Infer<S> =
+  S extends StringSchema<infer T> ? T :
+  S extends NumberSchema ? number :
+  S extends BooleanSchema ? boolean :
+  S extends DateSchema ? Date :
+  S extends ArraySchema<infer I> ? Infer<I>[] :
+  S extends ObjectSchema<infer P> ? InferShape<P> :
+  never;
+
+type Options<S extends Schema> = Omit<S, 'type' | 'optional'>;
+
+export const schema = {
+  string: <T extends string = string>(options: Options<StringSchema<T>> = {}): StringSchema<T> =>
+    ({ type: 'string', ...options }),
+  enum: <T extends string>(values: readonly T[], options: Omit<Options<StringSchema<T>>, 'enum'> = {}): StringSchema<T> =>
+    ({ type: 'string', enum: values, ...options }),
+  number: (options: Options<NumberSchema> = {}): NumberSchema => ({ type: 'number', ...options }),
+  integer: (options: Omit<Options<NumberSchema>, 'integer'> = {}): NumberSchema =>
+    ({ type: 'number', integer: true, ...options }),
+  boolean: (options: Options<BooleanSchema> = {}): BooleanSchema => ({ type: 'boolean', ...options }),
+  date: (options: Options<DateSchema> = {}): DateSchema => ({ type: 'date', ...options }),
+  array: <I extends Schema>(items: I, options: Omit<Options<ArraySchema<I>>, 'items'> = {}): ArraySchema<I> =>
+    ({ type: 'array', items, ...options }),
+  object: <S extends Shape>(properties: S, options: Omit<Options<ObjectSchema<S>>, 'properties'> = {}): ObjectSchema<S> =>
+    ({ type: 'object', properties, ...options }),
+  optional: <S extends Schema>(inner: S): S & { optional: true } => ({ ...inner, optional: true }),
+};
+
+export interface ParseOptions {
+  // Query strings and route params arrive as strings; coerce them to numbers, booleans and dates
+  coerce?: boolean;
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; errors: FieldError[] };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const describe = (value: unknown): string => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+class Parser {
+  readonly errors: FieldError[] = [];
+
+  constructor(private readonly options: ParseOptions) {}
+
+  parse(node: Schema, value: unknown, path: string): unknown {
+    // Repeated query parameters arrive as arrays; only array schemas accept them
+    if (this.options.coerce && node.type !== 'array' && Array.isArray(value)) {
+      return this.fail(path, 'must be a single value');
+    }
+
+    switch (node.type) {
+      case 'string':
+        return this.parseString(node, value, path);
+      case 'number':
+        return this.parseNumber(node, value, path);
+      case 'boolean':
+        return this.parseBoolean(value, path);
+      case 'date':
+        return this.parseDate(value, path);
+      case 'array':
+        return this.parseArray(node, value, path);
+      case 'object':
+        return this.parseObject(node, value, path);
+    }
+  }
+
+  private fail(path: string, message: string): undefined {
+    this.errors.push({ path, message });
+    return undefined;
+  }
+
+  private parseString(node: StringSchema, value: unknown, path: string): string | undefined {
+    if (typeof value !== 'string') {
+      return this.fail(path, `must be a string, got ${describe(value)}`);
+    }
+
+    const text = node.trim ? value.trim() : value;
+    const errorCount = this.errors.length;
+
+    if (node.enum && !node.enum.includes(text)) {
+      this.fail(path, `must be one of: ${node.enum.join(', ')}`);
+    }
+    if (node.minLength !== undefined && text.length < node.minLength) {
+      this.fail(path, node.minLength === 1 ? 'must not be empty' : `must be at least ${node.minLength} characters`);
+    }
+    if (node.maxLength !== undefined && text.length > node.maxLength) {
+      this.fail(path, `must be at most ${node.maxLength} characters`);
+    }
+    if (node.format === 'email' && !EMAIL_PATTERN.test(text)) {
+      this.fail(path, 'must be a valid email address');
+    }
+    if (node.pattern && !node.pattern.test(text)) {
+      this.fail(path, `must match ${node.pattern}`);
+    }
+
+    return this.errors.length === errorCount ? text : undefined;
+  }
+
+  private parseNumber(node: NumberSchema, value: unknown, path: string): number | undefined {
+    const number = this.options.coerce && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+      return this.fail(path, node.integer ? 'must be an integer' : 'must be a number');
+    }
+    if (node.integer && !Number.isInteger(number)) {
+      return this.fail(path, 'must be an integer');
+    }
+    if (node.minimum !== undefined && number < node.minimum) {
+      return this.fail(path, `must be at least ${node.minimum}`);
+    }
+    if (node.maximum !== undefined && number > node.maximum) {
+      return this.fail(path, `must not exceed ${node.maximum}`);
+    }
+    return number;
+  }
+
+  private parseBoolean(value: unknown, path: string): boolean | undefined {
+    if (this.options.coerce && (value === 'true' || value === 'false')) {
+      return value === 'true';
+    }
+    if (typeof value !== 'boolean') {
+      return this.fail(path, 'must be a boolean');
+    }
+    return value;
+  }
+
+  private parseDate(value: unknown, path: string): Date | undefined {
+    const date = typeof value === 'string' ? new Date(value) : value instanceof Date ? value : undefined;
+    if (!date || isNaN(date.getTime())) {
+      return this.fail(path, 'must be an ISO 8601 date');
+    }
+    return date;
+  }
+
+  private parseArray(node: ArraySchema, value: unknown, path: string): unknown[] | undefined {
+    // A single query parameter is a one-element list
+    const list = this.options.coerce && typeof value === 'string' ? [value] : value;
+    if (!Array.isArray(list)) {
+      return this.fail(path, `must be an array, got ${describe(value)}`);
+    }
+    if (node.minItems !== undefined && list.length < node.minItems) {
+      return this.fail(path, `must contain at least ${node.minItems} items`);
+    }
+    if (node.maxItems !== undefined && list.length > node.maxItems) {
+      return this.fail(path, `must contain at most ${node.maxItems} items`);
+    }
+    return list.map((item, index) => this.parse(node.items, item, joinPath(path, index)));
+  }
+
+  private parseObject(node: ObjectSchema, value: unknown, path: string): Record<string, unknown> | undefined {
+    if (!isPlainObject(value)) {
+      return this.fail(path, `must be an object, got ${describe(value)}`);
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, property] of Object.entries(node.properties)) {
+      const raw = value[key];
+      // Empty query parameters (?email=) count as absent
+      const absent = raw === undefined || raw === null || (this.options.coerce && raw === '');
+      if (absent) {
+        if (!property.optional) {
+          this.fail(joinPath(path, key), 'is required');
+        }
+        continue;
+      }
+      result[key] = this.parse(property, raw, joinPath(path, key));
+    }
+
+    if (node.unknown === 'reject') {
+      for (const key of Object.keys(value)) {
+        if (!(key in node.properties)) {
+          this.fail(joinPath(path, key), 'is not allowed');
+        }
+      }
+    }
+
+    return result;
+  }
+}
+
+// Validates and converts input against a schema, collecting every violation rather than the first
+export const parse = <S extends Schema>(
+  node: S,
+  value: unknown,
+  options: ParseOptions = {},
+  path = ''
+): ParseResult<Infer<S>> => {
+  const parser = new Parser(options);
+  const parsed = parser.parse(node, value, path);
+
+  return parser.errors.length === 0
+    ? { ok: true, value: parsed as Infer<S> }
+    : { ok: false, errors: parser.errors };
+};
@@ -0,0 +1,91 @@
+import { parseRecord } from '../parsing/engine';
+import { getLayout } from '../parsing/layouts';
+import { formatRecord } from '../parsing/serializer';
+
+// Small deterministic generator so failures are reproducible.
+const makeRandom = (seed: number) => () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+};
+
+const randomString = (random: () => number, alphabet: string, min: number, max: number) => {
+    const length = min + Math.floor(random() * (max - min + 1));
+    let value = '';
+    for (let i = 0; i < length; i++) {
+        value += alphabet.charAt(Math.floor(random() * alphabet.length));
+    }
+    return value;
+};
+
+const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const digits = '0123456789';
+
+describe('formatRecord', () => {
+    it('builds the sample record for both layouts', () => {
+        expect(formatRecord(getLayout('v1'), { firstName: 'JOHN', lastName: 'MICHAEL', clientId: '9994567' }))
+            .toEqual({ ok: true, data: 'JOHN0000MICHAEL0009994567' });
+        expect(formatRecord(getLayout('v2'), { firstName: 'JOHN', lastName: 'MICHAEL', clientId: '999-4567' }))
+            .toEqual({ ok: true, data: 'JOHN0000MICHAEL0009994567' });
+    });
+
+    it('reports every invalid field', () => {
+        const result = formatRecord(getLayout('v1'), { firstName: 'JONATHANX', lastName: 'O1', clientId: 'abc' });
+
+        expect(result.ok).toBe(false);
+        expect(result.ok === false && result.errors.map((e) => e.field)).toEqual(['firstName', 'lastName', 'clientId']);
+    });
+
+    it('rejects missing fields and non-object input', () => {
+        expect(formatRecord(getLayout('v2'), { firstName: 'JOHN' })).toMatchObject({
+            ok: false,
+            errors: [{ field: 'lastName' }, { field: 'clientId' }],
+        });
+        expect(formatRecord(getLayout('v2'), 'JOHN')).toMatchObject({ ok: false, errors: [{ field: 'data' }] });
+    });
+
+    it('reports the record offset of the failing field', () => {
+        expect(formatRecord(getLayout('v1'), { firstName: 'JOHN', lastName: 'MICHAEL', clientId: '' }))
+            .toMatchObject({ ok: false, errors: [{ field: 'clientId', position: 18 }] });
+    });
+});
+
+describe('format/parse round trip', () => {
+    const cases = {
+        v1: (random: () => number) => ({
+            firstName: randomString(random, letters, 1, 8),
+            lastName: randomString(random, letters, 1, 10),
+            clientId: randomString(random, digits, 1, 12),
+        }),
+        v2: (random: () => number) => {
+            const clientId = randomString(random, digits, 5, 12);
+            return {
+                firstName: randomString(random, letters, 1, 20),
+                lastName: randomString(random, letters, 1, 20),
+                clientId: `${clientId.slice(0, -4)}-${clientId.slice(-4)}`,
+            };
+        },
+    };
+
+    Object.entries(cases).forEach(([version, generate]) => {
+        it(`parse(format(x)) equals x for ${version}`, () => {
+            const random = makeRandom(version.charCodeAt(1));
+            const layout = getLayout(version);
+
+            for (let i = 0; i < 500; i++) {
+                const record = generate(random);
+                const formatted = formatRecord(layout, record);
+                expect(formatted.ok).toBe(true);
+
+                const parsed = parseRecord(layout, formatted.ok && formatted.data);
+                expect(parsed).toEqual({ ok: true, data: record });
+            }
+        });
+
+        it(`format(parse(s)) equals s for ${version}`, () => {
+            const record = 'JOHN0000MICHAEL0009994567';
+            const parsed = parseRecord(getLayout(version), record);
+
+            expect(formatRecord(getLayout(version), parsed.ok && parsed.data)).toEqual({ ok: true, data: record });
+        });
+    });
+});
@@ -0,0 +1,90 @@
+import { parseRecord } from '../parsing/engine';
+import { getLayout, listLayouts } from '../parsing/layouts';
+
+describe('layout registry', () => {
+    it('lists the registered layouts and has nothing for unknown versions', () => {
+        expect(listLayouts().map((layout) => layout.version)).toEqual(['v1', 'v2']);
+        expect(getLayout('v3')).toBeUndefined();
+    });
+});
+
+describe('parseRecord with v1 (fixed-width)', () => {
+    const v1 = getLayout('v1');
+
+    it('strips the padding from each column', () => {
+        expect(parseRecord(v1, 'JOHN0000MICHAEL0009994567')).toEqual({
+            ok: true,
+            data: { firstName: 'JOHN', lastName: 'MICHAEL', clientId: '9994567' },
+        });
+        expect(parseRecord(v1, 'JONATHANBARTHOLOME1')).toEqual({
+            ok: true,
+            data: { firstName: 'JONATHAN', lastName: 'BARTHOLOME', clientId: '1' },
+        });
+    });
+
+    it('reports a record that ends before its columns do', () => {
+        expect(parseRecord(v1, 'JOHN0000MICH')).toEqual({
+            ok: false,
+            errors: [
+                { field: 'lastName', position: 8, message: 'expected 10 characters, record ends at 12' },
+                { field: 'clientId', position: 18, message: 'value is empty' },
+            ],
+        });
+    });
+
+    it('reports every field of the wrong type', () => {
+        expect(parseRecord(v1, 'J0HN0000MICHAEL000999X567')).toEqual({
+            ok: false,
+            errors: [
+                { field: 'firstName', position: 0, message: 'expected alpha value, got "J0HN"' },
+                { field: 'clientId', position: 18, message: 'expected numeric value, got "999X567"' },
+            ],
+        });
+    });
+
+    it('reports a column that is all padding as empty', () => {
+        expect(parseRecord(v1, '00000000MICHAEL0009994567')).toMatchObject({
+            ok: false,
+            errors: [{ field: 'firstName', position: 0, message: 'value is empty' }],
+        });
+    });
+});
+
+describe('parseRecord with v2 (delimited)', () => {
+    const v2 = getLayout('v2');
+
+    it('splits on the fillers and formats the client id', () => {
+        expect(parseRecord(v2, 'JOHN0000MICHAEL0009994567')).toEqual({
+            ok: true,
+            data: { firstName: 'JOHN', lastName: 'MICHAEL', clientId: '999-4567' },
+        });
+        expect(parseRecord(v2, 'AL0000LI000123')).toEqual({
+            ok: true,
+            data: { firstName: 'AL', lastName: 'LI', clientId: '123' },
+        });
+    });
+
+    it('stops at a missing filler, since later fields have no anchor', () => {
+        expect(parseRecord(v2, 'JOHN0000MICHAEL')).toEqual({
+            ok: false,
+            errors: [{ field: 'lastName', position: 8, message: 'filler "000" not found' }],
+        });
+    });
+
+    it('reports fields of the wrong type with their offsets', () => {
+        expect(parseRecord(v2, 'JOHN0000MICH4EL0009994567')).toEqual({
+            ok: false,
+            errors: [{ field: 'lastName', position: 8, message: 'expected alpha value, got "MICH4EL"' }],
+        });
+    });
+});
+
+describe('parseRecord input', () => {
+    it('rejects records that are not non-empty strings', () => {
+        const error = { ok: false, errors: [{ field: 'data', position: 0, message: 'record must be a non-empty string' }] };
+
+        expect(parseRecord(getLayout('v1'), '')).toEqual(error);
+        expect(parseRecord(getLayout('v1'), 42)).toEqual(error);
+        expect(parseRecord(getLayout('v2'), undefined)).toEqual(error);
+    });
+});
@@ -0,0 +1,82 @@
+import { Readable } from 'stream';
+import { getLayout } from '../parsing/layouts';
+import { LineFormat, RecordStreamParser } from '../parsing/stream';
+
+// Pipe the chunks through a parser and collect its NDJSON output as objects.
+const run = (chunks: Array<string | Buffer>, format: LineFormat = 'text', maxLineLength?: number): Promise<object[]> =>
+    new Promise((resolve, reject) => {
+        let output = '';
+        Readable.from(chunks.map((chunk) => (typeof chunk === 'string' ? Buffer.from(chunk) : chunk)))
+            .pipe(new RecordStreamParser(getLayout('v1'), format, maxLineLength))
+            .on('data', (data: Buffer) => { output += data.toString(); })
+            .on('end', () => resolve(output.trim().split('\n').map((line) => JSON.parse(line))))
+            .on('error', reject);
+    });
+
+const record = { firstName: 'JOHN', lastName: 'MICHAEL', clientId: '9994567' };
+
+describe('RecordStreamParser', () => {
+    it('parses one result per line and ends with a summary', async () => {
+        expect(await run(['JOHN0000MICHAEL0009994567\nJ0HN0000MICHAEL0009994567\n'])).toEqual([
+            { line: 1, status: 200, data: record },
+            { line: 2, status: 400, errors: [{ field: 'firstName', position: 0, message: 'expected alpha value, got "J0HN"' }] },
+            { summary: { parsed: 1, failed: 1, total: 2 } },
+        ]);
+    });
+
+    it('joins records split across chunks, including multi-byte characters', async () => {
+        const accented = Buffer.from('JOHN0000MICHAËL0009994567\n');
+        const split = accented.indexOf(Buffer.from('Ë')) + 1;
+        const chunks = ['JOHN0000MIC', 'HAEL0009994', '567\n', accented.subarray(0, split), accented.subarray(split)];
+
+        expect(await run(chunks)).toEqual([
+            { line: 1, status: 200, data: record },
+            { line: 2, status: 400, errors: [{ field: 'lastName', position: 8, message: 'expected alpha value, got "MICHAËL"' }] },
+            { summary: { parsed: 1, failed: 1, total: 2 } },
+        ]);
+    });
+
+    it('accepts CRLF line endings and a last line without a newline', async () => {
+        expect(await run(['JOHN0000MICHAEL0009994567\r\nJOHN0000MICHAEL0009994567'])).toEqual([
+            { line: 1, status: 200, data: record },
+            { line: 2, status: 200, data: record },
+            { summary: { parsed: 2, failed: 0, total: 2 } },
+        ]);
+    });
+
+    it('skips blank lines but keeps counting them', async () => {
+        expect(await run(['\n  \r\nJOHN0000MICHAEL0009994567\n\n'])).toEqual([
+            { line: 3, status: 200, data: record },
+            { summary: { parsed: 1, failed: 0, total: 1 } },
+        ]);
+    });
+
+    it('writes only a summary for empty input', async () => {
+        expect(await run([])).toEqual([{ summary: { parsed: 0, failed: 0, total: 0 } }]);
+    });
+
+    it('reads NDJSON strings and objects with a data string', async () => {
+        const lines = ['"JOHN0000MICHAEL0009994567"', '{"data":"JOHN0000MICHAEL0009994567"}', '{not json', '{"data":42}', 'null'];
+
+        expect(await run([lines.join('\n')], 'ndjson')).toEqual([
+            { line: 1, status: 200, data: record },
+            { line: 2, status: 200, data: record },
+            { line: 3, status: 400, errors: [{ field: 'data', position: 0, message: 'line is not valid JSON' }] },
+            { line: 4, status: 400, errors: [{ field: 'data', position: 0, message: 'record must be a non-empty string' }] },
+            { line: 5, status: 400, errors: [{ field: 'data', position: 0, message: 'record must be a non-empty string' }] },
+            { summary: { parsed: 2, failed: 3, total: 5 } },
+        ]);
+    });
+
+    it('reports overlong lines without buffering them', async () => {
+        const overlong = [{ field: 'data', position: 0, message: 'line exceeds 30 characters' }];
+
+        expect(await run(['X'.repeat(20), 'X'.repeat(20), 'X'.repeat(20), '\nJOHN0000MICHAEL0009994567\n', 'Y'.repeat(40)], 'text', 30))
+            .toEqual([
+                { line: 1, status: 400, errors: overlong },
+                { line: 2, status: 200, data: record },
+                { line: 3, status: 400, errors: overlong },
+                { summary: { parsed: 1, failed: 2, total: 3 } },
+            ]);
+    });
+});
@@ -2,12 +2,14 @@
 import express from "express";
 import bodyParser from "body-parser";
 
+import formatRouter from './routes/format';
 import parseRouter from './routes/parse';
 const app = express();
 
 const urlencodedParser = bodyParser.urlencoded({ extended: false });
 app.use(urlencodedParser);
 app.use(parseRouter);
+app.use(formatRouter);
 
 app.get('/api', (req, res) => {
     return res.send("RESPONSE SENT");
@@ -0,0 +1,91 @@
+import { FieldError, FieldSpec, FieldType, ParsedRecord, ParseResult, RecordLayout } from "./types";
+
+const typePatterns: { [type in FieldType]: RegExp } = {
+    alpha: /^[A-Za-z]+$/,
+    alphanumeric: /^[A-Za-z0-9]+$/,
+    numeric: /^[0-9]+$/,
+};
+
+const stripPadding = (value: string, padding: string): string => {
+    let end = value.length;
+    while (end > 0 && value.charAt(end - 1) === padding) {
+        end--;
+    }
+    return value.slice(0, end);
+};
+
+export const checkType = (field: FieldSpec, value: string, position: number): FieldError | null => {
+    if (value.length === 0) {
+        return { field: field.name, position, message: "value is empty" };
+    }
+    if (!typePatterns[field.type].test(value)) {
+        return { field: field.name, position, message: `expected ${field.type} value, got "${value}"` };
+    }
+    return null;
+};
+
+/**
+ * Parse a single record against a layout. Every field is checked and all
+ * field-level errors are returned together; a delimited field whose filler
+ * cannot be found stops the parse, since the fields after it have no anchor.
+ */
+export const parseRecord = (layout: RecordLayout, input: unknown): ParseResult => {
+    if (typeof input !== "string" || input.length === 0) {
+        return { ok: false, errors: [{ field: "data", position: 0, message: "record must be a non-empty string" }] };
+    }
+
+    const data: ParsedRecord = {};
+    const errors: FieldError[] = [];
+    let cursor = 0;
+
+    for (const field of layout.fields) {
+        const start = field.start !== undefined ? field.start : cursor;
+        let end: number;
+        let next: number;
+
+        if (field.length !== undefined) {
+            end = start + field.length;
+            next = end;
+            if (end > input.length) {
+                errors.push({
+                    field: field.name,
+                    position: start,
+                    message: `expected ${field.length} characters, record ends at ${input.length}`,
+                });
+                cursor = end;
+                continue;
+            }
+        } else if (field.terminator !== undefined) {
+            end = input.indexOf(field.terminator, start);
+            if (end === -1) {
+                errors.push({ field: field.name, position: start, message: `filler "${field.terminator}" not found` });
+                break;
+            }
+            next = end + field.terminator.length;
+        } else {
+            end = input.length;
+            next = end;
+        }
+
+        let value = input.slice(start, end);
+        if (field.padding !== undefined) {
+            value = stripPadding(value, field.padding);
+        }
+        if (field.trim) {
+            value = value.trim();
+        }
+
+        const error = checkType(field, value, start);
+        if (error) {
+            errors.push(error);
+        } else {
+            data[field.name] = field.format ? field.format.format(value) : value;
+        }
+        cursor = next;
+    }
+
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+    return { ok: true, data };
+};
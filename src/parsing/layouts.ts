@@ -0,0 +1,43 @@
+import { FieldFormatter, RecordLayout } from "./types";
+
+// "9994567" <-> "999-4567"
+const splitClientId: FieldFormatter = {
+    format: (value) => value.length > 4 ? `${value.slice(0, -4)}-${value.slice(-4)}` : value,
+    unformat: (value) => value.replace(/-/g, ""),
+};
+
+const layouts: { [version: string]: RecordLayout } = {};
+
+export const registerLayout = (layout: RecordLayout): void => {
+    layouts[layout.version] = layout;
+};
+
+export const getLayout = (version: string): RecordLayout | undefined => layouts[version];
+
+export const listLayouts = (): RecordLayout[] => Object.keys(layouts).map((version) => layouts[version]);
+
+/**
+ * v1: fixed-width columns. JOHN0000|MICHAEL000|9994567
+ */
+registerLayout({
+    version: "v1",
+    description: "Fixed-width: firstName(8) lastName(10) clientId(rest), names right-padded with '0'",
+    fields: [
+        { name: "firstName", type: "alpha", start: 0, length: 8, padding: "0" },
+        { name: "lastName", type: "alpha", start: 8, length: 10, padding: "0" },
+        { name: "clientId", type: "numeric", start: 18 },
+    ],
+});
+
+/**
+ * v2: variable-width names ended by "0000" and "000" fillers, clientId split as XXX-XXXX.
+ */
+registerLayout({
+    version: "v2",
+    description: "Delimited: firstName + '0000', lastName + '000', clientId(rest) formatted as XXX-XXXX",
+    fields: [
+        { name: "firstName", type: "alpha", terminator: "0000" },
+        { name: "lastName", type: "alpha", terminator: "000" },
+        { name: "clientId", type: "numeric", format: splitClientId },
+    ],
+});
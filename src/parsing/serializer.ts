@@ -0,0 +1,82 @@
+import { checkType } from "./engine";
+import { FieldError, FieldSpec, FormatResult, RecordLayout } from "./types";
+
+const formatField = (field: FieldSpec, raw: unknown, position: number, isLast: boolean): string | FieldError => {
+    const fail = (message: string): FieldError => ({ field: field.name, position, message });
+
+    if (typeof raw !== "string" && typeof raw !== "number") {
+        return fail("value is required");
+    }
+
+    let value = String(raw);
+    if (field.trim) {
+        value = value.trim();
+    }
+    if (field.format) {
+        value = field.format.unformat(value);
+    }
+
+    const typeError = checkType(field, value, position);
+    if (typeError) {
+        return typeError;
+    }
+    if (field.start !== undefined && field.start !== position) {
+        return fail(`layout starts field at ${field.start} but record is ${position} characters long`);
+    }
+
+    if (field.length !== undefined) {
+        if (value.length > field.length) {
+            return fail(`value exceeds ${field.length} characters`);
+        }
+        if (field.padding === undefined) {
+            return value.length === field.length ? value : fail(`value must be exactly ${field.length} characters`);
+        }
+        if (value.endsWith(field.padding)) {
+            return fail(`value cannot end with padding "${field.padding}"`);
+        }
+        return value + field.padding.repeat(field.length - value.length);
+    }
+    if (field.terminator !== undefined) {
+        if (value.indexOf(field.terminator) !== -1) {
+            return fail(`value cannot contain filler "${field.terminator}"`);
+        }
+        return value + field.terminator;
+    }
+    if (!isLast) {
+        return fail("open-ended field must be the last in the layout");
+    }
+    return value;
+};
+
+/**
+ * Build a record string from a JSON object, the inverse of parseRecord.
+ * Values are checked against the field types and the layout's widths and
+ * fillers so that parsing the result gives back the same object.
+ */
+export const formatRecord = (layout: RecordLayout, input: unknown): FormatResult => {
+    if (input === null || typeof input !== "object" || Array.isArray(input)) {
+        return { ok: false, errors: [{ field: "data", position: 0, message: "record must be an object" }] };
+    }
+
+    const values = input as { [field: string]: unknown };
+    const errors: FieldError[] = [];
+    let record = "";
+
+    layout.fields.forEach((field, index) => {
+        const result = formatField(field, values[field.name], record.length, index === layout.fields.length - 1);
+        if (typeof result === "string") {
+            record += result;
+            return;
+        }
+        errors.push(result);
+        // Keep later fixed-width fields at their expected offsets so they are still checked.
+        if (field.length !== undefined) {
+            record += " ".repeat(field.length);
+        }
+    });
+
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+    return { ok: true, data: record };
+};
@@ -0,0 +1,109 @@
+import { Transform, TransformCallback } from "stream";
+import { StringDecoder } from "string_decoder";
+import { parseRecord } from "./engine";
+import { FieldError, RecordLayout } from "./types";
+
+export type LineFormat = "text" | "ndjson";
+
+export const DEFAULT_MAX_LINE_LENGTH = 64 * 1024;
+
+/**
+ * Turns a stream of newline-separated records into a stream of NDJSON results,
+ * one per non-blank input line, followed by a summary line. Only the current
+ * partial line is held in memory, and at most `maxLineLength` characters of it:
+ * a longer line is dropped as it arrives and reported as a 400 result once it ends,
+ * so arbitrarily large uploads can be piped through.
+ */
+export class RecordStreamParser extends Transform {
+    private readonly decoder = new StringDecoder("utf8");
+    private buffered = "";
+    // The line being buffered has already exceeded maxLineLength and was discarded
+    private overlong = false;
+    private lineNumber = 0;
+    private parsed = 0;
+    private failed = 0;
+
+    constructor(
+        private readonly layout: RecordLayout,
+        private readonly format: LineFormat,
+        private readonly maxLineLength: number = DEFAULT_MAX_LINE_LENGTH,
+    ) {
+        super();
+    }
+
+    public _transform(chunk: Buffer, _: string, callback: TransformCallback) {
+        this.buffered += this.decoder.write(chunk);
+        const lines = this.buffered.split("\n");
+        this.buffered = lines.pop();
+        lines.forEach((line) => this.handleLine(line));
+        if (this.buffered.length > this.maxLineLength) {
+            this.overlong = true;
+            this.buffered = "";
+        }
+        callback();
+    }
+
+    public _flush(callback: TransformCallback) {
+        this.buffered += this.decoder.end();
+        if (this.buffered.length > 0 || this.overlong) {
+            this.handleLine(this.buffered);
+            this.buffered = "";
+        }
+        this.emitResult({
+            summary: { parsed: this.parsed, failed: this.failed, total: this.parsed + this.failed },
+        });
+        callback();
+    }
+
+    private handleLine(rawLine: string) {
+        this.lineNumber++;
+        const line = rawLine.replace(/\r$/, "");
+        if (this.overlong || line.length > this.maxLineLength) {
+            this.overlong = false;
+            this.failed++;
+            const message = `line exceeds ${this.maxLineLength} characters`;
+            this.emitResult({ line: this.lineNumber, status: 400, errors: [{ field: "data", position: 0, message }] });
+            return;
+        }
+        if (line.trim().length === 0) {
+            return;
+        }
+
+        const record = this.format === "ndjson" ? this.readJsonLine(line) : line;
+        if (typeof record !== "string") {
+            this.failed++;
+            this.emitResult({ line: this.lineNumber, status: 400, errors: [record] });
+            return;
+        }
+
+        const result = parseRecord(this.layout, record);
+        if (result.ok === false) {
+            this.failed++;
+            this.emitResult({ line: this.lineNumber, status: 400, errors: result.errors });
+        } else {
+            this.parsed++;
+            this.emitResult({ line: this.lineNumber, status: 200, data: result.data });
+        }
+    }
+
+    // An NDJSON line is either a JSON string or an object with a "data" string, like the single-record body.
+    private readJsonLine(line: string): string | FieldError {
+        let value: unknown;
+        try {
+            value = JSON.parse(line);
+        } catch (err) {
+            return { field: "data", position: 0, message: "line is not valid JSON" };
+        }
+        if (value !== null && typeof value === "object") {
+            value = (value as { data?: unknown }).data;
+        }
+        if (typeof value !== "string") {
+            return { field: "data", position: 0, message: "record must be a non-empty string" };
+        }
+        return value;
+    }
+
+    private emitResult(result: object) {
+        this.push(JSON.stringify(result) + "\n");
+    }
+}
@@ -0,0 +1,51 @@
+export type FieldType = "alpha" | "numeric" | "alphanumeric";
+
+/**
+ * Converts between the value stored in the record and the value exposed in JSON,
+ * e.g. "9994567" <-> "999-4567". `unformat` must invert `format` so records round trip.
+ */
+export type FieldFormatter = {
+    format: (value: string) => string;
+    unformat: (value: string) => string;
+};
+
+/**
+ * A single field of a record layout.
+ *
+ * A field is either positional (`start`, optionally `length`) or delimited
+ * (read from where the previous field ended up to its `terminator` filler).
+ * A field with neither a `length` nor a `terminator` runs to the end of the record.
+ */
+export type FieldSpec = {
+    name: string;
+    type: FieldType;
+    start?: number;
+    length?: number;
+    terminator?: string;
+    // Filler character stripped from the right of a positional value, e.g. "0" in "JOHN0000".
+    padding?: string;
+    trim?: boolean;
+    format?: FieldFormatter;
+};
+
+export type RecordLayout = {
+    version: string;
+    description: string;
+    fields: FieldSpec[];
+};
+
+export type FieldError = {
+    field: string;
+    position: number;
+    message: string;
+};
+
+export type ParsedRecord = { [field: string]: string };
+
+export type ParseResult =
+    | { ok: true; data: ParsedRecord }
+    | { ok: false; errors: FieldError[] };
+
+export type FormatResult =
+    | { ok: true; data: string }
+    | { ok: false; errors: FieldError[] };
@@ -0,0 +1,41 @@
+import bodyParser from 'body-parser';
+import { Router } from 'express';
+import { getLayout } from '../parsing/layouts';
+import { formatRecord } from '../parsing/serializer';
+const formatRouter = Router();
+
+// Body: { firstName, lastName, clientId } or an array of them. Layout: ?version=v1 (default) | v2
+formatRouter.post('/api/v1/format', bodyParser.json(), (req, res) => {
+    const version = typeof req.query.version === 'string' ? req.query.version : 'v1';
+    const layout = getLayout(version);
+    if (!layout) {
+        const message = `unknown layout version "${version}"`;
+        return res.status(400).send({status: 400, errors: [{field: 'version', position: 0, message}]});
+    }
+
+    if (!Array.isArray(req.body)) {
+        const result = formatRecord(layout, req.body);
+        if (result.ok === false) {
+            return res.status(400).send({status: 400, errors: result.errors});
+        }
+        return res.send({status: 200, data: result.data});
+    }
+
+    const records: string[] = [];
+    const errors: object[] = [];
+    req.body.forEach((item: unknown, index: number) => {
+        const result = formatRecord(layout, item);
+        if (result.ok === false) {
+            errors.push({index, errors: result.errors});
+        } else {
+            records.push(result.data);
+        }
+    });
+    if (errors.length > 0) {
+        return res.status(400).send({status: 400, errors});
+    }
+    res.send({status: 200, data: records});
+});
+
+
+export default formatRouter;
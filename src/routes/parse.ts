@@ -1,23 +1,51 @@
-
-import { Router } from 'express';
+import { Request, Response, Router } from 'express';
+import { pipeline } from 'stream';
+import { parseRecord } from '../parsing/engine';
+import { getLayout } from '../parsing/layouts';
+import { RecordStreamParser } from '../parsing/stream';
+import { RecordLayout } from '../parsing/types';
 const parseRouter = Router();
 
-parseRouter.post('/api/v1/parse', (req, res) => {
-    // var data = "JOHN0000MICHAEL0009994567";
-    const reqData:string = req.body.data;
-    // const pattern = reqData.match(/([A-Za-z]+0000)([A-Za-z]+000)([0-9]+)/);
-    // const response = { firstName: pattern[1], lastName: pattern[2], clientId: pattern[3] };
-    const response = { firstName: reqData.substr(0,8), lastName: reqData.substr(8,10), clientId: reqData.substr(18)};
-    res.send({status: 200, data: response});
-});
+// Routes are bound to a layout when they are registered, so a missing one fails at startup.
+const requireLayout = (version: string): RecordLayout => {
+    const layout = getLayout(version);
+    if (!layout) {
+        throw new Error(`layout version "${version}" is not registered`);
+    }
+    return layout;
+};
+
+const parseWith = (version: string) => {
+    const layout = requireLayout(version);
+    return (req: Request, res: Response) => {
+        // e.g. data = "JOHN0000MICHAEL0009994567"
+        const result = parseRecord(layout, req.body.data);
+        if (result.ok === false) {
+            return res.status(400).send({status: 400, errors: result.errors});
+        }
+        res.send({status: 200, data: result.data});
+    };
+};
+
+// Body is streamed as-is: text/plain (one record per line) or application/x-ndjson.
+const bulkParseWith = (version: string) => {
+    const layout = requireLayout(version);
+    return (req: Request, res: Response) => {
+        const format = req.is(['application/x-ndjson', 'application/ndjson']) ? 'ndjson' : 'text';
+        res.status(200).type('application/x-ndjson');
+        pipeline(req, new RecordStreamParser(layout, format), res, (err) => {
+            if (err) {
+                res.destroy(err);
+            }
+        });
+    };
+};
+
+parseRouter.post('/api/v1/parse', parseWith('v1'));
+parseRouter.post('/api/v1/parse/bulk', bulkParseWith('v1'));
 
-parseRouter.post('/api/v2/parse', (req, res) => {
-    const reqData:string = req.body.data;
-    // const pattern = reqData.match(/([A-Za-z]+0000)([A-Za-z]+000)([0-9]+)/);
-    // const response = { firstName: pattern[1].slice(0, -4), lastName: pattern[2].slice(0, -3), clientId: pattern[3].slice(0, -4) + "-" + pattern[3].slice(-4) };
-    const response = { firstName: reqData.substr(0,4), lastName: reqData.substr(8,7), clientId: reqData.substr(18)};
-    res.send({status: 200, data: response});
-});
+parseRouter.post('/api/v2/parse', parseWith('v2'));
+parseRouter.post('/api/v2/parse/bulk', bulkParseWith('v2'));
 
 
-export default parseRouter;
\ No newline at end of file
+export default parseRouter;